@@ -0,0 +1,63 @@
+/**
+ * Board analysis
+ *
+ * The "What you missed" section of the results screen; these pin how a
+ * board's words are split between the two players and what was left.
+ */
+
+import { TOP_MISSED_WORDS, analyzeBoard } from '../src/utils/boardAnalysis';
+import { BoardSolution } from '../shared/wordSolver';
+
+const SOLUTION: BoardSolution = {
+  words: [
+    { word: 'START', score: 7 },
+    { word: 'STAR', score: 5 },
+    { word: 'TARS', score: 5 },
+    { word: 'ART', score: 3 },
+    { word: 'RAT', score: 3 },
+    { word: 'TAR', score: 3 },
+  ],
+  maxScore: 26,
+};
+
+describe('analyzeBoard', () => {
+  test('splits the board into missed, opponent-only and shared words', () => {
+    const analysis = analyzeBoard(SOLUTION, 8, ['STAR', 'RAT'], ['STAR', 'START']);
+
+    expect(analysis.sharedWords.map(({ word }) => word)).toEqual(['STAR']);
+    expect(analysis.opponentOnlyWords.map(({ word }) => word)).toEqual(['START']);
+    expect(analysis.missedWords.map(({ word }) => word)).toEqual(['TARS', 'ART', 'TAR']);
+    expect(analysis.maxScore).toBe(26);
+    expect(analysis.scorePercent).toBe(31);
+  });
+
+  test('matches found words in any case', () => {
+    const analysis = analyzeBoard(SOLUTION, 5, ['star'], ['Star']);
+
+    expect(analysis.sharedWords.map(({ word }) => word)).toEqual(['STAR']);
+    expect(analysis.missedWords.map(({ word }) => word)).not.toContain('STAR');
+  });
+
+  test(`lists at most ${TOP_MISSED_WORDS} missed words, highest scoring first`, () => {
+    const words = Array.from({ length: TOP_MISSED_WORDS + 5 }, (_, i) => ({
+      word: `WORD${i}`,
+      score: i,
+    }));
+    const analysis = analyzeBoard({ words, maxScore: 100 }, 0, []);
+
+    expect(analysis.missedWords).toHaveLength(TOP_MISSED_WORDS);
+    expect(analysis.missedWords[0].score).toBe(TOP_MISSED_WORDS + 4);
+    expect(analysis.opponentOnlyWords).toEqual([]);
+  });
+
+  test('scores 0% on a board with nothing to find', () => {
+    const analysis = analyzeBoard({ words: [], maxScore: 0 }, 0, []);
+
+    expect(analysis.scorePercent).toBe(0);
+    expect(analysis.missedWords).toEqual([]);
+  });
+
+  test('never scores more than 100%', () => {
+    expect(analyzeBoard(SOLUTION, 40, ['START']).scorePercent).toBe(100);
+  });
+});
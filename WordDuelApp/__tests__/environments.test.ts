@@ -0,0 +1,65 @@
+/**
+ * Shared environment profiles
+ *
+ * The app and the server each pick a profile from the same table, and the
+ * app refuses to start when they disagree; these pin what counts as a match.
+ */
+
+import {
+  ENVIRONMENTS,
+  findEnvironmentMismatch,
+  getEnvironment,
+  getEnvironmentFingerprint,
+  fromBaseUnits,
+  toBaseUnits,
+} from '../shared/environments';
+
+describe('getEnvironment', () => {
+  test('loads a complete profile', () => {
+    expect(getEnvironment('localnet').rpcUrl).toBe('http://127.0.0.1:8899');
+    expect(getEnvironment('devnet').cluster).toBe('devnet');
+  });
+
+  test('refuses unknown names', () => {
+    expect(() => getEnvironment('testnet')).toThrow('Unknown environment');
+    expect(() => getEnvironment(undefined)).toThrow('Unknown environment');
+  });
+
+  test('refuses a profile with addresses still missing', () => {
+    expect(ENVIRONMENTS.mainnet.escrowProgramId).toBe('');
+    expect(() => getEnvironment('mainnet')).toThrow('missing escrowProgramId, resolverAddress');
+  });
+});
+
+describe('toBaseUnits', () => {
+  test('uses the decimals of each currency', () => {
+    expect(toBaseUnits(0.05, 'SOL')).toBe(50_000_000);
+    expect(toBaseUnits(5, 'USDC')).toBe(5_000_000);
+    expect(fromBaseUnits(toBaseUnits(0.01, 'USDC'), 'USDC')).toBe(0.01);
+  });
+});
+
+describe('findEnvironmentMismatch', () => {
+  const devnet = getEnvironmentFingerprint(ENVIRONMENTS.devnet);
+
+  test('accepts the same profile on both sides', () => {
+    expect(findEnvironmentMismatch(devnet, { ...devnet })).toBeNull();
+  });
+
+  test('reports a different cluster', () => {
+    const localnet = getEnvironmentFingerprint(ENVIRONMENTS.localnet);
+    expect(findEnvironmentMismatch(devnet, localnet)).toBe(
+      'The app is on devnet but the server is on localnet'
+    );
+  });
+
+  test('reports a different escrow on the same cluster', () => {
+    const otherResolver = { ...devnet, resolverAddress: ENVIRONMENTS.localnet.resolverAddress };
+    expect(findEnvironmentMismatch(devnet, otherResolver)).toMatch('different escrow resolvers');
+  });
+
+  test('reports a different USDC mint on the same cluster', () => {
+    const otherMint = { ...devnet, usdcMint: ENVIRONMENTS.mainnet.usdcMint };
+    expect(findEnvironmentMismatch(devnet, otherMint)).toMatch('different USDC mints');
+  });
+});
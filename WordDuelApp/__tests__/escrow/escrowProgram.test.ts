@@ -0,0 +1,503 @@
+/**
+ * Escrow program
+ *
+ * Runs against a local solana-test-validator with the program loaded
+ * (`npm run test:escrow`), never a live cluster. Instructions are built with
+ * the same shared/escrowProgram encoders the server and the app use, so the
+ * layout both sides rely on is pinned here too.
+ *
+ * Token games stake a stand-in USDC mint created from
+ * program/localnet-usdc-mint.json, the localnet profile's USDC mint.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccount,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMint,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  mintTo,
+} from '@solana/spl-token';
+
+import {
+  EscrowOutcome,
+  EscrowOutcomeValue,
+  decodeGameEscrow,
+  encodeCreateGame,
+  encodeDeposit,
+  encodeRefundExpired,
+  encodeResolve,
+  getGameEscrowSeeds,
+  isVaultTokenBalance,
+} from '../../shared/escrowProgram';
+import { splitPot } from '../../shared/payouts';
+import { CURRENCY_DECIMALS, ENVIRONMENTS, toBaseUnits } from '../../shared/environments';
+
+const PROGRAM_ID = new PublicKey(ENVIRONMENTS.localnet.escrowProgramId);
+const PROGRAM_SO = path.join(__dirname, '../../program/target/deploy/wordduel_escrow.so');
+const RPC_URL = ENVIRONMENTS.localnet.rpcUrl;
+const USDC_MINT_KEYPAIR = path.join(__dirname, '../../program/localnet-usdc-mint.json');
+
+const STAKE = 0.01 * LAMPORTS_PER_SOL;
+const TOKEN_STAKE = toBaseUnits(1, 'USDC');
+const USDC_DECIMALS = CURRENCY_DECIMALS.USDC;
+const FEE_BPS = 250;
+
+// Custom error codes (program/src/error.rs)
+const NOT_A_PLAYER = 4;
+const ALREADY_DEPOSITED = 5;
+const NOT_RESOLVER = 6;
+const NOT_EXPIRED = 10;
+const INVALID_MINT = 12;
+
+const connection = new Connection(RPC_URL, 'confirmed');
+let validator: ChildProcess;
+let ledgerDir: string;
+
+let resolver: Keypair;
+let treasury: Keypair;
+let usdcMint: PublicKey;
+let gameCount = 0;
+
+interface TestGame {
+  gameId: string;
+  escrow: PublicKey;
+  player1: Keypair;
+  player2: Keypair;
+  mint: PublicKey | null;   // The staked token's mint, or null for SOL
+  stake: number;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+async function waitForValidator(timeoutMs: number) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      await connection.getLatestBlockhash();
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+  }
+  throw new Error('solana-test-validator did not start');
+}
+
+async function fundedKeypair(sol: number = 1): Promise<Keypair> {
+  const keypair = Keypair.generate();
+  const signature = await connection.requestAirdrop(keypair.publicKey, sol * LAMPORTS_PER_SOL);
+  await connection.confirmTransaction(signature, 'confirmed');
+  return keypair;
+}
+
+function send(instructions: TransactionInstruction | TransactionInstruction[], signers: Keypair[]) {
+  return sendAndConfirmTransaction(connection, new Transaction().add(...[instructions].flat()), signers);
+}
+
+const programError = (code: number) => new RegExp(`custom program error: 0x${code.toString(16)}\\b`);
+
+/**
+ * Open a game's escrow. A token game passes its mint account too; `mint`
+ * can be any account, to check that the program refuses non-mints.
+ */
+async function createGame(timeoutSeconds: number = 3600, mint: PublicKey | null = null): Promise<TestGame> {
+  const gameId = `game-${Date.now()}-${gameCount++}`;
+  const [player1, player2] = await Promise.all([fundedKeypair(), fundedKeypair()]);
+  const seeds = getGameEscrowSeeds(resolver.publicKey.toBytes(), gameId).map((seed) => Buffer.from(seed));
+  const [escrow] = PublicKey.findProgramAddressSync(seeds, PROGRAM_ID);
+  const stake = mint ? TOKEN_STAKE : STAKE;
+
+  await send(
+    new TransactionInstruction({
+      programId: PROGRAM_ID,
+      keys: [
+        { pubkey: resolver.publicKey, isSigner: true, isWritable: true },
+        { pubkey: escrow, isSigner: false, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        ...(mint ? [{ pubkey: mint, isSigner: false, isWritable: false }] : []),
+      ],
+      data: Buffer.from(
+        encodeCreateGame({
+          gameId,
+          player1: player1.publicKey.toBytes(),
+          player2: player2.publicKey.toBytes(),
+          treasury: treasury.publicKey.toBytes(),
+          stake,
+          feeBps: FEE_BPS,
+          timeoutAt: Math.floor(Date.now() / 1000) + timeoutSeconds,
+          mint: mint ? mint.toBytes() : null,
+        })
+      ),
+    }),
+    [resolver]
+  );
+
+  return { gameId, escrow, player1, player2, mint, stake };
+}
+
+/**
+ * Open a USDC game, with both players holding enough USDC for two stakes.
+ */
+async function createTokenGame(timeoutSeconds?: number): Promise<TestGame> {
+  const game = await createGame(timeoutSeconds, usdcMint);
+  for (const player of [game.player1, game.player2]) {
+    const tokenAccount = await createAssociatedTokenAccount(connection, player, usdcMint, player.publicKey);
+    await mintTo(connection, resolver, usdcMint, tokenAccount, resolver, TOKEN_STAKE * 2);
+  }
+  return game;
+}
+
+// The escrow's vault: its associated token account for the game's mint
+const vaultOf = (game: TestGame) => getAssociatedTokenAddressSync(game.mint!, game.escrow, true);
+
+// A wallet's USDC token account
+const tokenAccountOf = (owner: PublicKey) => getAssociatedTokenAddressSync(usdcMint, owner);
+
+/**
+ * Deposit a player's stake, creating the vault first in a token game
+ * (as the app does).
+ */
+function deposit(game: TestGame, player: Keypair) {
+  const keys = [
+    { pubkey: player.publicKey, isSigner: true, isWritable: true },
+    { pubkey: game.escrow, isSigner: false, isWritable: true },
+    { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+  ];
+  const instructions: TransactionInstruction[] = [];
+
+  if (game.mint) {
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(player.publicKey, vaultOf(game), game.escrow, game.mint)
+    );
+    keys.push(
+      { pubkey: tokenAccountOf(player.publicKey), isSigner: false, isWritable: true },
+      { pubkey: vaultOf(game), isSigner: false, isWritable: true },
+      { pubkey: game.mint, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false }
+    );
+  }
+
+  instructions.push(
+    new TransactionInstruction({ programId: PROGRAM_ID, keys, data: Buffer.from(encodeDeposit()) })
+  );
+  return send(instructions, [player]);
+}
+
+/**
+ * Resolve a game. In a token game the payees' token accounts follow the
+ * vault (created first if missing, as the server does); `tokenAccounts`
+ * overrides them, to check the program refuses the wrong ones.
+ */
+function resolveGame(
+  game: TestGame,
+  outcome: EscrowOutcomeValue,
+  signer: Keypair = resolver,
+  tokenAccounts?: PublicKey[]
+) {
+  const payees = [game.player1.publicKey, game.player2.publicKey, treasury.publicKey];
+  const keys = [
+    { pubkey: signer.publicKey, isSigner: true, isWritable: true },
+    { pubkey: game.escrow, isSigner: false, isWritable: true },
+    ...payees.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true })),
+  ];
+  const instructions: TransactionInstruction[] = [];
+
+  if (game.mint) {
+    payees.forEach((owner) =>
+      instructions.push(
+        createAssociatedTokenAccountIdempotentInstruction(signer.publicKey, tokenAccountOf(owner), owner, game.mint!)
+      )
+    );
+    keys.push(
+      { pubkey: vaultOf(game), isSigner: false, isWritable: true },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      ...(tokenAccounts || payees.map(tokenAccountOf)).map((pubkey) => ({
+        pubkey,
+        isSigner: false,
+        isWritable: true,
+      }))
+    );
+  }
+
+  instructions.push(
+    new TransactionInstruction({ programId: PROGRAM_ID, keys, data: Buffer.from(encodeResolve(outcome)) })
+  );
+  return send(instructions, [signer]);
+}
+
+function refundExpired(game: TestGame, player: Keypair) {
+  const keys = [
+    { pubkey: player.publicKey, isSigner: true, isWritable: false },
+    { pubkey: game.escrow, isSigner: false, isWritable: true },
+    { pubkey: game.player1.publicKey, isSigner: false, isWritable: true },
+    { pubkey: game.player2.publicKey, isSigner: false, isWritable: true },
+    { pubkey: resolver.publicKey, isSigner: false, isWritable: true },
+  ];
+  if (game.mint) {
+    keys.push(
+      { pubkey: vaultOf(game), isSigner: false, isWritable: true },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: tokenAccountOf(game.player1.publicKey), isSigner: false, isWritable: true },
+      { pubkey: tokenAccountOf(game.player2.publicKey), isSigner: false, isWritable: true }
+    );
+  }
+
+  return send(
+    new TransactionInstruction({ programId: PROGRAM_ID, keys, data: Buffer.from(encodeRefundExpired()) }),
+    [player]
+  );
+}
+
+const balanceOf = (keypair: Keypair) => connection.getBalance(keypair.publicKey);
+
+// A wallet's USDC balance, in base units (0 before its token account exists)
+async function tokenBalanceOf(owner: PublicKey): Promise<number> {
+  const account = await connection.getAccountInfo(tokenAccountOf(owner));
+  return account ? Number((await getAccount(connection, tokenAccountOf(owner))).amount) : 0;
+}
+
+// ============================================================
+// SETUP
+// ============================================================
+
+beforeAll(async () => {
+  if (!fs.existsSync(PROGRAM_SO)) {
+    throw new Error(`Build the program first (cargo build-sbf): ${PROGRAM_SO} not found`);
+  }
+
+  ledgerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wordduel-escrow-'));
+  validator = spawn(
+    'solana-test-validator',
+    ['--reset', '--quiet', '--ledger', ledgerDir, '--bpf-program', PROGRAM_ID.toBase58(), PROGRAM_SO],
+    { stdio: 'ignore' }
+  );
+  await waitForValidator(60_000);
+
+  [resolver, treasury] = await Promise.all([fundedKeypair(10), fundedKeypair()]);
+
+  // The stand-in USDC mint, at the localnet profile's address
+  const mintKeypair = Keypair.fromSecretKey(
+    Uint8Array.from(JSON.parse(fs.readFileSync(USDC_MINT_KEYPAIR, 'utf8')))
+  );
+  usdcMint = await createMint(connection, resolver, resolver.publicKey, null, USDC_DECIMALS, mintKeypair);
+}, 90_000);
+
+afterAll(() => {
+  validator?.kill();
+  if (ledgerDir) fs.rmdirSync(ledgerDir, { recursive: true });
+});
+
+// ============================================================
+// TESTS
+// ============================================================
+
+describe('escrow program', () => {
+  test('records deposits of exactly the stake', async () => {
+    const game = await createGame();
+    await deposit(game, game.player1);
+
+    const account = await connection.getAccountInfo(game.escrow);
+    const escrow = decodeGameEscrow(account!.data)!;
+    expect(escrow.gameId).toBe(game.gameId);
+    expect(escrow.stake).toBe(STAKE);
+    expect(escrow.feeBps).toBe(FEE_BPS);
+    expect(escrow.player1Deposited).toBe(true);
+    expect(escrow.player2Deposited).toBe(false);
+  }, 30_000);
+
+  test('pays the winner the pot less the fee, and the fee to the treasury', async () => {
+    const game = await createGame();
+    await deposit(game, game.player1);
+    await deposit(game, game.player2);
+
+    const [winnerBefore, treasuryBefore] = await Promise.all([
+      balanceOf(game.player2),
+      balanceOf(treasury),
+    ]);
+    await resolveGame(game, EscrowOutcome.Player2Wins);
+
+    const { fee, payout } = splitPot(STAKE * 2, FEE_BPS);
+    expect((await balanceOf(game.player2)) - winnerBefore).toBe(payout);
+    expect((await balanceOf(treasury)) - treasuryBefore).toBe(fee);
+
+    // Resolving closes the escrow, so it can never pay out twice
+    expect(await connection.getAccountInfo(game.escrow)).toBeNull();
+    await expect(resolveGame(game, EscrowOutcome.Player2Wins)).rejects.toThrow();
+  }, 30_000);
+
+  test('refunds both deposits on a tie, without a fee', async () => {
+    const game = await createGame();
+    await deposit(game, game.player1);
+    await deposit(game, game.player2);
+
+    const [before1, before2] = await Promise.all([balanceOf(game.player1), balanceOf(game.player2)]);
+    await resolveGame(game, EscrowOutcome.Refund);
+
+    expect((await balanceOf(game.player1)) - before1).toBe(STAKE);
+    expect((await balanceOf(game.player2)) - before2).toBe(STAKE);
+  }, 30_000);
+
+  test('only lets the resolver resolve', async () => {
+    const game = await createGame();
+    await deposit(game, game.player1);
+    await deposit(game, game.player2);
+
+    await expect(resolveGame(game, EscrowOutcome.Player1Wins, game.player1)).rejects.toThrow(
+      programError(NOT_RESOLVER)
+    );
+  }, 30_000);
+
+  test('rejects deposits from strangers and second deposits', async () => {
+    const game = await createGame();
+    const stranger = await fundedKeypair();
+
+    await expect(deposit(game, stranger)).rejects.toThrow(programError(NOT_A_PLAYER));
+
+    await deposit(game, game.player1);
+    await expect(deposit(game, game.player1)).rejects.toThrow(programError(ALREADY_DEPOSITED));
+  }, 30_000);
+
+  test('lets a player refund both deposits once the escrow times out', async () => {
+    const game = await createGame(5);
+    await deposit(game, game.player1);
+    await deposit(game, game.player2);
+
+    // Not before the timeout...
+    await expect(refundExpired(game, game.player2)).rejects.toThrow(programError(NOT_EXPIRED));
+
+    // ...but once the cluster clock has passed it
+    await new Promise((resolve) => setTimeout(resolve, 8000));
+    const before1 = await balanceOf(game.player1);
+    await refundExpired(game, game.player2);
+
+    expect((await balanceOf(game.player1)) - before1).toBe(STAKE);
+    expect(await connection.getAccountInfo(game.escrow)).toBeNull();
+  }, 30_000);
+});
+
+describe('escrow program with USDC stakes', () => {
+  test('is opened at the localnet profile\'s USDC mint', () => {
+    expect(usdcMint.toBase58()).toBe(ENVIRONMENTS.localnet.usdcMint);
+  });
+
+  test('refuses a token game whose mint is not a mint', async () => {
+    const notAMint = await fundedKeypair();
+    await expect(createGame(3600, notAMint.publicKey)).rejects.toThrow(programError(INVALID_MINT));
+  }, 30_000);
+
+  test('moves exactly the stake into the vault, which verifyDeposit recognises', async () => {
+    const game = await createTokenGame();
+    const signature = await deposit(game, game.player1);
+
+    const escrow = decodeGameEscrow((await connection.getAccountInfo(game.escrow))!.data)!;
+    expect(Buffer.from(escrow.mint!).equals(usdcMint.toBuffer())).toBe(true);
+    expect(escrow.stake).toBe(TOKEN_STAKE);
+    expect(escrow.player1Deposited).toBe(true);
+    expect(Number((await getAccount(connection, vaultOf(game))).amount)).toBe(TOKEN_STAKE);
+    expect(await tokenBalanceOf(game.player1.publicKey)).toBe(TOKEN_STAKE);
+
+    // The same check verifyDeposit makes on the deposit's token balances
+    const transaction = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    const accountKeys = transaction!.transaction.message.getAccountKeys().staticAccountKeys;
+    const vaultIndex = accountKeys.findIndex((key) => key.equals(vaultOf(game)));
+    const balances = transaction!.meta?.postTokenBalances;
+    const escrowAddress = game.escrow.toBase58();
+
+    expect(isVaultTokenBalance(balances, vaultIndex, usdcMint.toBase58(), escrowAddress, USDC_DECIMALS)).toBe(true);
+    expect(isVaultTokenBalance(balances, vaultIndex, treasury.publicKey.toBase58(), escrowAddress, USDC_DECIMALS)).toBe(false);
+    expect(isVaultTokenBalance(balances, -1, usdcMint.toBase58(), escrowAddress, USDC_DECIMALS)).toBe(false);
+  }, 30_000);
+
+  test('pays the winner the pot less the fee, the fee to the treasury, and closes the vault', async () => {
+    const game = await createTokenGame();
+    await deposit(game, game.player1);
+    await deposit(game, game.player2);
+
+    const [winnerBefore, treasuryBefore] = await Promise.all([
+      tokenBalanceOf(game.player1.publicKey),
+      tokenBalanceOf(treasury.publicKey),
+    ]);
+    await resolveGame(game, EscrowOutcome.Player1Wins);
+
+    const { fee, payout } = splitPot(TOKEN_STAKE * 2, FEE_BPS);
+    expect((await tokenBalanceOf(game.player1.publicKey)) - winnerBefore).toBe(payout);
+    expect((await tokenBalanceOf(treasury.publicKey)) - treasuryBefore).toBe(fee);
+    expect(await connection.getAccountInfo(vaultOf(game))).toBeNull();
+    expect(await connection.getAccountInfo(game.escrow)).toBeNull();
+  }, 30_000);
+
+  test('refunds both token deposits on a tie', async () => {
+    const game = await createTokenGame();
+    await deposit(game, game.player1);
+    await deposit(game, game.player2);
+
+    await resolveGame(game, EscrowOutcome.Refund);
+
+    expect(await tokenBalanceOf(game.player1.publicKey)).toBe(TOKEN_STAKE * 2);
+    expect(await tokenBalanceOf(game.player2.publicKey)).toBe(TOKEN_STAKE * 2);
+    expect(await connection.getAccountInfo(vaultOf(game))).toBeNull();
+  }, 30_000);
+
+  test('refunds a USDC escrow nobody deposited into, whose vault was never created', async () => {
+    const game = await createTokenGame();
+    expect(await connection.getAccountInfo(vaultOf(game))).toBeNull();
+
+    await resolveGame(game, EscrowOutcome.Refund);
+
+    expect(await connection.getAccountInfo(game.escrow)).toBeNull();
+  }, 30_000);
+
+  test('only pays token accounts the payees own', async () => {
+    const game = await createTokenGame();
+    await deposit(game, game.player1);
+    await deposit(game, game.player2);
+
+    // The fee sent to player 1 instead of the treasury
+    const player1Account = tokenAccountOf(game.player1.publicKey);
+    const tokenAccounts = [player1Account, tokenAccountOf(game.player2.publicKey), player1Account];
+    await expect(resolveGame(game, EscrowOutcome.Player1Wins, resolver, tokenAccounts)).rejects.toThrow(
+      programError(INVALID_MINT)
+    );
+  }, 30_000);
+
+  test('lets a player refund token deposits once the escrow times out, funded or not', async () => {
+    // Token games take longer to set up, so leave time to deposit first
+    const [funded, unfunded] = await Promise.all([createTokenGame(15), createTokenGame(15)]);
+    await deposit(funded, funded.player1);
+    await expect(refundExpired(funded, funded.player1)).rejects.toThrow(programError(NOT_EXPIRED));
+
+    // Wait for the cluster clock to pass both timeouts
+    const { timeoutAt } = decodeGameEscrow((await connection.getAccountInfo(unfunded.escrow))!.data)!;
+    const clusterTime = async () => (await connection.getBlockTime(await connection.getSlot('confirmed'))) ?? 0;
+    while ((await clusterTime()) <= timeoutAt) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+    await refundExpired(funded, funded.player1);
+    await refundExpired(unfunded, unfunded.player2);
+
+    expect(await tokenBalanceOf(funded.player1.publicKey)).toBe(TOKEN_STAKE * 2);
+    expect(await connection.getAccountInfo(vaultOf(funded))).toBeNull();
+    expect(await connection.getAccountInfo(funded.escrow)).toBeNull();
+    expect(await connection.getAccountInfo(unfunded.escrow)).toBeNull();
+  }, 60_000);
+});
@@ -0,0 +1,61 @@
+/**
+ * Shared game rules
+ *
+ * These boards are pinned to RULES_VERSION. If one of these expectations
+ * changes, the rules changed: bump RULES_VERSION and update the fixtures.
+ */
+
+import {
+  RULES_VERSION,
+  calculateScore,
+  canFormWord,
+  generateLetterPoolFromSeed,
+  isSupportedRulesVersion,
+} from '../shared/gameRules';
+
+describe('generateLetterPoolFromSeed', () => {
+  test('produces the pinned board for a known seed', () => {
+    expect(RULES_VERSION).toBe(1);
+    expect(generateLetterPoolFromSeed('WORDDUEL')).toEqual([
+      'A', 'S', 'A', 'I', 'I', 'E', 'T', 'E',
+      'R', 'B', 'E', 'I', 'H', 'N', 'E', 'E',
+    ]);
+    expect(generateLetterPoolFromSeed('ABC12345')).toEqual([
+      'P', 'V', 'B', 'N', 'R', 'X', 'I', 'E',
+      'N', 'C', 'E', 'L', 'O', 'E', 'M', 'N',
+    ]);
+  });
+
+  test('is deterministic for the same seed', () => {
+    expect(generateLetterPoolFromSeed('SEED')).toEqual(
+      generateLetterPoolFromSeed('SEED')
+    );
+  });
+});
+
+describe('calculateScore', () => {
+  test('follows the length-based score table', () => {
+    expect(calculateScore('AT')).toBe(0);
+    expect(calculateScore('CAT')).toBe(3);
+    expect(calculateScore('CART')).toBe(5);
+    expect(calculateScore('CARTS')).toBe(8);
+    expect(calculateScore('CARTED')).toBe(12);
+    expect(calculateScore('CARTONS')).toBe(17);
+    expect(calculateScore('CARTONED')).toBe(23);
+    expect(calculateScore('CARTOONED')).toBe(29);
+  });
+});
+
+describe('canFormWord', () => {
+  test('uses each letter at most once, ignoring case', () => {
+    expect(canFormWord('tree', ['T', 'R', 'E', 'E'])).toBe(true);
+    expect(canFormWord('TREE', ['T', 'R', 'E'])).toBe(false);
+  });
+});
+
+describe('isSupportedRulesVersion', () => {
+  test('treats unversioned games as v1', () => {
+    expect(isSupportedRulesVersion(undefined)).toBe(true);
+    expect(isSupportedRulesVersion(RULES_VERSION + 1)).toBe(false);
+  });
+});
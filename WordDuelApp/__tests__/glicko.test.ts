@@ -0,0 +1,56 @@
+/**
+ * Glicko-2 ratings
+ *
+ * The worked example from Glickman's paper (http://www.glicko.net/glicko/glicko2.pdf)
+ * pins the maths; the rest checks the behaviour matchmaking relies on.
+ */
+
+import { DEFAULT_RATING, updateRating } from '../functions/src/glicko';
+
+describe('updateRating', () => {
+  test("matches the worked example from Glickman's paper", () => {
+    const player = { rating: 1500, rd: 200, volatility: 0.06 };
+
+    const updated = updateRating(player, [
+      { opponent: { rating: 1400, rd: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1550, rd: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1700, rd: 300, volatility: 0.06 }, score: 0 },
+    ]);
+
+    expect(updated.rating).toBeCloseTo(1464.06, 1);
+    expect(updated.rd).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  test('a win raises the rating and a loss lowers it by the same amount between equals', () => {
+    const win = updateRating(DEFAULT_RATING, [{ opponent: DEFAULT_RATING, score: 1 }]);
+    const loss = updateRating(DEFAULT_RATING, [{ opponent: DEFAULT_RATING, score: 0 }]);
+
+    expect(win.rating).toBeGreaterThan(DEFAULT_RATING.rating);
+    expect(loss.rating).toBeLessThan(DEFAULT_RATING.rating);
+    expect(win.rating - DEFAULT_RATING.rating).toBeCloseTo(DEFAULT_RATING.rating - loss.rating, 6);
+    expect(win.rd).toBeLessThan(DEFAULT_RATING.rd);
+  });
+
+  test('a tie between equals leaves the rating where it was', () => {
+    const tie = updateRating(DEFAULT_RATING, [{ opponent: DEFAULT_RATING, score: 0.5 }]);
+
+    expect(tie.rating).toBeCloseTo(DEFAULT_RATING.rating, 6);
+  });
+
+  test('beating a much stronger player is worth more than beating an equal', () => {
+    const veteran = { rating: 1900, rd: 60, volatility: 0.06 };
+    const upset = updateRating(DEFAULT_RATING, [{ opponent: veteran, score: 1 }]);
+    const win = updateRating(DEFAULT_RATING, [{ opponent: DEFAULT_RATING, score: 1 }]);
+
+    expect(upset.rating).toBeGreaterThan(win.rating);
+  });
+
+  test('sitting out a period only widens the deviation', () => {
+    const player = { rating: 1620, rd: 80, volatility: 0.06 };
+    const idle = updateRating(player, []);
+
+    expect(idle.rating).toBe(player.rating);
+    expect(idle.rd).toBeGreaterThan(player.rd);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Shared payout maths
+ *
+ * The server pays and the app advertises with the same split, so these
+ * pin the rounding both sides rely on.
+ */
+
+import { BPS_DENOMINATOR, splitPot } from '../shared/payouts';
+
+describe('splitPot', () => {
+  test('takes the fee in basis points and pays the rest', () => {
+    // Two 0.01 SOL deposits at 3%
+    expect(splitPot(20_000_000, 300)).toEqual({ fee: 600_000, payout: 19_400_000 });
+  });
+
+  test('rounds the fee down so the winner never loses a lamport to rounding', () => {
+    expect(splitPot(333, 250)).toEqual({ fee: 8, payout: 325 });
+  });
+
+  test('charges nothing at 0 bps', () => {
+    expect(splitPot(20_000_000, 0)).toEqual({ fee: 0, payout: 20_000_000 });
+  });
+
+  test('clamps nonsense fees to 0-100%', () => {
+    expect(splitPot(1000, -50)).toEqual({ fee: 0, payout: 1000 });
+    expect(splitPot(1000, BPS_DENOMINATOR * 2)).toEqual({ fee: 1000, payout: 0 });
+  });
+});
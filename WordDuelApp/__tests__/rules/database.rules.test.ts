@@ -0,0 +1,227 @@
+/**
+ * Realtime Database security rules
+ *
+ * Runs against the local database emulator (`npm run test:rules`), never a
+ * live project. Clients may only touch their own readiness / activity /
+ * presence flags; everything that decides money or the result
+ * (scores, words, winner, status, escrow) is written by Cloud Functions only.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+const PLAYER_1 = 'Player1Wallet1111111111111111111111111111111';
+const PLAYER_2 = 'Player2Wallet2222222222222222222222222222222';
+const STRANGER = 'StrangerWallet33333333333333333333333333333';
+const GAME_ID = 'game-1';
+
+let testEnv: RulesTestEnvironment;
+
+const newPlayer = (odid: string) => ({
+  odid,
+  displayName: odid.slice(0, 6),
+  score: 0,
+  isReady: false,
+  lastActivity: 1,
+});
+
+/**
+ * Seed a game as the server would create it (rules bypassed).
+ */
+async function seedGame(status: string = 'waiting') {
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    await context.database().ref(`games/${GAME_ID}`).set({
+      id: GAME_ID,
+      status,
+      stakeTier: 'bronze',
+      betAmount: 0.01,
+      player1: newPlayer(PLAYER_1),
+      player2: newPlayer(PLAYER_2),
+      escrow: { status: 'pending_deposits' },
+    });
+  });
+}
+
+const dbAs = (uid: string) => testEnv.authenticatedContext(uid).database();
+
+beforeAll(async () => {
+  const [host, port] = (process.env.FIREBASE_DATABASE_EMULATOR_HOST || '127.0.0.1:9000').split(':');
+
+  testEnv = await initializeTestEnvironment({
+    projectId: 'word-duel-rules-test',
+    database: {
+      host,
+      port: Number(port),
+      rules: fs.readFileSync(path.join(__dirname, '..', '..', 'database.rules.json'), 'utf8'),
+    },
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearDatabase();
+});
+
+describe('games', () => {
+  test('players can read their own game, others cannot', async () => {
+    await seedGame();
+
+    await assertSucceeds(dbAs(PLAYER_1).ref(`games/${GAME_ID}`).once('value'));
+    await assertFails(dbAs(STRANGER).ref(`games/${GAME_ID}`).once('value'));
+    await assertFails(testEnv.unauthenticatedContext().database().ref(`games/${GAME_ID}`).once('value'));
+  });
+
+  test('players can set their own readiness before play starts', async () => {
+    await seedGame();
+
+    await assertSucceeds(dbAs(PLAYER_1).ref(`games/${GAME_ID}/player1/isReady`).set(true));
+    await assertFails(dbAs(PLAYER_1).ref(`games/${GAME_ID}/player2/isReady`).set(true));
+    await assertFails(dbAs(PLAYER_1).ref(`games/${GAME_ID}/player1/isReady`).set('yes'));
+  });
+
+  test('readiness is locked once the game is playing', async () => {
+    await seedGame('playing');
+
+    await assertFails(dbAs(PLAYER_1).ref(`games/${GAME_ID}/player1/isReady`).set(false));
+  });
+
+  test('players can only bump their own activity timestamp', async () => {
+    await seedGame('playing');
+
+    await assertSucceeds(dbAs(PLAYER_2).ref(`games/${GAME_ID}/player2/lastActivity`).set(Date.now()));
+    await assertFails(dbAs(PLAYER_2).ref(`games/${GAME_ID}/player1/lastActivity`).set(Date.now()));
+  });
+
+  test('players can only set their own presence, including on disconnect', async () => {
+    await seedGame('playing');
+    const ref = dbAs(PLAYER_1).ref(`games/${GAME_ID}/player1/connected`);
+
+    await assertSucceeds(ref.set(true));
+    await assertSucceeds(ref.onDisconnect().set(false));
+    await assertFails(dbAs(PLAYER_1).ref(`games/${GAME_ID}/player2/connected`).set(false));
+  });
+
+  test('scores, words, winner, status and escrow are server-only', async () => {
+    await seedGame('playing');
+    const db = dbAs(PLAYER_1);
+
+    await assertFails(db.ref(`games/${GAME_ID}/player1/score`).set(999));
+    await assertFails(db.ref(`games/${GAME_ID}/player1/wordsFound`).set(['CHEAT']));
+    await assertFails(db.ref(`games/${GAME_ID}/winner`).set(PLAYER_1));
+    await assertFails(db.ref(`games/${GAME_ID}/status`).set('finished'));
+    await assertFails(db.ref(`games/${GAME_ID}/escrow/status`).set('locked'));
+    await assertFails(db.ref(`games/${GAME_ID}`).update({ status: 'finished', winner: PLAYER_1 }));
+  });
+
+  test('clients cannot create or delete games', async () => {
+    await seedGame();
+
+    await assertFails(dbAs(STRANGER).ref('games/new-game').set({ status: 'waiting' }));
+    await assertFails(dbAs(PLAYER_1).ref(`games/${GAME_ID}`).remove());
+  });
+});
+
+describe('matchmaking queues', () => {
+  const entry = (odid: string) => ({
+    odid,
+    displayName: odid.slice(0, 6),
+    tierId: 'bronze',
+    joinedAt: Date.now(),
+  });
+
+  test('only the server can queue players', async () => {
+    await assertFails(dbAs(PLAYER_1).ref(`matchmaking/queues/bronze/${PLAYER_1}`).set(entry(PLAYER_1)));
+    await assertFails(dbAs(PLAYER_1).ref(`matchmaking/queues/bronze/${PLAYER_2}`).set(entry(PLAYER_2)));
+  });
+
+  test('players cannot read the queues themselves', async () => {
+    await assertFails(dbAs(PLAYER_1).ref('matchmaking/queues/bronze').once('value'));
+  });
+
+  test('signed-in players can see queue sizes but not change them', async () => {
+    await assertSucceeds(dbAs(PLAYER_1).ref('matchmaking/queueSizes').once('value'));
+    await assertFails(dbAs(PLAYER_1).ref('matchmaking/queueSizes/bronze').set(99));
+    await assertFails(testEnv.unauthenticatedContext().database().ref('matchmaking/queueSizes').once('value'));
+  });
+});
+
+describe('rematch offers', () => {
+  async function seedOffer() {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.database().ref(`rematchOffers/${GAME_ID}`).set({
+        fromId: PLAYER_1,
+        toId: PLAYER_2,
+        betAmount: 0.01,
+        status: 'pending',
+        expiresAt: Date.now() + 30000,
+      });
+    });
+  }
+
+  test('both players can read the offer, others cannot', async () => {
+    await seedGame('finished');
+    await seedOffer();
+
+    await assertSucceeds(dbAs(PLAYER_1).ref(`rematchOffers/${GAME_ID}`).once('value'));
+    await assertSucceeds(dbAs(PLAYER_2).ref(`rematchOffers/${GAME_ID}`).once('value'));
+    await assertFails(dbAs(STRANGER).ref(`rematchOffers/${GAME_ID}`).once('value'));
+  });
+
+  test('players can listen before anyone has offered', async () => {
+    await seedGame('finished');
+
+    await assertSucceeds(dbAs(PLAYER_2).ref(`rematchOffers/${GAME_ID}`).once('value'));
+  });
+
+  test('offers are answered through the server only', async () => {
+    await seedGame('finished');
+    await seedOffer();
+
+    await assertFails(dbAs(PLAYER_2).ref(`rematchOffers/${GAME_ID}/status`).set('accepted'));
+    await assertFails(dbAs(PLAYER_1).ref(`rematchOffers/${GAME_ID}`).remove());
+  });
+});
+
+describe('server-only data', () => {
+  test('seeds, nonces, signatures, invites, payout jobs and active game pointers cannot be written by clients', async () => {
+    const db = dbAs(PLAYER_1);
+
+    await assertFails(db.ref(`gameSeeds/${GAME_ID}`).once('value'));
+    await assertFails(db.ref(`authNonces/${PLAYER_1}`).set({ message: 'x', expiresAt: 0 }));
+    await assertFails(db.ref(`authNonces/${PLAYER_1}/abc`).set({ message: 'x', expiresAt: 0 }));
+    await assertFails(db.ref('usedSignatures/abc').set(true));
+    await assertFails(db.ref('challenges/ABC234').once('value'));
+    await assertFails(db.ref('challenges/ABC234').set({ gameId: GAME_ID, hostId: PLAYER_1, expiresAt: 0 }));
+    await assertFails(db.ref(`payoutJobs/${GAME_ID}`).once('value'));
+    await assertFails(db.ref(`payoutJobs/${GAME_ID}`).set({ status: 'confirmed' }));
+    await assertFails(db.ref(`activeGames/${PLAYER_1}`).set(GAME_ID));
+
+    await assertSucceeds(db.ref(`activeGames/${PLAYER_1}`).once('value'));
+    await assertFails(db.ref(`activeGames/${PLAYER_2}`).once('value'));
+  });
+
+  test('players can read their own rating but never write one', async () => {
+    const db = dbAs(PLAYER_1);
+
+    await assertSucceeds(db.ref(`ratings/${PLAYER_1}`).once('value'));
+    await assertFails(db.ref(`ratings/${PLAYER_2}`).once('value'));
+    await assertFails(db.ref(`ratings/${PLAYER_1}`).set({ rating: 3000, rd: 30, volatility: 0.06 }));
+  });
+
+  test('players can read their own matchmaking cooldown but never clear it', async () => {
+    const db = dbAs(PLAYER_1);
+
+    await assertSucceeds(db.ref(`matchmakingCooldowns/${PLAYER_1}`).once('value'));
+    await assertFails(db.ref(`matchmakingCooldowns/${PLAYER_2}`).once('value'));
+    await assertFails(db.ref(`matchmakingCooldowns/${PLAYER_1}`).remove());
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Shared word lists
+ *
+ * Every tier plays with a word list; these pin which words a list accepts,
+ * which it blocks, and that the solver never offers a blocked word.
+ */
+
+import {
+  DEFAULT_WORD_LIST,
+  compileWordLists,
+  createWordList,
+  getWordListId,
+  getWordStatus,
+  parseWordListFile,
+  solveBoardWithList,
+} from '../shared/wordLists';
+import { ENVIRONMENTS } from '../shared/environments';
+
+const BASE_WORDS = ['rat', 'star', 'tar', 'tsk', 'tsks', 'dang'];
+
+const FILES = {
+  offensive: ['dang'],
+  obscure: ['tsk', 'tsks', 'tar'],
+  allowlist: ['tar', 'rats'],
+};
+
+describe('parseWordListFile', () => {
+  test('reads one lowercase word per line, skipping blanks and comments', () => {
+    expect(parseWordListFile('# Comment\n\nTsk\n  brr \n#skipped\n')).toEqual(['tsk', 'brr']);
+  });
+});
+
+describe('compileWordLists', () => {
+  const { index, blocked } = compileWordLists(BASE_WORDS, FILES);
+  const common = createWordList('common', index, blocked.common);
+  const tournament = createWordList('tournament', index, blocked.tournament);
+
+  test('tells blocked words apart from words that are not words at all', () => {
+    expect(getWordStatus(common, 'TSK')).toBe('blocked');
+    expect(getWordStatus(tournament, 'TSK')).toBe('valid');
+    expect(getWordStatus(tournament, 'dang')).toBe('blocked');
+    expect(getWordStatus(tournament, 'xyz')).toBe('unknown');
+  });
+
+  test('an allowlist beats a blocklist and adds words the base list lacks', () => {
+    expect(getWordStatus(common, 'tar')).toBe('valid');
+    expect(getWordStatus(common, 'rats')).toBe('valid');
+    expect(index.wordCount).toBe(BASE_WORDS.length + 1);
+  });
+
+  test('refuses a list that names a missing file', () => {
+    expect(() => compileWordLists(BASE_WORDS, { offensive: [], allowlist: [] })).toThrow('dictionary/obscure.txt');
+  });
+
+  test('solving a board never offers a blocked word', () => {
+    const letters = ['T', 'S', 'K', 'S', 'D', 'A', 'N', 'G'];
+    const solved = (list: typeof common) => solveBoardWithList(list, letters).words.map(({ word }) => word);
+
+    expect(solved(common)).toEqual([]);
+    expect(solved(tournament)).toEqual(['TSKS', 'TSK']);
+  });
+});
+
+describe('getWordListId', () => {
+  test('falls back to the default list for rooms that do not name one', () => {
+    expect(getWordListId('common')).toBe('common');
+    expect(getWordListId(undefined)).toBe(DEFAULT_WORD_LIST);
+    expect(getWordListId('toString')).toBe(DEFAULT_WORD_LIST);
+  });
+
+  test('every tier names a known list', () => {
+    Object.values(ENVIRONMENTS)
+      .flatMap((environment) => environment.stakeTiers)
+      .forEach((tier) => expect(getWordListId(tier.wordList)).toBe(tier.wordList));
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Shared word solver
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import words from 'an-array-of-english-words';
+
+import { calculateScore, canFormWord } from '../shared/gameRules';
+import {
+  DICTIONARY_BLOCKED_WORDS,
+  DICTIONARY_DATA,
+  DICTIONARY_HASH,
+  DICTIONARY_VERSION,
+  DICTIONARY_WORD_COUNT,
+} from '../shared/dictionaryData';
+import {
+  buildWordIndex,
+  createWordIndexBuilder,
+  decodeWordIndex,
+  encodeWordIndex,
+  hasWord,
+  minimizeWordIndex,
+  solveBoard,
+} from '../shared/wordSolver';
+import { WORD_LISTS, compileWordLists, parseWordListFile } from '../shared/wordLists';
+
+const WORDS = ['ant', 'art', 'at', 'rat', 'star', 'start', 'tar', 'tart', 'tarts', 'zebra'];
+
+describe('buildWordIndex', () => {
+  const index = buildWordIndex(WORDS);
+
+  test('finds every word it was built from, in any case', () => {
+    expect(index.wordCount).toBe(WORDS.length);
+    WORDS.forEach((word) => expect(hasWord(index, word.toUpperCase())).toBe(true));
+  });
+
+  test('does not find prefixes, extensions or other words', () => {
+    expect(hasWord(index, 'sta')).toBe(false);
+    expect(hasWord(index, 'starts')).toBe(false);
+    expect(hasWord(index, 'cat')).toBe(false);
+    expect(hasWord(index, '')).toBe(false);
+  });
+
+  test('sorts an unsorted list first', () => {
+    const reversed = buildWordIndex([...WORDS].reverse());
+    expect(reversed.wordCount).toBe(WORDS.length);
+    expect(hasWord(reversed, 'tarts')).toBe(true);
+  });
+
+  test('the builder rejects words out of order', () => {
+    const builder = createWordIndexBuilder();
+    builder.add('rat');
+    expect(() => builder.add('ant')).toThrow('alphabetical order');
+  });
+});
+
+describe('solveBoard', () => {
+  const index = buildWordIndex(WORDS);
+
+  test('finds exactly the words the board can form, with their scores', () => {
+    const letters = ['S', 'T', 'A', 'R', 'T', 'N', 'E', 'E'];
+    const expected = WORDS.filter((word) => word.length >= 3 && canFormWord(word, letters));
+
+    const solution = solveBoard(index, letters);
+
+    expect(solution.words.map(({ word }) => word).sort()).toEqual(
+      expected.map((word) => word.toUpperCase()).sort()
+    );
+    solution.words.forEach(({ word, score }) => expect(score).toBe(calculateScore(word)));
+    expect(solution.maxScore).toBe(expected.reduce((total, word) => total + calculateScore(word), 0));
+  });
+
+  test('uses each letter at most once and lists longest words first', () => {
+    const solution = solveBoard(index, ['T', 'A', 'R', 'S']);
+    expect(solution.words.map(({ word }) => word)).toEqual(['STAR', 'ART', 'RAT', 'TAR']);
+  });
+});
+
+describe('compiled word index', () => {
+  const trie = buildWordIndex(WORDS);
+  const dawg = minimizeWordIndex(trie);
+
+  test('the DAWG has fewer nodes and the same words as the trie', () => {
+    expect(dawg.nodeCount).toBeLessThan(trie.nodeCount);
+    expect(dawg.wordCount).toBe(trie.wordCount);
+    WORDS.forEach((word) => expect(hasWord(dawg, word)).toBe(true));
+    expect(hasWord(dawg, 'sta')).toBe(false);
+
+    const letters = ['S', 'T', 'A', 'R', 'T', 'N'];
+    expect(solveBoard(dawg, letters)).toEqual(solveBoard(trie, letters));
+  });
+
+  test('round-trips through the binary format', () => {
+    const decoded = decodeWordIndex(encodeWordIndex(dawg));
+    expect(decoded).toEqual(dawg);
+  });
+
+  test('decodes from an unaligned buffer', () => {
+    const encoded = encodeWordIndex(dawg);
+    const unaligned = new Uint8Array(encoded.length + 1);
+    unaligned.set(encoded, 1);
+    expect(decodeWordIndex(unaligned.subarray(1))).toEqual(dawg);
+  });
+
+  test('rejects data that is not a word index', () => {
+    expect(() => decodeWordIndex(new Uint8Array(32))).toThrow('Not a compiled word index');
+    expect(() => decodeWordIndex(encodeWordIndex(dawg).subarray(0, 40))).toThrow('truncated');
+  });
+
+  test('the checked-in dictionary is up to date (run npm run build:dictionary)', () => {
+    const files: Record<string, string[]> = {};
+    Object.values(WORD_LISTS)
+      .flatMap((list) => [...list.blocklists, ...list.allowlists])
+      .forEach((name) => {
+        const text = fs.readFileSync(path.join(__dirname, '..', 'dictionary', `${name}.txt`), 'utf8');
+        files[name] = parseWordListFile(text);
+      });
+
+    const { index, blocked } = compileWordLists(words, files);
+    const compiled = Buffer.from(encodeWordIndex(index));
+    expect(DICTIONARY_WORD_COUNT).toBe(index.wordCount);
+    expect(compiled.toString('base64') === DICTIONARY_DATA).toBe(true);
+    expect(DICTIONARY_BLOCKED_WORDS).toEqual(blocked);
+  });
+
+  test('the checked-in dictionary carries its version and hash', () => {
+    const data = Buffer.from(DICTIONARY_DATA, 'base64');
+    expect(DICTIONARY_VERSION).toBe(`an-array-of-english-words@${require('an-array-of-english-words/package.json').version}`);
+    expect(DICTIONARY_HASH).toBe(
+      createHash('sha256').update(data).update(JSON.stringify(DICTIONARY_BLOCKED_WORDS)).digest('hex')
+    );
+  });
+});
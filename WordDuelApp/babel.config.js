@@ -1,3 +1,7 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
+  plugins: [
+    // Bakes the Solana profile into the bundle at build time (see src/config/environment.ts)
+    ['transform-inline-environment-variables', { include: ['SOLANA_ENV'] }],
+  ],
 };
@@ -0,0 +1,185 @@
+/**
+ * Sign-In With Solana
+ *
+ * Players prove they own a wallet by signing a one-time message with it.
+ * The server then mints a Firebase custom token whose uid IS the wallet
+ * address, so every callable can trust `context.auth.uid` as the player
+ * instead of a `playerId` sent by the client.
+ *
+ * The flow is:
+ * 1. requestSignInNonce  - the server issues a short-lived, single-use message
+ *                          and the ID of its nonce
+ * 2. The wallet signs that message (ed25519, the wallet's own key)
+ * 3. signInWithWallet    - the server verifies the signature, burns the nonce
+ *                          and returns a custom token
+ * 4. The app signs in to Firebase Auth with the token
+ *
+ * Anyone can ask for a nonce for any wallet, so each request gets its own:
+ * a new request never replaces one the wallet's owner is already signing.
+ *
+ * Database layout:
+ * - authNonces/{walletAddress}/{nonceId}  An outstanding sign-in message (server-only)
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+
+// How long a sign-in message stays valid
+const NONCE_TTL_MS = 5 * 60 * 1000;
+
+// Nonce IDs are the nonce itself: 16 random bytes, hex-encoded
+const NONCE_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Get the signed-in player's wallet address, or null if the caller isn't signed in.
+ */
+export function getAuthedPlayer(context: functions.https.CallableContext): string | null {
+  return context.auth?.uid || null;
+}
+
+/**
+ * Parse a wallet address, returning null if it isn't a valid Solana public key.
+ */
+function parseWalletAddress(walletAddress: unknown): PublicKey | null {
+  if (typeof walletAddress !== 'string') return null;
+  try {
+    return new PublicKey(walletAddress);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the human-readable message the wallet is asked to sign.
+ */
+function buildSignInMessage(walletAddress: string, nonce: string, issuedAt: number): string {
+  return [
+    'Sign in to Word Duel',
+    '',
+    `Wallet: ${walletAddress}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Verify an ed25519 signature from a Solana wallet.
+ */
+function verifyWalletSignature(
+  publicKey: PublicKey,
+  message: string,
+  signature: Buffer
+): boolean {
+  try {
+    return ed25519.verify(signature, Buffer.from(message, 'utf8'), publicKey.toBytes());
+  } catch {
+    return false; // Malformed signature
+  }
+}
+
+// ============================================================
+// REQUEST NONCE
+// ============================================================
+
+interface RequestSignInNonceData {
+  walletAddress: string;
+}
+
+/**
+ * Issue a one-time sign-in message for a wallet.
+ * Other outstanding messages for the wallet stay valid until they expire;
+ * expired ones are cleared out here.
+ */
+export const requestSignInNonce = functions.https.onCall(
+  async (data: RequestSignInNonceData) => {
+    const wallet = parseWalletAddress(data?.walletAddress);
+    if (!wallet) {
+      return { success: false, error: 'Invalid wallet address' };
+    }
+
+    const walletAddress = wallet.toBase58();
+    const nonce = randomBytes(16).toString('hex');
+    const issuedAt = Date.now();
+    const message = buildSignInMessage(walletAddress, nonce, issuedAt);
+
+    const noncesRef = admin.database().ref(`authNonces/${walletAddress}`);
+    const expired = await noncesRef.orderByChild('expiresAt').endAt(issuedAt).once('value');
+
+    const updates: Record<string, unknown> = {};
+    expired.forEach((child) => {
+      updates[child.key!] = null;
+    });
+    updates[nonce] = { message, expiresAt: issuedAt + NONCE_TTL_MS };
+    await noncesRef.update(updates);
+
+    return { success: true, message, nonceId: nonce };
+  }
+);
+
+// ============================================================
+// SIGN IN
+// ============================================================
+
+interface SignInWithWalletData {
+  walletAddress: string;
+  nonceId: string;   // From requestSignInNonce
+  signature: string; // Base64 ed25519 signature of the issued message
+}
+
+/**
+ * Verify a signed sign-in message and mint a Firebase custom token for the wallet.
+ */
+export const signInWithWallet = functions.https.onCall(
+  async (data: SignInWithWalletData) => {
+    const wallet = parseWalletAddress(data?.walletAddress);
+    if (
+      !wallet ||
+      typeof data.signature !== 'string' ||
+      typeof data.nonceId !== 'string' ||
+      !NONCE_ID_PATTERN.test(data.nonceId)
+    ) {
+      return { success: false, error: 'Missing required fields' };
+    }
+
+    const walletAddress = wallet.toBase58();
+
+    try {
+      // Burn the nonce first so a signature can only ever be used once
+      let issued: { message: string; expiresAt: number } | null = null;
+      await admin.database().ref(`authNonces/${walletAddress}/${data.nonceId}`).transaction((current) => {
+        issued = current;
+        return null;
+      });
+
+      if (!issued) {
+        return { success: false, error: 'No sign-in request found. Please try again.' };
+      }
+
+      const { message, expiresAt } = issued as { message: string; expiresAt: number };
+      if (Date.now() > expiresAt) {
+        console.log(`[signInWithWallet] REJECTED: Expired nonce for ${walletAddress}`);
+        return { success: false, error: 'Sign-in request expired. Please try again.' };
+      }
+
+      const signature = Buffer.from(data.signature, 'base64');
+      if (signature.length !== 64 || !verifyWalletSignature(wallet, message, signature)) {
+        console.log(`[signInWithWallet] REJECTED: Bad signature for ${walletAddress}`);
+        return { success: false, error: 'Signature verification failed' };
+      }
+
+      const token = await admin.auth().createCustomToken(walletAddress);
+      console.log(`[signInWithWallet] Signed in ${walletAddress}`);
+      return { success: true, token };
+    } catch (error: any) {
+      console.error('[signInWithWallet] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
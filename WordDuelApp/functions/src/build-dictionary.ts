@@ -0,0 +1,91 @@
+/**
+ * Dictionary Build
+ *
+ * Compiles the base word list (an-array-of-english-words) and the word list
+ * files in dictionary/ into the binary word index and blocked words the app
+ * and the Cloud Functions load at startup (see shared/wordLists), and writes
+ * them to shared/dictionaryData.ts, stamped with the word list's version and
+ * a SHA-256 of the compiled data. Run it again whenever a word list changes:
+ *
+ * Usage:
+ *   npm run build:dictionary
+ *
+ * The output is checked in, so neither the app nor the server needs the raw
+ * word lists at runtime. A test fails if it falls out of date.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import words from 'an-array-of-english-words';
+
+import { encodeWordIndex } from '../../shared/wordSolver';
+import { WORD_LISTS, compileWordLists, parseWordListFile } from '../../shared/wordLists';
+
+const OUTPUT_PATH = path.join(__dirname, '..', '..', 'shared', 'dictionaryData.ts');
+const WORD_LIST_DIR = path.join(__dirname, '..', '..', 'dictionary');
+
+// The word list package this build was compiled from
+const WORD_LIST_PACKAGE = 'an-array-of-english-words';
+
+// Every file a word list uses, by name
+const fileNames = new Set(
+  Object.values(WORD_LISTS).flatMap((list) => [...list.blocklists, ...list.allowlists])
+);
+const files: Record<string, string[]> = {};
+for (const name of fileNames) {
+  files[name] = parseWordListFile(fs.readFileSync(path.join(WORD_LIST_DIR, `${name}.txt`), 'utf8'));
+}
+
+const { index, blocked } = compileWordLists(words, files);
+const data = Buffer.from(encodeWordIndex(index));
+
+const { version } = JSON.parse(fs.readFileSync(require.resolve(`${WORD_LIST_PACKAGE}/package.json`), 'utf8'));
+const hash = crypto.createHash('sha256').update(data).update(JSON.stringify(blocked)).digest('hex');
+
+const blockedSource = Object.entries(blocked)
+  .map(([id, list]) => `  ${id}: [${list.map((word) => `'${word}'`).join(', ')}],`)
+  .join('\n');
+
+const source = `/**
+ * Compiled Dictionary
+ *
+ * GENERATED by functions/src/build-dictionary.ts - do not edit by hand.
+ *
+ * Every word any word list accepts, packed into a DAWG in the shared word
+ * index binary format (see shared/wordSolver) and base64 encoded so it
+ * bundles like any other module, plus the words each list blocks.
+ *
+ * Every game room records the version and hash it was created with, and the
+ * app won't play for stakes with a dictionary that differs from the server's.
+ */
+
+import { WordListId } from './wordLists';
+
+// Where the words came from
+export const DICTIONARY_VERSION = '${WORD_LIST_PACKAGE}@${version}';
+
+// SHA-256 of the compiled bytes (DICTIONARY_DATA, decoded), then DICTIONARY_BLOCKED_WORDS as JSON
+export const DICTIONARY_HASH = '${hash}';
+
+export const DICTIONARY_WORD_COUNT = ${index.wordCount};
+
+// Words in the index that each list rejects
+export const DICTIONARY_BLOCKED_WORDS: Record<WordListId, string[]> = {
+${blockedSource}
+};
+
+export const DICTIONARY_DATA =
+  '${data.toString('base64')}';
+`;
+
+fs.writeFileSync(OUTPUT_PATH, source);
+
+const blockedCounts = Object.entries(blocked)
+  .map(([id, list]) => `${id} blocks ${list.length}`)
+  .join(', ');
+console.log(
+  `[build-dictionary] ${WORD_LIST_PACKAGE}@${version}, ${index.wordCount} words (${blockedCounts}), ` +
+    `${index.nodeCount} DAWG nodes, ${(data.length / 1024).toFixed(0)} KB, hash ${hash.slice(0, 12)} ` +
+    `-> ${path.relative(process.cwd(), OUTPUT_PATH)}`
+);
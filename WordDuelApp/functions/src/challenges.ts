@@ -0,0 +1,356 @@
+/**
+ * Private Challenges
+ *
+ * Instead of waiting in the public queue, a player can open a private room
+ * at a stake tier of their choice and invite a friend with a short code, shared
+ * as a `wordduel://challenge/{code}` link.
+ *
+ * - createChallenge  opens the room (the host is player1) and issues a code
+ * - joinChallenge    redeems the code and seats the friend as player2
+ *
+ * Once the friend is seated the room's escrow is opened on chain, and from
+ * there the room plays exactly like a matched one: both players deposit, the
+ * game goes ready → playing, and cancelMatchmaking cancels and refunds it.
+ *
+ * Codes are single-use (redeeming one deletes it) and expire after
+ * CHALLENGE_TTL_MS. If nobody joins in time, the expiry sweep cancels the
+ * room (nobody has deposited yet - there's no escrow until the friend joins).
+ *
+ * Database layout:
+ * - challenges/{code}  The open invite for a room (server-only)
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
+
+import {
+  QueueEntry,
+  cancelRoom,
+  claimPlayer,
+  createRoom,
+  discardRoom,
+  getActiveGame,
+  newPlayerState,
+  openRoomEscrow,
+  releasePlayer,
+  removeFromQueue,
+  shortenAddress,
+} from './matchmaking';
+import { getAuthedPlayer } from './auth';
+import { getRating } from './ratings';
+import { getStakeTier, isFreeTier } from './stakeTiers';
+
+// ============================================================
+// TYPES & CONSTANTS
+// ============================================================
+
+interface Challenge {
+  gameId: string;
+  hostId: string;
+  expiresAt: number;
+}
+
+// How long an invite code stays valid
+const CHALLENGE_TTL_MS = 15 * 60 * 1000;
+
+// No 0/O or 1/I, so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+// How many random codes to try before giving up on a collision streak
+const MAX_CODE_ATTEMPTS = 5;
+
+const challengeRef = (code: string) =>
+  admin.database().ref(`challenges/${code}`);
+
+// ============================================================
+// INVITE CODES
+// ============================================================
+
+/**
+ * Generate a random invite code.
+ * The alphabet has 32 letters, so every byte maps onto it without bias.
+ */
+function generateInviteCode(): string {
+  return Array.from(randomBytes(CODE_LENGTH))
+    .map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+    .join('');
+}
+
+/**
+ * Normalize a code typed or pasted by a player, or return null if it can't be one.
+ */
+function parseInviteCode(code: unknown): string | null {
+  if (typeof code !== 'string') return null;
+  const normalized = code.trim().toUpperCase();
+  const pattern = new RegExp(`^[${CODE_ALPHABET}]{${CODE_LENGTH}}$`);
+  return pattern.test(normalized) ? normalized : null;
+}
+
+/**
+ * Reserve an unused invite code for a room.
+ *
+ * @returns The code, or null if every attempt collided with an open invite
+ */
+async function reserveInviteCode(challenge: Challenge): Promise<string | null> {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateInviteCode();
+    const result = await challengeRef(code).transaction((current) => {
+      if (current === null) return challenge;
+      return; // Taken - abort
+    });
+    if (result.committed) return code;
+  }
+  return null;
+}
+
+/**
+ * Atomically take an invite code out of circulation.
+ * A host can't redeem their own code, so it's left in place for them.
+ *
+ * @returns The challenge the code pointed at, or null if there was none
+ */
+async function redeemInviteCode(code: string, playerId: string): Promise<Challenge | null> {
+  let challenge: Challenge | null = null;
+
+  await challengeRef(code).transaction((current) => {
+    challenge = current;
+    if (current === null) return null;
+    if (current.hostId === playerId) return; // Abort
+    return null;
+  });
+
+  return challenge;
+}
+
+/**
+ * Seat a player as player2 of a room that's still waiting for one.
+ */
+async function seatGuest(
+  gameId: string,
+  guest: Pick<QueueEntry, 'odid' | 'displayName'>
+): Promise<boolean> {
+  const { rating } = await getRating(guest.odid);
+  let seated = false;
+
+  const result = await admin.database().ref(`games/${gameId}`).transaction((game) => {
+    // Transactions run first against the local cache, which may be empty
+    seated = false;
+    if (game === null) return null;
+
+    if (game.status !== 'waiting' || game.player2) {
+      return; // Abort
+    }
+
+    seated = true;
+    return { ...game, player2: newPlayerState(guest, rating) };
+  });
+
+  return result.committed && seated;
+}
+
+// ============================================================
+// CREATE CHALLENGE
+// ============================================================
+
+interface CreateChallengeData {
+  tierId: string;
+}
+
+/**
+ * Open a private room for the signed-in player and issue an invite code for it.
+ * In a paid room both players deposit once the friend has joined.
+ */
+export const createChallenge = functions.https.onCall(
+  async (data: CreateChallengeData, context) => {
+    const tier = getStakeTier(data?.tierId);
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!tier) {
+      return { success: false, error: 'Unknown stake tier' };
+    }
+
+    console.log(`[createChallenge] Player ${playerId} opening a ${tier.id} challenge, bet: ${tier.betAmount} ${tier.betCurrency}`);
+
+    try {
+      // A wallet can only be in one live game at a time
+      const activeGameId = await getActiveGame(playerId);
+      if (activeGameId) {
+        console.log(`[createChallenge] REJECTED: Already in game ${activeGameId}`);
+        return { success: false, error: 'Already in a live game', gameId: activeGameId };
+      }
+
+      // Hosting a challenge takes the player out of the public queue
+      await removeFromQueue(playerId);
+
+      const host: QueueEntry = {
+        odid: playerId,
+        displayName: shortenAddress(playerId),
+        tierId: tier.id,
+        joinedAt: Date.now(),
+      };
+
+      const gameId = await createRoom(host, null);
+      if (!(await claimPlayer(playerId, gameId))) {
+        await discardRoom(gameId);
+        return { success: false, error: 'Already in a live game' };
+      }
+
+      const expiresAt = Date.now() + CHALLENGE_TTL_MS;
+      const code = await reserveInviteCode({ gameId, hostId: playerId, expiresAt });
+      if (!code) {
+        await releasePlayer(playerId, gameId);
+        await discardRoom(gameId);
+        return { success: false, error: 'Could not create an invite code. Please try again.' };
+      }
+
+      await admin.database().ref(`games/${gameId}`).update({
+        inviteCode: code,
+        inviteExpiresAt: expiresAt,
+      });
+
+      console.log(`[createChallenge] Game ${gameId} open with code ${code}`);
+      return { success: true, gameId, code, expiresAt };
+    } catch (error: any) {
+      console.error('[createChallenge] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// ============================================================
+// JOIN CHALLENGE
+// ============================================================
+
+interface JoinChallengeData {
+  code: string;
+}
+
+/**
+ * Redeem an invite code: the signed-in player joins the host's room as player2.
+ */
+export const joinChallenge = functions.https.onCall(
+  async (data: JoinChallengeData, context) => {
+    const code = parseInviteCode(data?.code);
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!code) {
+      return { success: false, error: 'Invalid invite code' };
+    }
+
+    console.log(`[joinChallenge] Player ${playerId} redeeming code ${code}`);
+
+    try {
+      // Check before redeeming, so a busy player doesn't burn their friend's code
+      const activeGameId = await getActiveGame(playerId);
+      if (activeGameId) {
+        console.log(`[joinChallenge] REJECTED: Already in game ${activeGameId}`);
+        return { success: false, error: 'Already in a live game', gameId: activeGameId };
+      }
+
+      const challenge = await redeemInviteCode(code, playerId);
+      if (!challenge) {
+        return { success: false, error: 'Invite not found or already used' };
+      }
+
+      const { gameId, hostId, expiresAt } = challenge as Challenge;
+      if (hostId === playerId) {
+        return { success: false, error: "You can't accept your own challenge" };
+      }
+
+      if (Date.now() > expiresAt) {
+        console.log(`[joinChallenge] REJECTED: Code ${code} expired`);
+        await cancelRoom(gameId, hostId);
+        return { success: false, error: 'This invite has expired' };
+      }
+
+      if (!(await claimPlayer(playerId, gameId))) {
+        // Lost a race with another game - put the code back for someone else
+        await challengeRef(code).set(challenge);
+        return { success: false, error: 'Already in a live game' };
+      }
+
+      if (!(await seatGuest(gameId, { odid: playerId, displayName: shortenAddress(playerId) }))) {
+        await releasePlayer(playerId, gameId);
+        return { success: false, error: 'This challenge is no longer open' };
+      }
+
+      await removeFromQueue(playerId);
+
+      // Both players are known now, so the room's escrow can be opened
+      const tier = getStakeTier((await admin.database().ref(`games/${gameId}/stakeTier`).once('value')).val());
+      if (tier && !isFreeTier(tier)) {
+        try {
+          const escrow = await openRoomEscrow(gameId, tier, hostId, playerId);
+          await admin.database().ref(`games/${gameId}/escrow`).update(escrow);
+        } catch (error: any) {
+          console.error(`[joinChallenge] Could not open escrow for game ${gameId}: ${error.message}`);
+          await cancelRoom(gameId, playerId);
+          return { success: false, error: 'Could not open the game escrow. Please try again.' };
+        }
+      }
+
+      console.log(`[joinChallenge] ${playerId} joined ${hostId} in game ${gameId}`);
+      return { success: true, gameId };
+    } catch (error: any) {
+      console.error('[joinChallenge] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// ============================================================
+// EXPIRE CHALLENGES
+// ============================================================
+
+/**
+ * Cancel rooms whose invite expired before anyone joined, refunding the host.
+ */
+export const expireChallenges = functions.pubsub
+  .schedule('every 5 minutes')
+  .onRun(async () => {
+    const now = Date.now();
+    const snapshot = await admin
+      .database()
+      .ref('challenges')
+      .orderByChild('expiresAt')
+      .endAt(now)
+      .once('value');
+
+    const codes: string[] = [];
+    snapshot.forEach((child) => {
+      codes.push(child.key!);
+      return false;
+    });
+
+    let expired = 0;
+    for (const code of codes) {
+      // Take the code out of circulation first, so it can't be redeemed mid-cancel
+      let challenge: Challenge | null = null;
+      await challengeRef(code).transaction((current) => {
+        challenge = current;
+        if (current === null) return null;
+        if (current.expiresAt > now) return; // Abort
+        return null;
+      });
+
+      const { gameId, hostId, expiresAt } = (challenge || {}) as Partial<Challenge>;
+      if (!gameId || !hostId || !expiresAt || expiresAt > now) continue;
+
+      if (await cancelRoom(gameId, hostId)) expired++;
+    }
+
+    if (expired > 0) {
+      console.log(`[expireChallenges] Cancelled ${expired} unjoined challenge(s)`);
+    }
+    return null;
+  });
@@ -0,0 +1,184 @@
+/**
+ * Deposit Deadlines
+ *
+ * Once a paid room's escrow is open, both players have DEPOSIT_WINDOW_MS to
+ * deposit. A room that still isn't funded by then is cancelled by the server:
+ *
+ * - Every confirmed deposit is refunded through a payout job, exactly like a
+ *   player cancelling (see cancelRoom), so the refund is retried until it lands.
+ * - Whoever didn't deposit gets a short matchmaking cooldown
+ *   (see startMatchmakingCooldown), so they can't keep stranding opponents.
+ *
+ * The deadline is stamped on the room (`depositDeadline`) as soon as its
+ * escrow address appears. A Cloud Tasks job is scheduled for the deadline,
+ * and a scheduled sweep catches any room whose task was lost.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getFunctions } from 'firebase-admin/functions';
+
+import { fetchGameEscrow } from './escrow';
+import { cancelRoom, startMatchmakingCooldown } from './matchmaking';
+
+// How long both players have to deposit once a room's escrow is open
+export const DEPOSIT_WINDOW_MS = 3 * 60 * 1000;
+
+// Name of the task queue function that enforces deposit deadlines
+const DEPOSIT_DEADLINE_QUEUE = 'enforceDepositDeadline';
+
+// ============================================================
+// DEADLINE HELPERS
+// ============================================================
+
+/**
+ * Whether a room ran out of time to be funded: still waiting, with a
+ * deadline that has passed and an escrow that never locked.
+ */
+function isPastDepositDeadline(game: any, now: number): boolean {
+  return (
+    !!game &&
+    game.status === 'waiting' &&
+    !!game.depositDeadline &&
+    now > game.depositDeadline &&
+    game.escrow?.status !== 'locked'
+  );
+}
+
+/**
+ * Find the players who never deposited into a room.
+ * The escrow account also knows about deposits that were made but never
+ * verified, so nobody who paid is counted as a no-show.
+ */
+async function findNoShows(gameId: string, game: any): Promise<string[]> {
+  const deposited = {
+    player1: !!game.escrow?.player1Deposit,
+    player2: !!game.escrow?.player2Deposit,
+  };
+
+  try {
+    const escrow = await fetchGameEscrow(gameId);
+    if (escrow) {
+      deposited.player1 = deposited.player1 || escrow.player1Deposited;
+      deposited.player2 = deposited.player2 || escrow.player2Deposited;
+    }
+  } catch (error: any) {
+    console.error(`[findNoShows] Could not read escrow for game ${gameId}: ${error.message}`);
+  }
+
+  return (['player1', 'player2'] as const)
+    .filter((slot) => game[slot]?.odid && !deposited[slot])
+    .map((slot) => game[slot].odid as string);
+}
+
+// ============================================================
+// START THE DEADLINE
+// ============================================================
+
+/**
+ * Stamp the deposit deadline on a room as soon as its escrow opens
+ * (when the match is made, or when a friend joins a challenge),
+ * then schedule the task that enforces it.
+ */
+export const startDepositDeadline = functions.database
+  .ref('/games/{gameId}/escrow/address')
+  .onCreate(async (snapshot, context) => {
+    const gameId = context.params.gameId;
+    const depositDeadline = Date.now() + DEPOSIT_WINDOW_MS;
+
+    await admin.database().ref(`games/${gameId}/depositDeadline`).set(depositDeadline);
+
+    try {
+      await getFunctions()
+        .taskQueue(DEPOSIT_DEADLINE_QUEUE)
+        .enqueue(
+          { gameId },
+          {
+            id: `deposits-${gameId}`,
+            scheduleTime: new Date(depositDeadline + 1000),
+          }
+        );
+    } catch (error: any) {
+      // The sweep below will still enforce the deadline
+      console.error(`[startDepositDeadline] Failed to schedule deadline for game ${gameId}: ${error.message}`);
+    }
+    return null;
+  });
+
+// ============================================================
+// ENFORCE THE DEADLINE
+// ============================================================
+
+/**
+ * Cancel a room whose deposit deadline passed, refund every confirmed
+ * deposit and put each player who didn't deposit in a matchmaking cooldown.
+ *
+ * @returns true if this call cancelled the room
+ */
+export async function cancelUnfundedRoom(gameId: string): Promise<boolean> {
+  const now = Date.now();
+  const game = (await admin.database().ref(`games/${gameId}`).once('value')).val();
+  if (!isPastDepositDeadline(game, now)) return false;
+
+  // Read the escrow before cancelling - the refund closes it
+  const noShows = await findNoShows(gameId, game);
+
+  // Re-checked inside the transition, so a last-second deposit still wins
+  const refunds = await cancelRoom(gameId, 'server', (current) =>
+    isPastDepositDeadline(current, now) ? { cancelReason: 'deposit_deadline' } : null
+  );
+  if (!refunds) return false;
+
+  await Promise.all(noShows.map((playerId) => startMatchmakingCooldown(playerId, gameId)));
+
+  console.log(
+    `[cancelUnfundedRoom] Game ${gameId} cancelled at its deposit deadline, no-shows: ${noShows.join(', ') || 'none'}`
+  );
+  return true;
+}
+
+/**
+ * Task queue handler: enforce a room's deposit deadline.
+ */
+export const enforceDepositDeadline = functions.tasks
+  .taskQueue({
+    retryConfig: { maxAttempts: 5, minBackoffSeconds: 5 },
+    rateLimits: { maxConcurrentDispatches: 50 },
+  })
+  .onDispatch(async (data: { gameId: string }) => {
+    await cancelUnfundedRoom(data.gameId);
+  });
+
+/**
+ * Backstop sweep: cancel every waiting room whose deposit deadline has passed.
+ * Catches rooms whose deadline task failed to enqueue or dispatch.
+ */
+export const cancelUnfundedRooms = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const snapshot = await admin
+      .database()
+      .ref('games')
+      .orderByChild('depositDeadline')
+      .startAt(1) // Skip rooms without a deadline
+      .endAt(Date.now())
+      .once('value');
+
+    const expired: string[] = [];
+    snapshot.forEach((child) => {
+      if (child.child('status').val() === 'waiting') {
+        expired.push(child.key!);
+      }
+      return false;
+    });
+
+    let cancelled = 0;
+    for (const gameId of expired) {
+      if (await cancelUnfundedRoom(gameId)) cancelled++;
+    }
+
+    if (cancelled > 0) {
+      console.log(`[cancelUnfundedRooms] Cancelled ${cancelled} unfunded room(s)`);
+    }
+    return null;
+  });
@@ -0,0 +1,65 @@
+/**
+ * Dictionary
+ *
+ * The word lists the server checks submissions against: the compiled word
+ * index and each list's blocked words (see shared/dictionaryData and
+ * functions/src/build-dictionary.ts), so the server can also solve a board
+ * with exactly the words and scores the app uses.
+ *
+ * The index is decoded once per instance, at cold start.
+ *
+ * Each room is stamped with the dictionary it was created with, and the
+ * server only takes deposits for (or starts) rooms on its own dictionary.
+ * A game already in play when the dictionary changes is played out with
+ * the new one rather than frozen mid-game.
+ *
+ * Rooms also name the word list of their tier (see shared/wordLists).
+ */
+
+import {
+  DICTIONARY_BLOCKED_WORDS,
+  DICTIONARY_DATA,
+  DICTIONARY_HASH,
+} from '../../shared/dictionaryData';
+import { BoardSolution, decodeWordIndex } from '../../shared/wordSolver';
+import {
+  WORD_LISTS,
+  WordList,
+  WordListId,
+  WordStatus,
+  createWordList,
+  getWordListId,
+  getWordStatus,
+  solveBoardWithList,
+} from '../../shared/wordLists';
+
+const WORD_INDEX = decodeWordIndex(Buffer.from(DICTIONARY_DATA, 'base64'));
+
+const LOADED_WORD_LISTS = {} as Record<WordListId, WordList>;
+for (const id of Object.keys(WORD_LISTS) as WordListId[]) {
+  LOADED_WORD_LISTS[id] = createWordList(id, WORD_INDEX, DICTIONARY_BLOCKED_WORDS[id]);
+}
+
+/**
+ * Checks a word against a room's word list (case-insensitive).
+ * Rooms that don't name a list use DEFAULT_WORD_LIST.
+ */
+export function checkWord(word: string, wordList: unknown): WordStatus {
+  return getWordStatus(LOADED_WORD_LISTS[getWordListId(wordList)], word);
+}
+
+/**
+ * Whether a room was created with the dictionary this server checks words
+ * against. Rooms created before dictionaries were versioned have no hash.
+ */
+export function isServerDictionary(dictionaryHash: string | undefined): boolean {
+  return !dictionaryHash || dictionaryHash === DICTIONARY_HASH;
+}
+
+/**
+ * Every word in a room's word list that can be built from a board,
+ * and its maximum possible score.
+ */
+export function solveGameBoard(letters: string[], wordList: unknown): BoardSolution {
+  return solveBoardWithList(LOADED_WORD_LISTS[getWordListId(wordList)], letters);
+}
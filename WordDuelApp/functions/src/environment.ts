@@ -0,0 +1,51 @@
+/**
+ * Server Environment
+ *
+ * Picks the server's profile from shared/environments.ts - the Solana
+ * cluster, RPC endpoint, escrow program, resolver and stake tiers - with the
+ * SOLANA_ENV variable (localnet, devnet or mainnet; devnet if unset).
+ * SOLANA_RPC_URL can point at a private endpoint for the same cluster.
+ *
+ * The profile is loaded when the functions start, so an unknown or
+ * incomplete profile stops a deploy (or a cold start) instead of letting it
+ * move money on the wrong network.
+ */
+
+import * as functions from 'firebase-functions';
+
+import {
+  EnvironmentConfig,
+  getEnvironment,
+  getEnvironmentFingerprint,
+} from '../../shared/environments';
+
+// ============================================================
+// PROFILE
+// ============================================================
+
+function loadServerEnvironment(): EnvironmentConfig {
+  const environment = getEnvironment(process.env.SOLANA_ENV || 'devnet');
+  const rpcUrl = process.env.SOLANA_RPC_URL || environment.rpcUrl;
+
+  console.log(`[loadServerEnvironment] Using ${environment.name} (${environment.cluster})`);
+  return { ...environment, rpcUrl };
+}
+
+export const SERVER_ENV = loadServerEnvironment();
+
+// ============================================================
+// CALLABLES
+// ============================================================
+
+/**
+ * Tell the app which cluster and escrow this server uses.
+ * The app checks this at startup and refuses to run against a server that
+ * disagrees with it (see findEnvironmentMismatch).
+ */
+export const getServerEnvironment = functions.https.onCall(async () => {
+  return {
+    success: true,
+    environment: SERVER_ENV.name,
+    ...getEnvironmentFingerprint(SERVER_ENV),
+  };
+});
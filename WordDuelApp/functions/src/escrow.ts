@@ -0,0 +1,319 @@
+/**
+ * Escrow Program Helpers
+ *
+ * Wagers are held by the Word Duel escrow program (program/src), not by a
+ * server wallet: every paid game gets its own escrow account, a PDA derived
+ * from ["game", resolver, gameId], that players deposit into directly.
+ *
+ * SOL stakes sit in the escrow account itself; USDC stakes sit in its vault,
+ * the escrow's associated token account for the USDC mint.
+ *
+ * The server is the escrow's resolver. It opens each game's escrow (paying
+ * its rent), and later resolves it - paying the winner and the platform fee,
+ * or refunding both deposits - which closes the account and returns the rent.
+ * It never holds player funds itself, and if it never resolves a game either
+ * player can take their deposit back once the escrow times out.
+ *
+ * Game payouts and refunds go through payout jobs (see payoutJobs.ts), which
+ * record the resolve transaction's signature before sending it.
+ */
+
+import {
+  Connection,
+  PublicKey,
+  Keypair,
+  Transaction,
+  TransactionInstruction,
+  SystemProgram,
+  sendAndConfirmTransaction,
+} from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import * as bs58 from 'bs58';
+
+import { SERVER_ENV } from './environment';
+import {
+  ESCROW_TIMEOUT_MS,
+  EscrowOutcomeValue,
+  GameEscrowAccount,
+  decodeGameEscrow,
+  encodeCreateGame,
+  encodeResolve,
+  getGameEscrowSeeds,
+} from '../../shared/escrowProgram';
+
+// ============================================================
+// CONFIGURATION
+// ============================================================
+
+// Initialize Solana connection (cluster and endpoint come from the server's environment)
+export const connection = new Connection(SERVER_ENV.rpcUrl, 'confirmed');
+
+// The deployed escrow program (matches declare_id! in program/src/lib.rs)
+export const ESCROW_PROGRAM_ID = new PublicKey(SERVER_ENV.escrowProgramId);
+
+/**
+ * Load the resolver keypair from environment variables.
+ * The private key is stored in .env file (for local) or Firebase secrets (for deployed).
+ * It only ever pays escrow rent and transaction fees - deposits never touch it.
+ * It must be the resolver of the server's environment, which the app derives
+ * every game's escrow address from.
+ */
+export function getResolverKeypair(): Keypair {
+  const privateKey = process.env.RESOLVER_PRIVATE_KEY;
+
+  if (!privateKey) {
+    throw new Error(
+      'Resolver private key not configured. Set RESOLVER_PRIVATE_KEY in .env file or Firebase secrets.'
+    );
+  }
+
+  // Decode the base58 private key
+  const secretKey = bs58.decode(privateKey);
+  const keypair = Keypair.fromSecretKey(secretKey);
+
+  if (keypair.publicKey.toBase58() !== SERVER_ENV.resolverAddress) {
+    throw new Error(
+      `RESOLVER_PRIVATE_KEY is not the ${SERVER_ENV.name} resolver (${SERVER_ENV.resolverAddress}).`
+    );
+  }
+  return keypair;
+}
+
+/**
+ * Load the treasury address that collects platform fees.
+ * Set TREASURY_ADDRESS alongside RESOLVER_PRIVATE_KEY.
+ */
+export function getTreasuryAddress(): string {
+  const treasuryAddress = process.env.TREASURY_ADDRESS;
+
+  if (!treasuryAddress) {
+    throw new Error(
+      'Treasury address not configured. Set TREASURY_ADDRESS in .env file or Firebase secrets.'
+    );
+  }
+
+  // Throws if the address isn't a valid public key
+  return new PublicKey(treasuryAddress).toBase58();
+}
+
+// ============================================================
+// GAME ESCROWS
+// ============================================================
+
+/**
+ * Get the address of a game's escrow account.
+ */
+export function getGameEscrowAddress(gameId: string, resolver: PublicKey): PublicKey {
+  const seeds = getGameEscrowSeeds(resolver.toBytes(), gameId).map((seed) => Buffer.from(seed));
+  return PublicKey.findProgramAddressSync(seeds, ESCROW_PROGRAM_ID)[0];
+}
+
+/**
+ * Get the vault that holds a token game's stakes: the escrow's associated
+ * token account for the game's mint.
+ */
+export function getEscrowVaultAddress(escrowAddress: PublicKey, mint: PublicKey): PublicKey {
+  // The escrow is a PDA, so its token account is owned off the curve
+  return getAssociatedTokenAddressSync(mint, escrowAddress, true);
+}
+
+export interface OpenedEscrow {
+  address: string;
+  timeoutAt: number;    // Unix ms; after this either player can refund on chain
+}
+
+/**
+ * Open a game's escrow on chain, ready for both players to deposit `stake`
+ * (in lamports, or in the token's smallest unit when `mint` is set).
+ * Waits for confirmation, so players can deposit as soon as this returns.
+ *
+ * @param mint - The staked token's mint, or null for SOL
+ */
+export async function openGameEscrow(
+  gameId: string,
+  player1: string,
+  player2: string,
+  stake: number,
+  feeBps: number,
+  mint: string | null
+): Promise<OpenedEscrow> {
+  const resolver = getResolverKeypair();
+  const escrowAddress = getGameEscrowAddress(gameId, resolver.publicKey);
+  const timeoutAt = Date.now() + ESCROW_TIMEOUT_MS;
+
+  const instruction = new TransactionInstruction({
+    programId: ESCROW_PROGRAM_ID,
+    keys: [
+      { pubkey: resolver.publicKey, isSigner: true, isWritable: true },
+      { pubkey: escrowAddress, isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      // The program checks a token game's mint is a real mint
+      ...(mint ? [{ pubkey: new PublicKey(mint), isSigner: false, isWritable: false }] : []),
+    ],
+    data: Buffer.from(
+      encodeCreateGame({
+        gameId,
+        player1: new PublicKey(player1).toBytes(),
+        player2: new PublicKey(player2).toBytes(),
+        treasury: new PublicKey(getTreasuryAddress()).toBytes(),
+        stake,
+        feeBps,
+        timeoutAt: Math.floor(timeoutAt / 1000),
+        mint: mint ? new PublicKey(mint).toBytes() : null,
+      })
+    ),
+  });
+
+  const signature = await sendAndConfirmTransaction(
+    connection,
+    new Transaction().add(instruction),
+    [resolver]
+  );
+
+  console.log(`[openGameEscrow] Escrow ${escrowAddress.toBase58()} opened for game ${gameId}: ${signature}`);
+  return { address: escrowAddress.toBase58(), timeoutAt };
+}
+
+/**
+ * Read a game's escrow account from chain.
+ *
+ * @returns The escrow, or null if it's closed (resolved or refunded) or never existed
+ */
+export async function fetchGameEscrow(gameId: string): Promise<GameEscrowAccount | null> {
+  const address = getGameEscrowAddress(gameId, getResolverKeypair().publicKey);
+  const account = await connection.getAccountInfo(address, 'confirmed');
+
+  if (!account || !account.owner.equals(ESCROW_PROGRAM_ID)) return null;
+  return decodeGameEscrow(account.data);
+}
+
+// ============================================================
+// RESOLVING (for payout jobs)
+// ============================================================
+
+export interface SignedTransaction {
+  signature: string;              // Known before sending, so it can be recorded first
+  rawTransaction: string;         // Base64, so the same transaction can be re-broadcast
+  blockhash: string;
+  lastValidBlockHeight: number;   // After this block the transaction can never land
+}
+
+// 'processed' is in a block but not yet confirmed: it can still confirm after its blockhash expires
+export type TransactionStatus = 'confirmed' | 'processed' | 'failed' | 'not_found';
+
+/**
+ * Build and sign (but don't send) the transaction that resolves a game's
+ * escrow: paying the winner and the fee, or refunding both deposits.
+ * Payout jobs record the signature before broadcasting, so a retry can
+ * always find out whether the transaction already landed.
+ *
+ * A token game pays into each wallet's associated token account, which the
+ * resolver creates first for any wallet that doesn't have one yet.
+ *
+ * @returns The signed transaction, or null if the escrow is already closed
+ */
+export async function signResolution(
+  gameId: string,
+  outcome: EscrowOutcomeValue
+): Promise<SignedTransaction | null> {
+  const resolver = getResolverKeypair();
+  const escrow = await fetchGameEscrow(gameId);
+  if (!escrow) return null;
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+
+  const escrowAddress = getGameEscrowAddress(gameId, resolver.publicKey);
+  const payees = [escrow.player1, escrow.player2, escrow.treasury].map((key) => new PublicKey(key));
+  const transaction = new Transaction({
+    feePayer: resolver.publicKey,
+    blockhash,
+    lastValidBlockHeight,
+  });
+
+  const keys = [
+    { pubkey: resolver.publicKey, isSigner: true, isWritable: true },
+    { pubkey: escrowAddress, isSigner: false, isWritable: true },
+    ...payees.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true })),
+  ];
+
+  if (escrow.mint) {
+    const mint = new PublicKey(escrow.mint);
+    const tokenAccounts = payees.map((owner) => getAssociatedTokenAddressSync(mint, owner));
+
+    tokenAccounts.forEach((tokenAccount, index) =>
+      transaction.add(
+        createAssociatedTokenAccountIdempotentInstruction(resolver.publicKey, tokenAccount, payees[index], mint)
+      )
+    );
+    keys.push(
+      { pubkey: getEscrowVaultAddress(escrowAddress, mint), isSigner: false, isWritable: true },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      ...tokenAccounts.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true }))
+    );
+  }
+
+  transaction.add(
+    new TransactionInstruction({
+      programId: ESCROW_PROGRAM_ID,
+      keys,
+      data: Buffer.from(encodeResolve(outcome)),
+    })
+  );
+  transaction.sign(resolver);
+
+  return {
+    signature: bs58.encode(transaction.signature!),
+    rawTransaction: transaction.serialize().toString('base64'),
+    blockhash,
+    lastValidBlockHeight,
+  };
+}
+
+/**
+ * Broadcast a signed transaction and wait for it to confirm.
+ * Broadcasting the same transaction twice is harmless: it can only land once.
+ * Throws if it fails on chain or doesn't confirm before its blockhash expires.
+ */
+export async function sendSignedTransaction(signed: SignedTransaction): Promise<void> {
+  await connection.sendRawTransaction(Buffer.from(signed.rawTransaction, 'base64'));
+
+  const result = await connection.confirmTransaction(
+    {
+      signature: signed.signature,
+      blockhash: signed.blockhash,
+      lastValidBlockHeight: signed.lastValidBlockHeight,
+    },
+    'confirmed'
+  );
+
+  if (result.value.err) {
+    throw new Error(`Transaction failed on chain: ${JSON.stringify(result.value.err)}`);
+  }
+}
+
+/**
+ * Look a transaction up on chain, including history older than the status cache.
+ */
+export async function getTransactionStatus(signature: string): Promise<TransactionStatus> {
+  const { value } = await connection.getSignatureStatus(signature, {
+    searchTransactionHistory: true,
+  });
+
+  if (!value) return 'not_found';
+  if (value.err) return 'failed';
+  return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized'
+    ? 'confirmed'
+    : 'processed';
+}
+
+/**
+ * Check whether a transaction's blockhash has expired, i.e. it can no longer land.
+ */
+export async function isBlockhashExpired(lastValidBlockHeight: number): Promise<boolean> {
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  return blockHeight > lastValidBlockHeight;
+}
@@ -0,0 +1,189 @@
+/**
+ * Game Clock
+ *
+ * The server owns every game's clock. Clients only display it.
+ *
+ * - When play starts, startGame reveals the board and stamps `startedAt`,
+ *   `durationMs` and `endsAt` on the room in a single write.
+ * - submitWord rejects words that arrive after `endsAt` (plus a small grace
+ *   window for network latency).
+ * - A Cloud Tasks job is scheduled for `endsAt` to finish the game, pick
+ *   the winner and record the board's maximum possible score (`maxScore`).
+ *   A scheduled sweep finishes any game whose task was lost, so a player
+ *   who backgrounds the app can never stall the game.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getFunctions } from 'firebase-admin/functions';
+
+import { GAME_DURATION_MS, SUBMISSION_GRACE_MS } from '../../shared/gameRules';
+import { solveGameBoard } from './dictionary';
+import { getSeedReveal } from './gameSeeds';
+import { transitionGame } from './gameState';
+
+// Name of the task queue function that finishes games at their deadline
+const FINISH_GAME_QUEUE = 'finishGameAtDeadline';
+
+// ============================================================
+// CLOCK HELPERS
+// ============================================================
+
+/**
+ * Whether a word submitted now still counts for a game ending at endsAt.
+ * Games that never had a clock (created before the server owned it) are open.
+ */
+export function isWithinGameClock(endsAt: number | undefined, now: number = Date.now()): boolean {
+  return !endsAt || now <= endsAt + SUBMISSION_GRACE_MS;
+}
+
+/**
+ * Pick the winner from the final scores (null for a tie).
+ */
+function determineWinner(game: any): string | null {
+  const player1Score = game.player1?.score || 0;
+  const player2Score = game.player2?.score || 0;
+
+  if (!game.player2 || player1Score === player2Score) return null;
+  return player1Score > player2Score ? game.player1.odid : game.player2.odid;
+}
+
+// ============================================================
+// START
+// ============================================================
+
+/**
+ * Start the clock on a game that just moved to 'playing'.
+ * Reveals the seed and letters together with the clock so clients never see
+ * a board without a deadline, then schedules the game's end.
+ *
+ * Throws if the board can't be revealed, so the onGameStart trigger retries
+ * rather than leaving a game in play with no clock to ever finish it.
+ */
+export async function startGame(gameId: string): Promise<void> {
+  const gameRef = admin.database().ref(`games/${gameId}`);
+
+  const reveal = await getSeedReveal(gameId);
+  if (!reveal) {
+    console.error(`[startGame] Game ${gameId} is playing but its board can't be revealed`);
+    throw new Error(`No seed to reveal for game ${gameId}`);
+  }
+
+  const durationSnapshot = await gameRef.child('durationMs').once('value');
+  const durationMs: number = durationSnapshot.val() || GAME_DURATION_MS;
+  const startedAt = Date.now();
+  const endsAt = startedAt + durationMs;
+
+  await gameRef.update({
+    seed: reveal.seed,
+    letters: reveal.letters,
+    seedRevealedAt: startedAt,
+    startedAt,
+    durationMs,
+    endsAt,
+    // Both players get a full disconnect grace period from the start
+    'player1/lastActivity': startedAt,
+    'player2/lastActivity': startedAt,
+  });
+
+  console.log(`[startGame] Game ${gameId} started, ends at ${new Date(endsAt).toISOString()}`);
+
+  await scheduleGameEnd(gameId, endsAt);
+}
+
+/**
+ * Enqueue the task that finishes a game once its clock (and grace window) runs out.
+ * A failure here is logged, not thrown - the scheduled sweep will still finish the game.
+ */
+async function scheduleGameEnd(gameId: string, endsAt: number): Promise<void> {
+  try {
+    await getFunctions()
+      .taskQueue(FINISH_GAME_QUEUE)
+      .enqueue(
+        { gameId },
+        {
+          id: `finish-${gameId}`,
+          scheduleTime: new Date(endsAt + SUBMISSION_GRACE_MS),
+        }
+      );
+  } catch (error: any) {
+    console.error(`[scheduleGameEnd] Failed to schedule end of game ${gameId}: ${error.message}`);
+  }
+}
+
+// ============================================================
+// FINISH
+// ============================================================
+
+/**
+ * Finish a game whose clock has run out and record the winner,
+ * along with the most either player could have scored on the board.
+ * Goes through the state machine so it can't race a forfeit or a second finisher.
+ *
+ * @returns true if this call finished the game
+ */
+export async function finishGame(gameId: string): Promise<boolean> {
+  const now = Date.now();
+
+  // Only a game that's still playing and out of time can be finished
+  const game = await transitionGame(gameId, 'finished', (current) =>
+    isWithinGameClock(current.endsAt, now)
+      ? null
+      : {
+          winner: determineWinner(current),
+          endedAt: now,
+          maxScore: solveGameBoard(current.letters || [], current.wordList).maxScore,
+        }
+  );
+
+  if (game) {
+    console.log(`[finishGame] Game ${gameId} finished, winner: ${game.winner || 'TIE'}`);
+  }
+  return game !== null;
+}
+
+/**
+ * Task queue handler: finish a game at its deadline.
+ */
+export const finishGameAtDeadline = functions.tasks
+  .taskQueue({
+    retryConfig: { maxAttempts: 5, minBackoffSeconds: 5 },
+    rateLimits: { maxConcurrentDispatches: 50 },
+  })
+  .onDispatch(async (data: { gameId: string }) => {
+    await finishGame(data.gameId);
+  });
+
+/**
+ * Backstop sweep: finish every playing game whose deadline has passed.
+ * Catches games whose finish task failed to enqueue or dispatch.
+ */
+export const finishExpiredGames = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const cutoff = Date.now() - SUBMISSION_GRACE_MS;
+    const snapshot = await admin
+      .database()
+      .ref('games')
+      .orderByChild('endsAt')
+      .startAt(1) // Skip games without a clock
+      .endAt(cutoff)
+      .once('value');
+
+    const expired: string[] = [];
+    snapshot.forEach((child) => {
+      if (child.child('status').val() === 'playing') {
+        expired.push(child.key!);
+      }
+      return false;
+    });
+
+    for (const gameId of expired) {
+      await finishGame(gameId);
+    }
+
+    if (expired.length > 0) {
+      console.log(`[finishExpiredGames] Swept ${expired.length} expired game(s)`);
+    }
+    return null;
+  });
@@ -0,0 +1,108 @@
+/**
+ * Game Seeds - Commit / Reveal
+ *
+ * Every game board is derived from a seed generated here on the server with
+ * a cryptographically secure RNG. No client ever gets to pick it.
+ *
+ * The flow is:
+ * 1. When a room is created, the seed is stored under `gameSeeds/{gameId}`
+ *    (server-only) and only its SHA-256 hash is published on the room.
+ * 2. Players deposit knowing the board is already fixed (the hash commits to it).
+ * 3. When play starts, the seed and letters are revealed on the room
+ *    (see startGame in gameClock.ts), so each client can check
+ *    sha256(seed) === seedHash.
+ * 4. Word submissions are always checked against letters regenerated from
+ *    the stored seed, never against `game.letters`.
+ */
+
+import * as admin from 'firebase-admin';
+import { createHash, randomBytes } from 'crypto';
+
+import { BOARD_SIZE, generateLetterPoolFromSeed } from '../../shared/gameRules';
+
+// Number of random bytes in a seed (256 bits)
+const SEED_BYTES = 32;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface SeedCommitment {
+  seed: string;       // Secret seed (hex), kept server-side until reveal
+  seedHash: string;   // SHA-256 of the seed (hex), published on the room
+}
+
+// ============================================================
+// SEED GENERATION
+// ============================================================
+
+/**
+ * Hash a seed the same way clients do when verifying a reveal.
+ */
+export function hashSeed(seed: string): string {
+  return createHash('sha256').update(seed, 'utf8').digest('hex');
+}
+
+/**
+ * Generate a new cryptographically random seed and its commitment hash.
+ */
+export function createSeedCommitment(): SeedCommitment {
+  const seed = randomBytes(SEED_BYTES).toString('hex');
+  return { seed, seedHash: hashSeed(seed) };
+}
+
+// ============================================================
+// STORAGE
+// ============================================================
+
+/**
+ * Store a game's secret seed where only the server can read it.
+ */
+export async function storeGameSeed(gameId: string, seed: string): Promise<void> {
+  await admin.database().ref(`gameSeeds/${gameId}`).set({
+    seed,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Load a game's secret seed (null if the game has none).
+ */
+export async function loadGameSeed(gameId: string): Promise<string | null> {
+  const snapshot = await admin.database().ref(`gameSeeds/${gameId}/seed`).once('value');
+  return snapshot.exists() ? snapshot.val() : null;
+}
+
+/**
+ * Regenerate a game's letters from its stored seed.
+ * This is the only trusted source of a board on the server.
+ */
+export async function loadGameLetters(gameId: string): Promise<string[] | null> {
+  const seed = await loadGameSeed(gameId);
+  return seed ? generateLetterPoolFromSeed(seed, BOARD_SIZE) : null;
+}
+
+// ============================================================
+// REVEAL
+// ============================================================
+
+export interface SeedReveal {
+  seed: string;
+  letters: string[];
+}
+
+/**
+ * Get the seed and letters to reveal on a room when play starts.
+ * The caller writes them to the room together with the game clock.
+ *
+ * @returns The reveal, or null if the game has no stored seed
+ */
+export async function getSeedReveal(gameId: string): Promise<SeedReveal | null> {
+  const seed = await loadGameSeed(gameId);
+  if (!seed) {
+    console.error(`[getSeedReveal] No seed stored for game ${gameId}`);
+    return null;
+  }
+
+  return { seed, letters: generateLetterPoolFromSeed(seed, BOARD_SIZE) };
+}
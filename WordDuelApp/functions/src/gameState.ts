@@ -0,0 +1,280 @@
+/**
+ * Game State Machine
+ *
+ * Only Cloud Functions move a game between statuses, and only along these edges:
+ *
+ *   waiting ──► ready ──► playing ──► finished
+ *      │          │
+ *      └──────────┴──► cancelled
+ *
+ * - waiting → ready      Both deposits are verified (escrow locked), or both
+ *                        players are in a free game
+ * - ready → playing      Both players have loaded the game
+ * - playing → finished   The clock ran out or a player forfeited (quit or disconnected)
+ * - waiting/ready → cancelled   A player backed out before play started, the
+ *                               deposit deadline passed (depositDeadlines.ts), or
+ *                               the server's dictionary changed before play started
+ *
+ * Every transition runs as a transaction on the whole room, so two functions
+ * racing (e.g. a forfeit and the end-of-game task) can never both win.
+ * `winner` and `forfeitedBy` are only ever written as part of a transition
+ * to 'finished'.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+import { getAuthedPlayer } from './auth';
+import { isServerDictionary, solveGameBoard } from './dictionary';
+import { cancelRoom } from './matchmaking';
+import { getRoomTier, isFreeTier } from './stakeTiers';
+
+// ============================================================
+// TYPES & TRANSITIONS
+// ============================================================
+
+export type GameStatus = 'waiting' | 'ready' | 'playing' | 'finished' | 'cancelled';
+
+// Allowed next statuses for each status
+const TRANSITIONS: Record<GameStatus, GameStatus[]> = {
+  waiting: ['ready', 'cancelled'],
+  ready: ['playing', 'cancelled'],
+  playing: ['finished'],
+  finished: [],
+  cancelled: [],
+};
+
+/**
+ * Check whether a game may move from one status to another.
+ */
+export function canTransition(from: GameStatus, to: GameStatus): boolean {
+  return (TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Extra fields to write with a transition, or null to refuse it.
+ */
+export type TransitionUpdate = (game: any) => Record<string, any> | null;
+
+/**
+ * Move a game to a new status, if the state machine allows it.
+ *
+ * @param update - Optional callback that checks the current game and returns
+ *                 the fields to write alongside the new status (or null to abort)
+ * @returns The game after the transition, or null if it didn't happen
+ */
+export async function transitionGame(
+  gameId: string,
+  to: GameStatus,
+  update?: TransitionUpdate
+): Promise<any | null> {
+  const gameRef = admin.database().ref(`games/${gameId}`);
+  let applied = false;
+
+  const result = await gameRef.transaction((game) => {
+    // Transactions run first against the local cache, which may be empty
+    applied = false;
+    if (game === null) return null;
+
+    if (!canTransition(game.status, to)) {
+      return; // Abort
+    }
+
+    const fields = update ? update(game) : {};
+    if (fields === null) {
+      return; // Abort
+    }
+
+    applied = true;
+    return { ...game, ...fields, status: to };
+  });
+
+  if (!result.committed || !applied) {
+    return null;
+  }
+
+  console.log(`[transitionGame] Game ${gameId} is now ${to}`);
+  return result.snapshot.val();
+}
+
+// ============================================================
+// START
+// ============================================================
+
+/**
+ * Move a game from 'waiting' to 'ready' once both deposits are locked in escrow
+ * (or, in a free game, once both players are in), then start it if it can.
+ *
+ * @returns true if the game started
+ */
+export async function markGameReady(gameId: string): Promise<boolean> {
+  const game = await transitionGame(gameId, 'ready', (current) => {
+    const tier = getRoomTier(current);
+    if (!tier || !current.player2) return null;
+    return isFreeTier(tier) || current.escrow?.status === 'locked' ? {} : null;
+  });
+
+  return game ? tryStartGame(gameId) : false;
+}
+
+/**
+ * Start play if the game is ready and both players have loaded it.
+ * The board is revealed and the clock started by the onGameStart trigger.
+ *
+ * This is the last point a room's dictionary is checked: a room created
+ * before the server's dictionary changed is cancelled and refunded here
+ * rather than played, and a game already in play keeps going to the end.
+ */
+export async function tryStartGame(gameId: string): Promise<boolean> {
+  let outdatedDictionary = false;
+  const game = await transitionGame(gameId, 'playing', (current) => {
+    outdatedDictionary = !isServerDictionary(current.dictionaryHash);
+    if (outdatedDictionary) return null;
+    return current.player1?.isReady && current.player2?.isReady ? {} : null;
+  });
+  if (game) return true;
+
+  if (outdatedDictionary) {
+    const refunds = await cancelRoom(gameId, 'server', (current) =>
+      current.status === 'ready' && !isServerDictionary(current.dictionaryHash)
+        ? { cancelReason: 'dictionary_changed' }
+        : null
+    );
+    if (refunds) {
+      console.log(`[tryStartGame] Game ${gameId} cancelled: created with a different dictionary`);
+    }
+  }
+  return false;
+}
+
+// ============================================================
+// FORFEIT
+// ============================================================
+
+export type ForfeitReason = 'quit' | 'disconnected';
+
+/**
+ * Finish a game in play with the forfeiting player's opponent as winner.
+ * Used both when a player quits and when presence detects they've gone.
+ * The transition to 'finished' triggers processGamePayout.
+ */
+export async function forfeitGame(
+  gameId: string,
+  forfeitingPlayerId: string,
+  reason: ForfeitReason
+): Promise<{ success: boolean; winner?: string; error?: string }> {
+  const snapshot = await admin.database().ref(`games/${gameId}`).once('value');
+  const game = snapshot.val();
+
+  if (!game) {
+    return { success: false, error: 'Game not found' };
+  }
+
+  // Only a game in play can be forfeited (before that, cancel instead)
+  if (game.status !== 'playing') {
+    return { success: false, error: 'Game is not in progress' };
+  }
+
+  // Determine winner (opponent of forfeiting player)
+  const isPlayer1 = game.player1?.odid === forfeitingPlayerId;
+  const isPlayer2 = game.player2?.odid === forfeitingPlayerId;
+  if (!isPlayer1 && !isPlayer2) {
+    return { success: false, error: 'Player is not part of this game' };
+  }
+
+  const winner: string | undefined = isPlayer1 ? game.player2?.odid : game.player1.odid;
+  if (!winner) {
+    return { success: false, error: 'Could not determine winner' };
+  }
+
+  const finishedGame = await transitionGame(gameId, 'finished', (current) => ({
+    winner,
+    endedAt: Date.now(),
+    forfeitedBy: forfeitingPlayerId,
+    forfeitReason: reason,
+    maxScore: solveGameBoard(current.letters || [], current.wordList).maxScore,
+  }));
+
+  if (!finishedGame) {
+    return { success: false, error: 'Game already finished' };
+  }
+
+  console.log(`[forfeitGame] ${forfeitingPlayerId} forfeited game ${gameId} (${reason}), winner: ${winner}`);
+  return { success: true, winner };
+}
+
+// ============================================================
+// GAME IDS
+// ============================================================
+
+/**
+ * Check a game ID sent by a client, or return null if it can't be one
+ * (database keys are non-empty and never contain . $ # [ ] or /).
+ * Every callable that takes a game ID checks it with this before using it in a path.
+ */
+export function parseGameId(gameId: unknown): string | null {
+  return typeof gameId === 'string' && /^[^.$#[\]/]+$/.test(gameId) ? gameId : null;
+}
+
+// ============================================================
+// CALLABLES
+// ============================================================
+
+interface SetPlayerReadyData {
+  gameId: string;
+}
+
+/**
+ * Mark the signed-in player as having loaded the game.
+ * Play starts once both players are ready AND both deposits are locked.
+ */
+export const setPlayerReady = functions.https.onCall(
+  async (data: SetPlayerReadyData, context) => {
+    const gameId = parseGameId(data?.gameId);
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!gameId) {
+      return { success: false, error: 'Invalid game' };
+    }
+
+    try {
+      const gameRef = admin.database().ref(`games/${gameId}`);
+      const snapshot = await gameRef.once('value');
+
+      if (!snapshot.exists()) {
+        return { success: false, error: 'Game not found' };
+      }
+
+      const game = snapshot.val();
+      const playerKey =
+        game.player1?.odid === playerId ? 'player1' :
+        game.player2?.odid === playerId ? 'player2' : null;
+
+      if (!playerKey) {
+        return { success: false, error: 'Player is not part of this game' };
+      }
+
+      if (game.status !== 'waiting' && game.status !== 'ready') {
+        return { success: false, error: 'Game has already started' };
+      }
+
+      await gameRef.child(playerKey).update({
+        isReady: true,
+        lastActivity: Date.now(),
+      });
+
+      // Free games have no deposits to wait for, so they can only get ready here
+      const started =
+        game.status === 'waiting' ? await markGameReady(gameId) : await tryStartGame(gameId);
+      console.log(`[setPlayerReady] ${playerId} ready in game ${gameId}${started ? ', game started' : ''}`);
+      return { success: true, started };
+    } catch (error: any) {
+      console.error('[setPlayerReady] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
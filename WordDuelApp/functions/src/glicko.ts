@@ -0,0 +1,142 @@
+/**
+ * Glicko-2
+ *
+ * Pure implementation of Mark Glickman's Glicko-2 rating system
+ * (http://www.glicko.net/glicko/glicko2.pdf). No Firebase in here, so it can
+ * be unit tested on its own - ratings.ts stores and applies the results.
+ *
+ * A rating has three parts:
+ * - rating      The skill estimate (new players start at 1500)
+ * - rd          Rating deviation: how unsure we are (350 for a new player, shrinks with play)
+ * - volatility  How erratic the player's results are
+ */
+
+// ============================================================
+// TYPES & CONSTANTS
+// ============================================================
+
+export interface Rating {
+  rating: number;
+  rd: number;
+  volatility: number;
+}
+
+export interface GameResult {
+  opponent: Rating;
+  score: number; // 1 for a win, 0.5 for a tie, 0 for a loss
+}
+
+export const DEFAULT_RATING: Rating = {
+  rating: 1500,
+  rd: 350,
+  volatility: 0.06,
+};
+
+// Converts between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+
+// Constrains how fast volatility can change (Glickman suggests 0.3-1.2)
+const TAU = 0.5;
+
+// Convergence tolerance for the volatility iteration
+const EPSILON = 0.000001;
+
+// Lower bound so a very active player's rating never freezes completely
+const MIN_RD = 30;
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, muJ: number, phiJ: number): number {
+  return 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+}
+
+/**
+ * Find the new volatility (step 5 of the paper, Illinois algorithm).
+ */
+function newVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - d)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+// ============================================================
+// UPDATE
+// ============================================================
+
+/**
+ * Rate a player after one rating period.
+ * Word Duel treats every game as its own period, so `results` usually has one entry.
+ *
+ * @returns The player's new rating (unchanged apart from a wider rd if they didn't play)
+ */
+export function updateRating(player: Rating, results: GameResult[]): Rating {
+  const mu = (player.rating - DEFAULT_RATING.rating) / SCALE;
+  const phi = player.rd / SCALE;
+  const sigma = player.volatility;
+
+  // Didn't play: only the uncertainty grows
+  if (results.length === 0) {
+    const phiStar = Math.sqrt(phi * phi + sigma * sigma);
+    return { ...player, rd: Math.min(phiStar * SCALE, DEFAULT_RATING.rd) };
+  }
+
+  const opponents = results.map(({ opponent, score }) => {
+    const muJ = (opponent.rating - DEFAULT_RATING.rating) / SCALE;
+    const phiJ = opponent.rd / SCALE;
+    return { gJ: g(phiJ), E: expectedScore(mu, muJ, phiJ), score };
+  });
+
+  // Estimated variance of the rating from these results alone
+  const v = 1 / opponents.reduce((sum, { gJ, E }) => sum + gJ * gJ * E * (1 - E), 0);
+
+  // How much better (or worse) the player did than expected
+  const improvement = opponents.reduce((sum, { gJ, E, score }) => sum + gJ * (score - E), 0);
+  const delta = v * improvement;
+
+  const sigmaPrime = newVolatility(phi, sigma, v, delta);
+  const phiStar = Math.sqrt(phi * phi + sigmaPrime * sigmaPrime);
+  const phiPrime = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muPrime = mu + phiPrime * phiPrime * improvement;
+
+  return {
+    rating: muPrime * SCALE + DEFAULT_RATING.rating,
+    rd: Math.min(Math.max(phiPrime * SCALE, MIN_RD), DEFAULT_RATING.rd),
+    volatility: sigmaPrime,
+  };
+}
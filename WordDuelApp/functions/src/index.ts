@@ -1,70 +1,67 @@
 /**
  * Word Duel - Firebase Cloud Functions for Escrow
  *
- * These functions handle the server-side escrow operations:
+ * These functions handle the server-side game and escrow operations:
+ * - Matchmaking and creating game rooms with committed, server-generated seeds
  * - Verifying player deposits on Solana blockchain
  * - Processing payouts to winners when games end
+ * - Moving games through their statuses (see gameState.ts) and picking winners
  * - Handling refunds for ties and forfeits
  */
 
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { PublicKey, VersionedMessage } from '@solana/web3.js';
+
+// Game rules shared with the mobile app (scoring, board generation, versioning)
+import {
+  MIN_WORD_LENGTH,
+  calculateScore,
+  canFormWord,
+  isSupportedRulesVersion,
+} from '../../shared/gameRules';
+import { loadGameLetters } from './gameSeeds';
+import { startGame, isWithinGameClock } from './gameClock';
+import { forfeitGame, markGameReady, parseGameId } from './gameState';
+import { getAuthedPlayer } from './auth';
+import { splitPot } from '../../shared/payouts';
+import { getRoomFeeBps, getRoomTier, isFreeTier } from './stakeTiers';
+import {
+  EscrowOutcome,
+  MEMO_PROGRAM_ID,
+  formatDepositMemo,
+  isVaultTokenBalance,
+} from '../../shared/escrowProgram';
 import {
-  Connection,
-  PublicKey,
-  Keypair,
-  Transaction,
-  SystemProgram,
-  LAMPORTS_PER_SOL,
-  sendAndConfirmTransaction,
-} from '@solana/web3.js';
-import * as bs58 from 'bs58';
-
-// Dictionary for word validation (loaded once at cold start)
-import words from 'an-array-of-english-words';
-const VALID_WORDS = new Set(words);
+  CURRENCY_DECIMALS,
+  StakeCurrency,
+  fromBaseUnits,
+  getCurrencyMint,
+  toBaseUnits,
+} from '../../shared/environments';
+import {
+  ESCROW_PROGRAM_ID,
+  connection,
+  fetchGameEscrow,
+  getEscrowVaultAddress,
+  getTreasuryAddress,
+} from './escrow';
+import { SERVER_ENV } from './environment';
+import { queuePayoutJob } from './payoutJobs';
+import { checkWord, isServerDictionary } from './dictionary';
 
 // Initialize Firebase Admin
 admin.initializeApp();
 
-// ============================================================
-// CONFIGURATION
-// ============================================================
-
-// Solana RPC endpoint (devnet for now)
-const SOLANA_RPC = 'https://api.devnet.solana.com';
-
-// Initialize Solana connection
-const connection = new Connection(SOLANA_RPC, 'confirmed');
-
-/**
- * Load the escrow wallet keypair from environment variables.
- * The private key is stored in .env file (for local) or Firebase secrets (for deployed).
- */
-function getEscrowKeypair(): Keypair {
-  const privateKey = process.env.ESCROW_PRIVATE_KEY;
-
-  if (!privateKey) {
-    throw new Error(
-      'Escrow private key not configured. Set ESCROW_PRIVATE_KEY in .env file or Firebase secrets.'
-    );
-  }
-
-  // Decode the base58 private key
-  const secretKey = bs58.decode(privateKey);
-  return Keypair.fromSecretKey(secretKey);
-}
-
 // ============================================================
 // VERIFY DEPOSIT FUNCTION
 // ============================================================
 
 interface VerifyDepositData {
   gameRoomId: string;
-  playerId: string;
   txSignature: string;
   expectedAmount?: number; // Deprecated: server now uses game.betAmount instead
-  currency: 'SOL';
+  currency: StakeCurrency;
 }
 
 /**
@@ -88,22 +85,50 @@ async function markSignatureUsed(txSignature: string, gameRoomId: string, player
   });
 }
 
+/**
+ * Get the text of every SPL Memo instruction in a transaction.
+ */
+function getTransactionMemos(message: VersionedMessage, accountKeys: PublicKey[]): string[] {
+  return message.compiledInstructions
+    .filter((instruction) => accountKeys[instruction.programIdIndex]?.toBase58() === MEMO_PROGRAM_ID)
+    .map((instruction) => Buffer.from(instruction.data).toString('utf8'));
+}
+
 /**
  * Verify a player's deposit transaction on the Solana blockchain.
  * Called by the mobile app after player signs and sends their deposit.
+ * The player is the signed-in wallet (context.auth.uid).
  *
  * Security checks:
  * 1. Verify game exists and player is part of it
- * 2. Verify deposit amount/currency matches game's configured bet
+ * 2. Verify the game uses rules this server implements, and that the
+ *    deposit amount/currency matches the game's stake tier
  * 3. Verify transaction signature hasn't been used before (replay protection)
- * 4. Verify the sender matches the claimed playerId
- * 5. Verify it sent the correct amount to the escrow wallet
+ * 4. Verify the sender matches the claimed playerId, and the transaction
+ *    succeeded and went to the game's escrow program account
+ * 4b. Verify the transaction's memo names this game and this player, so a
+ *    deposit can never be credited to another room
+ * 4c. For USDC, verify the tokens landed in the escrow's vault (its
+ *    associated token account) for the USDC mint, with USDC's decimals
+ * 5. Verify the escrow account on chain records the player's deposit of the
+ *    tier's stake in the tier's currency (the program itself only accepts
+ *    exactly that amount)
  * 6. Update Firebase with the verified deposit
  */
 export const verifyDeposit = functions.https.onCall(
   async (data: VerifyDepositData, context) => {
     // Note: expectedAmount is ignored - we use game.betAmount instead for security
-    const { gameRoomId, playerId, txSignature, currency } = data;
+    const gameRoomId = parseGameId(data?.gameRoomId);
+    const { txSignature, currency } = data;
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!gameRoomId) {
+      return { success: false, error: 'Invalid game' };
+    }
 
     console.log(`[verifyDeposit] Starting verification for game ${gameRoomId}`);
     console.log(`[verifyDeposit] Player: ${playerId}, TX: ${txSignature}`);
@@ -126,17 +151,39 @@ export const verifyDeposit = functions.https.onCall(
         return { success: false, error: 'Player is not part of this game' };
       }
 
-      // SECURITY CHECK 3: Verify currency matches game's configured currency
-      const gameCurrency = game.betCurrency || 'SOL';
+      // SECURITY CHECK 2b: Refuse deposits for games this server cannot score
+      if (!isSupportedRulesVersion(game.rulesVersion)) {
+        console.log(`[verifyDeposit] REJECTED: Unsupported rules version ${game.rulesVersion}`);
+        return { success: false, error: 'Game uses an unsupported rules version' };
+      }
+      if (!isServerDictionary(game.dictionaryHash)) {
+        console.log(`[verifyDeposit] REJECTED: Game uses dictionary ${game.dictionaryVersion} (${game.dictionaryHash})`);
+        return { success: false, error: 'Game uses a different dictionary' };
+      }
+
+      // SECURITY CHECK 2c: The room's stake must match its tier in the server's tier table
+      const tier = getRoomTier(game);
+      if (!tier) {
+        console.log(`[verifyDeposit] REJECTED: Stake ${game.betAmount} does not match tier ${game.stakeTier}`);
+        return { success: false, error: 'Game stake does not match any tier' };
+      }
+
+      if (isFreeTier(tier)) {
+        console.log('[verifyDeposit] REJECTED: Free game');
+        return { success: false, error: 'This game is free - there is nothing to deposit' };
+      }
+
+      // SECURITY CHECK 3: Verify currency matches the tier's currency
+      const gameCurrency = tier.betCurrency;
       if (currency !== gameCurrency) {
         console.log(`[verifyDeposit] REJECTED: Currency mismatch. Game requires ${gameCurrency}, got ${currency}`);
         return { success: false, error: `Game requires ${gameCurrency} deposits` };
       }
 
-      // SECURITY CHECK 4: Get the expected amount from the GAME, not from the client
+      // SECURITY CHECK 4: Get the expected amount from the TIER, not from the client
       // This prevents clients from claiming a smaller deposit amount
-      const gameBetAmount = game.betAmount;
-      console.log(`[verifyDeposit] Game bet: ${gameBetAmount} ${gameCurrency}`);
+      const gameBetAmount = tier.betAmount;
+      console.log(`[verifyDeposit] Game bet: ${gameBetAmount} ${gameCurrency} (${tier.id} tier)`);
 
       // SECURITY CHECK 5: Verify signature hasn't been used before (replay protection)
       const alreadyUsed = await isSignatureUsed(txSignature);
@@ -145,9 +192,12 @@ export const verifyDeposit = functions.https.onCall(
         return { success: false, error: 'Transaction has already been used for a deposit' };
       }
 
-      // Get the escrow keypair to know the expected destination
-      const escrowKeypair = getEscrowKeypair();
-      const escrowAddress = escrowKeypair.publicKey.toString();
+      // The game's escrow account is the expected destination
+      const escrowAddress = game.escrow?.address;
+      if (!escrowAddress) {
+        console.log('[verifyDeposit] REJECTED: Escrow not opened yet');
+        return { success: false, error: 'This game is not ready for deposits yet' };
+      }
 
       // Wait a moment for transaction to propagate
       await new Promise((resolve) => setTimeout(resolve, 2000));
@@ -180,36 +230,80 @@ export const verifyDeposit = functions.https.onCall(
       }
       console.log(`[verifyDeposit] Sender verified: ${senderAddress}`);
 
-      // Verify SOL transfer - check balance changes
-      const preBalances = txInfo.meta?.preBalances || [];
-      const postBalances = txInfo.meta?.postBalances || [];
-
-      const escrowIndex = accountKeys.findIndex(
-        (key) => key.toString() === escrowAddress
-      );
+      if (txInfo.meta?.err) {
+        console.log('[verifyDeposit] REJECTED: Transaction failed on chain');
+        return { success: false, error: 'Transaction failed on Solana' };
+      }
 
-      if (escrowIndex === -1) {
-        console.log('[verifyDeposit] Escrow wallet not found in transaction');
+      const touchesEscrow =
+        accountKeys.some((key) => key.toString() === escrowAddress) &&
+        accountKeys.some((key) => key.equals(ESCROW_PROGRAM_ID));
+      if (!touchesEscrow) {
+        console.log('[verifyDeposit] Escrow account not found in transaction');
         return {
           success: false,
-          error: 'Transaction did not include escrow wallet',
+          error: 'Transaction did not deposit into the game escrow',
         };
       }
 
-      // Calculate amount received by escrow
-      const amountReceived = postBalances[escrowIndex] - preBalances[escrowIndex];
-      // Use game's bet amount, NOT the client-provided expectedAmount
-      const requiredLamports = Math.round(gameBetAmount * LAMPORTS_PER_SOL);
+      // The deposit must be bound to this room and this player by its memo
+      const expectedMemo = formatDepositMemo(gameRoomId, playerId);
+      const memos = getTransactionMemos(txInfo.transaction.message, accountKeys);
+      if (!memos.includes(expectedMemo)) {
+        console.log(`[verifyDeposit] REJECTED: Memo mismatch. Expected "${expectedMemo}", got ${JSON.stringify(memos)}`);
+        return { success: false, error: 'Deposit memo does not match this game' };
+      }
+
+      // Token deposits must land in the escrow's vault for the currency's mint
+      const expectedMint = getCurrencyMint(SERVER_ENV, gameCurrency);
+      if (expectedMint) {
+        const vault = getEscrowVaultAddress(new PublicKey(escrowAddress), new PublicKey(expectedMint));
+        const vaultIndex = accountKeys.findIndex((key) => key.equals(vault));
+
+        if (
+          !isVaultTokenBalance(
+            txInfo.meta?.postTokenBalances,
+            vaultIndex,
+            expectedMint,
+            escrowAddress,
+            CURRENCY_DECIMALS[gameCurrency]
+          )
+        ) {
+          console.log(`[verifyDeposit] REJECTED: No ${gameCurrency} landed in vault ${vault.toBase58()}`);
+          return { success: false, error: `Transaction did not deposit ${gameCurrency} into the game escrow` };
+        }
+      }
+
+      // The escrow account is the source of truth for who has deposited
+      const escrow = await fetchGameEscrow(gameRoomId);
+      if (!escrow) {
+        console.log('[verifyDeposit] REJECTED: Escrow account not found on chain');
+        return { success: false, error: 'Game escrow not found on Solana' };
+      }
+
+      const escrowMint = escrow.mint ? new PublicKey(escrow.mint).toBase58() : null;
+      if (escrowMint !== expectedMint) {
+        console.log(`[verifyDeposit] REJECTED: Escrow mint ${escrowMint}, expected ${expectedMint}`);
+        return { success: false, error: `Game escrow does not hold ${gameCurrency}` };
+      }
+
+      const hasDeposited = isPlayer1 ? escrow.player1Deposited : escrow.player2Deposited;
+      // Use the tier's bet amount, NOT the client-provided expectedAmount
+      const requiredUnits = toBaseUnits(gameBetAmount, gameCurrency);
+      const amountReceived = escrow.stake;
 
       console.log(
-        `[verifyDeposit] Amount received: ${amountReceived}, required: ${requiredLamports}`
+        `[verifyDeposit] Deposited on chain: ${hasDeposited}, stake: ${amountReceived}, required: ${requiredUnits}`
       );
 
-      // Allow small variance for rounding (0.1%)
-      if (amountReceived < requiredLamports * 0.999) {
+      if (!hasDeposited) {
+        return { success: false, error: 'Deposit not found in the game escrow' };
+      }
+
+      if (amountReceived !== requiredUnits) {
         return {
           success: false,
-          error: `Insufficient deposit: received ${amountReceived / LAMPORTS_PER_SOL} SOL, required ${gameBetAmount} SOL`,
+          error: `Escrow stake is ${fromBaseUnits(amountReceived, gameCurrency)} ${gameCurrency}, required ${gameBetAmount} ${gameCurrency}`,
         };
       }
 
@@ -221,7 +315,7 @@ export const verifyDeposit = functions.https.onCall(
         playerId,
         txSignature,
         amountReceived,
-        'SOL'
+        gameCurrency
       );
 
       console.log('[verifyDeposit] Deposit verified and recorded successfully');
@@ -241,7 +335,7 @@ async function updateDepositInFirebase(
   playerId: string,
   txSignature: string,
   amount: number,
-  currency: string
+  currency: StakeCurrency
 ): Promise<void> {
   const gameRef = admin.database().ref(`games/${gameRoomId}`);
 
@@ -268,6 +362,7 @@ async function updateDepositInFirebase(
     // Both deposited - mark escrow as locked
     console.log(`[updateDepositInFirebase] Both deposits confirmed, locking escrow`);
     await gameRef.child('escrow/status').set('locked');
+    await markGameReady(gameRoomId);
   } else {
     await gameRef.child('escrow/status').set('pending_deposits');
   }
@@ -280,10 +375,13 @@ async function updateDepositInFirebase(
 /**
  * Automatically process payout when a game finishes.
  * This is triggered by Firebase when game.status changes to 'finished'.
+ * The money itself moves when a payout job (see payoutJobs.ts) resolves the
+ * game's on-chain escrow, retrying until it lands and never paying twice.
  *
  * Logic:
- * - If there's a winner: send all escrow funds to winner
- * - If it's a tie: refund each player their deposit
+ * - If there's a winner: the escrow pays the pot to the winner, minus the
+ *   room's platform fee, which goes to the treasury in the same instruction
+ * - If it's a tie: the escrow refunds each player their deposit (no fee)
  */
 export const processGamePayout = functions.database
   .ref('/games/{gameId}/status')
@@ -308,6 +406,22 @@ export const processGamePayout = functions.database
       return null;
     }
 
+    // Never pay out a room whose stake doesn't match the tier table
+    const tier = getRoomTier(game);
+    if (!tier) {
+      console.log(`[processGamePayout] REJECTED: Stake ${game.betAmount} does not match tier ${game.stakeTier}`);
+      await admin.database().ref(`games/${gameId}/escrow`).update({
+        payoutError: 'Game stake does not match any tier',
+        payoutAttemptedAt: Date.now(),
+      });
+      return null;
+    }
+
+    if (isFreeTier(tier)) {
+      console.log('[processGamePayout] Free game, nothing to pay out');
+      return null;
+    }
+
     // Check if already processed
     if (game.escrow?.status === 'paid_out' || game.escrow?.status === 'refunded') {
       console.log('[processGamePayout] Already processed');
@@ -321,7 +435,6 @@ export const processGamePayout = functions.database
     }
 
     try {
-      const escrowKeypair = getEscrowKeypair();
       const winner = game.winner;
       const player1 = game.player1;
       const player2 = game.player2;
@@ -338,170 +451,86 @@ export const processGamePayout = functions.database
         return null;
       }
 
-      // Handle tie (no winner)
+      // Handle tie (no winner) - refunds are fee-free
       if (!winner) {
         console.log('[processGamePayout] Tie game - refunding both players');
-
-        let player1RefundTx: string | null = null;
-        let player2RefundTx: string | null = null;
-
-        // Refund player 1 (wrap in try-catch so player 2 can still be refunded if this fails)
-        if (player1Deposit > 0) {
-          try {
-            player1RefundTx = await sendPayout(
-              escrowKeypair,
-              player1.odid,
-              player1Deposit
-            );
-            console.log(`[processGamePayout] Player 1 refund complete: ${player1RefundTx}`);
-          } catch (err: any) {
-            console.error(`[processGamePayout] Player 1 refund failed: ${err.message}`);
-          }
-        }
-
-        // Refund player 2 (wrap in try-catch so we can still update Firebase even if this fails)
-        if (player2Deposit > 0) {
-          try {
-            player2RefundTx = await sendPayout(
-              escrowKeypair,
-              player2.odid,
-              player2Deposit
-            );
-            console.log(`[processGamePayout] Player 2 refund complete: ${player2RefundTx}`);
-          } catch (err: any) {
-            console.error(`[processGamePayout] Player 2 refund failed: ${err.message}`);
-          }
-        }
-
-        // Update Firebase
-        await admin.database().ref(`games/${gameId}/escrow`).update({
-          status: 'refunded',
-          refundedAt: Date.now(),
-          player1RefundTx,
-          player2RefundTx,
-        });
-
-        console.log('[processGamePayout] Refunds complete');
-        return { refunded: true, player1RefundTx, player2RefundTx };
+        await queuePayoutJob(gameId, 'refund', EscrowOutcome.Refund);
+        return null;
       }
 
-      // Pay the winner (100% - no platform fee for now)
-      const winnerAddress = winner;
-      const payoutAmount = totalPot;
+      const outcome =
+        winner === player1?.odid
+          ? EscrowOutcome.Player1Wins
+          : winner === player2?.odid
+            ? EscrowOutcome.Player2Wins
+            : null;
+      if (outcome === null) {
+        throw new Error(`Winner ${winner} is not a player in this game`);
+      }
 
-      console.log(`[processGamePayout] Sending ${payoutAmount} to winner ${winnerAddress}`);
+      // The program takes the fee the escrow was opened with; record the same split
+      const feeBps = getRoomFeeBps(game, tier);
+      const { fee: platformFee, payout: payoutAmount } = splitPot(totalPot, feeBps);
 
-      const payoutSignature = await sendPayout(
-        escrowKeypair,
-        winnerAddress,
-        payoutAmount
+      console.log(
+        `[processGamePayout] Paying ${payoutAmount} to winner ${winner}, ` +
+          `fee ${platformFee} (${feeBps} bps) to treasury`
       );
 
-      // Update Firebase
-      await admin.database().ref(`games/${gameId}/escrow`).update({
-        status: 'paid_out',
-        payoutTx: payoutSignature,
-        paidOutAt: Date.now(),
+      await queuePayoutJob(gameId, 'payout', outcome, {
         winnerPayout: payoutAmount,
+        platformFee,
+        feeBps,
+        treasuryAddress: platformFee > 0 ? getTreasuryAddress() : null,
       });
-
-      console.log(`[processGamePayout] Payout complete: ${payoutSignature}`);
-      return { success: true, signature: payoutSignature };
+      return null;
     } catch (error: any) {
       console.error('[processGamePayout] Error:', error);
 
-      // Log the error but don't crash - we can retry manually
+      // Couldn't even queue the payout (e.g. missing treasury config)
       await admin.database().ref(`games/${gameId}/escrow`).update({
         payoutError: error.message,
         payoutAttemptedAt: Date.now(),
       });
 
-      return { success: false, error: error.message };
+      return null;
     }
   });
 
-/**
- * Helper: Send SOL payout from escrow to a player
- */
-async function sendPayout(
-  escrowKeypair: Keypair,
-  recipientAddress: string,
-  amount: number
-): Promise<string> {
-  const recipientPublicKey = new PublicKey(recipientAddress);
-
-  const transaction = new Transaction().add(
-    SystemProgram.transfer({
-      fromPubkey: escrowKeypair.publicKey,
-      toPubkey: recipientPublicKey,
-      lamports: amount,
-    })
-  );
-
-  const signature = await sendAndConfirmTransaction(connection, transaction, [
-    escrowKeypair,
-  ]);
-
-  console.log(`[sendPayout] SOL transfer complete: ${signature}`);
-  return signature;
-}
-
 // ============================================================
 // PROCESS FORFEIT FUNCTION
 // ============================================================
 
 interface ProcessForfeitData {
   gameRoomId: string;
-  forfeitingPlayerId: string;
 }
 
 /**
- * Handle a player forfeiting mid-game.
+ * Handle the signed-in player forfeiting mid-game.
  * The opponent wins and receives the entire pot.
+ * Players who disconnect are forfeited the same way (see presence.ts).
  */
 export const processForfeit = functions.https.onCall(
   async (data: ProcessForfeitData, context) => {
-    const { gameRoomId, forfeitingPlayerId } = data;
+    const gameRoomId = parseGameId(data?.gameRoomId);
+
+    const forfeitingPlayerId = getAuthedPlayer(context);
+    if (!forfeitingPlayerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!gameRoomId) {
+      return { success: false, error: 'Invalid game' };
+    }
 
     console.log(
       `[processForfeit] Player ${forfeitingPlayerId} forfeiting game ${gameRoomId}`
     );
 
     try {
-      const gameRef = admin.database().ref(`games/${gameRoomId}`);
-      const gameSnapshot = await gameRef.once('value');
-      const game = gameSnapshot.val();
-
-      if (!game) {
-        return { success: false, error: 'Game not found' };
-      }
-
-      // Check if game is in a state where forfeit makes sense
-      if (game.status === 'finished') {
-        return { success: false, error: 'Game already finished' };
-      }
-
-      // Determine winner (opponent of forfeiting player)
-      const winner =
-        game.player1.odid === forfeitingPlayerId
-          ? game.player2?.odid
-          : game.player1.odid;
-
-      if (!winner) {
-        return { success: false, error: 'Could not determine winner' };
-      }
-
-      // Update game status to finished with winner
+      // Finish the game with the opponent as winner
       // This will trigger the processGamePayout function
-      await gameRef.update({
-        status: 'finished',
-        winner,
-        endedAt: Date.now(),
-        forfeitedBy: forfeitingPlayerId,
-      });
-
-      console.log(`[processForfeit] Game forfeited, winner: ${winner}`);
-      return { success: true, winner };
+      return await forfeitGame(gameRoomId, forfeitingPlayerId, 'quit');
     } catch (error: any) {
       console.error('[processForfeit] Error:', error);
       return { success: false, error: error.message };
@@ -510,155 +539,149 @@ export const processForfeit = functions.https.onCall(
 );
 
 // ============================================================
-// CANCEL MATCHMAKING (REFUND SINGLE DEPOSIT)
+// MATCHMAKING
 // ============================================================
 
-interface CancelMatchmakingData {
-  gameRoomId: string;
-  playerId: string;
-}
+// Queue pairing, cancellation/refunds and releasing players when games end
+export {
+  joinMatchmaking,
+  cancelMatchmaking,
+  matchWaitingPlayers,
+  countQueuedPlayers,
+  releasePlayersOnGameEnd,
+} from './matchmaking';
 
-/**
- * Cancel matchmaking and refund a player's deposit.
- * Used when a player leaves the queue before being matched.
- */
-export const cancelMatchmaking = functions.https.onCall(
-  async (data: CancelMatchmakingData, context) => {
-    const { gameRoomId, playerId } = data;
+// ============================================================
+// DEPOSIT DEADLINES
+// ============================================================
 
-    console.log(
-      `[cancelMatchmaking] Player ${playerId} canceling game ${gameRoomId}`
-    );
+// Cancel and refund paid rooms that aren't funded in time, and cool down the no-shows
+export { startDepositDeadline, enforceDepositDeadline, cancelUnfundedRooms } from './depositDeadlines';
 
-    try {
-      const gameRef = admin.database().ref(`games/${gameRoomId}`);
-      const gameSnapshot = await gameRef.once('value');
-      const game = gameSnapshot.val();
+// ============================================================
+// ENVIRONMENT
+// ============================================================
 
-      if (!game) {
-        // Game might have been cleaned up already
-        return { success: true, message: 'Game not found, nothing to refund' };
-      }
+// The cluster and escrow this server uses, checked by the app at startup
+export { getServerEnvironment } from './environment';
 
-      // Only allow cancellation if game hasn't started
-      if (game.status === 'playing' || game.status === 'finished') {
-        return { success: false, error: 'Cannot cancel - game in progress' };
-      }
+// ============================================================
+// STAKE TIERS
+// ============================================================
 
-      // Find this player's deposit
-      // For pending games, check both deposit slots since player1/player2 may not be set
-      const isPlayer1 = game.player1?.odid === playerId;
-      let deposit = isPlayer1
-        ? game.escrow?.player1Deposit
-        : game.escrow?.player2Deposit;
+// The server's tier table (free tier included); rooms are validated against it
+export { getStakeTiers } from './stakeTiers';
 
-      // If not found, also check the other slot (for pending games where player roles aren't set)
-      if (!deposit || deposit.amount === 0) {
-        deposit = isPlayer1
-          ? game.escrow?.player2Deposit
-          : game.escrow?.player1Deposit;
-      }
+// ============================================================
+// RATINGS
+// ============================================================
 
-      if (!deposit || deposit.amount === 0) {
-        return { success: true, message: 'No deposit to refund' };
-      }
+// Glicko-2 ratings, updated whenever a game finishes (forfeits included)
+export { updateRatingsOnGameEnd } from './ratings';
 
-      // Process refund - cap at the game's bet amount to prevent over-refunding
-      const escrowKeypair = getEscrowKeypair();
-      const gameBetAmount = game.betAmount || 0.01;
-      const maxRefundLamports = Math.round(gameBetAmount * LAMPORTS_PER_SOL);
+// ============================================================
+// PRIVATE CHALLENGES
+// ============================================================
 
-      // Use the smaller of: actual deposit amount or max allowed refund
-      const refundAmount = Math.min(deposit.amount, maxRefundLamports);
+// Invite-code rooms shared as wordduel:// links, and expiry of unjoined ones
+export { createChallenge, joinChallenge, expireChallenges } from './challenges';
 
-      console.log(`[cancelMatchmaking] Deposit amount: ${deposit.amount}, Max refund: ${maxRefundLamports}, Refunding: ${refundAmount}`);
+// ============================================================
+// REMATCHES
+// ============================================================
 
-      const refundSignature = await sendPayout(
-        escrowKeypair,
-        playerId,
-        refundAmount
-      );
+// Offer the last opponent another game; the room is only created on accept
+export { offerRematch, respondToRematch, withdrawRematch, expireRematchOffer } from './rematches';
 
-      // Update Firebase
-      await gameRef.update({
-        status: 'cancelled',
-        cancelledBy: playerId,
-        cancelledAt: Date.now(),
-        'escrow/status': 'refunded',
-        'escrow/refundTx': refundSignature,
-      });
+// ============================================================
+// PAYOUT JOBS
+// ============================================================
 
-      console.log(`[cancelMatchmaking] Refund complete: ${refundSignature}`);
-      return { success: true, refundSignature };
-    } catch (error: any) {
-      console.error('[cancelMatchmaking] Error:', error);
-      return { success: false, error: error.message };
-    }
-  }
-);
+// Retry payouts that didn't land, with backoff, without ever paying twice
+export { retryPayoutJob, retryStalledPayouts } from './payoutJobs';
 
 // ============================================================
-// SERVER-SIDE WORD SUBMISSION (ANTI-CHEAT)
+// PRESENCE
 // ============================================================
 
-interface SubmitWordData {
-  gameId: string;
-  playerId: string;
-  word: string;
-}
+// Forfeit players who disconnect mid-game and don't come back in time
+export { onPlayerDisconnect, checkPlayerPresence, forfeitDisconnectedPlayers } from './presence';
 
-/**
- * Calculate the score for a word based on its length.
- * Must match the client-side scoring exactly.
- */
-function calculateScore(word: string): number {
-  const length = word.length;
-  if (length < 3) return 0;
-
-  const scoreTable: { [key: number]: number } = {
-    3: 3,
-    4: 5,
-    5: 8,
-    6: 12,
-    7: 17,
-    8: 23,
-  };
-
-  if (length > 8) {
-    return 23 + (length - 8) * 6;
-  }
+// ============================================================
+// SIGN-IN WITH SOLANA
+// ============================================================
 
-  return scoreTable[length] || 0;
-}
+// Wallet signature sign-in; every other callable trusts context.auth.uid as the player
+export { requestSignInNonce, signInWithWallet } from './auth';
+
+// ============================================================
+// GAME STATE
+// ============================================================
+
+// Players signal they've loaded the game; only the server moves game status
+export { setPlayerReady } from './gameState';
+
+// ============================================================
+// GAME CLOCK
+// ============================================================
 
 /**
- * Check if a word can be formed from available letters.
+ * Start the server-side clock (and reveal the board) when a game starts playing.
+ * Triggered when game.status changes to 'playing'.
+ * Retried on failure, so a game can't be left in play without a clock.
  */
-function canFormWord(word: string, availableLetters: string[]): boolean {
-  const available = [...availableLetters]; // Make a copy
-  for (const char of word.toUpperCase()) {
-    const index = available.indexOf(char);
-    if (index === -1) {
-      return false;
+export const onGameStart = functions
+  .runWith({ failurePolicy: true })
+  .database.ref('/games/{gameId}/status')
+  .onUpdate(async (change, context) => {
+    const newStatus = change.after.val();
+    const previousStatus = change.before.val();
+
+    if (newStatus !== 'playing' || previousStatus === 'playing') {
+      return null;
     }
-    available.splice(index, 1);
-  }
-  return true;
+
+    await startGame(context.params.gameId);
+    return null;
+  });
+
+// Finish games at their deadline (task queue) with a scheduled sweep as backstop
+export { finishGameAtDeadline, finishExpiredGames } from './gameClock';
+
+// ============================================================
+// SERVER-SIDE WORD SUBMISSION (ANTI-CHEAT)
+// ============================================================
+
+interface SubmitWordData {
+  gameId: string;
+  word: string;
 }
 
 /**
  * Server-side word submission with full validation.
  * This prevents cheating by validating:
- * 1. Word can be formed from game's letter pool
- * 2. Word is a valid English word
- * 3. Word hasn't already been submitted by this player
- * 4. Score is calculated server-side
+ * 0. The game clock hasn't run out
+ * 1. Game was created under the rules this server implements
+ * 2. Word can be formed from game's letter pool
+ * 3. Word is a valid English word
+ * 4. Word hasn't already been submitted by this player
+ * 5. Score is calculated server-side
  */
 export const submitWord = functions.https.onCall(
   async (data: SubmitWordData, context) => {
-    const { gameId, playerId, word } = data;
+    const gameId = parseGameId(data?.gameId);
+    const word = data?.word;
 
-    if (!gameId || !playerId || !word) {
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!gameId) {
+      return { success: false, error: 'Invalid game' };
+    }
+
+    if (typeof word !== 'string' || !word) {
       return { success: false, error: 'Missing required fields' };
     }
 
@@ -680,6 +703,18 @@ export const submitWord = functions.https.onCall(
         return { success: false, error: 'Game is not in progress' };
       }
 
+      // Verify the game clock hasn't run out (with a small grace window for latency)
+      if (!isWithinGameClock(game.endsAt)) {
+        console.log(`[submitWord] REJECTED: Submitted after game ended`);
+        return { success: false, error: "Time's up" };
+      }
+
+      // Verify the game was created under the rules this server scores with
+      if (!isSupportedRulesVersion(game.rulesVersion)) {
+        console.log(`[submitWord] REJECTED: Unsupported rules version ${game.rulesVersion}`);
+        return { success: false, error: 'Game uses an unsupported rules version' };
+      }
+
       // Determine which player this is
       const isPlayer1 = game.player1?.odid === playerId;
       const isPlayer2 = game.player2?.odid === playerId;
@@ -692,22 +727,32 @@ export const submitWord = functions.https.onCall(
       const playerData = game[playerKey];
 
       // VALIDATION 1: Check word length
-      if (normalizedWord.length < 3) {
-        return { success: false, error: 'Word must be at least 3 letters' };
+      if (normalizedWord.length < MIN_WORD_LENGTH) {
+        return { success: false, error: `Word must be at least ${MIN_WORD_LENGTH} letters` };
       }
 
       // VALIDATION 2: Check if word can be formed from letters
-      const gameLetters = game.letters || [];
+      // Letters are regenerated from the server-held seed, never read from the room
+      const gameLetters = await loadGameLetters(gameId);
+      if (!gameLetters) {
+        console.error(`[submitWord] No seed stored for game ${gameId}`);
+        return { success: false, error: 'Game board unavailable' };
+      }
       if (!canFormWord(normalizedWord, gameLetters)) {
         console.log(`[submitWord] REJECTED: Cannot form "${normalizedWord}" from letters: ${gameLetters.join(',')}`);
         return { success: false, error: 'Word cannot be formed from available letters' };
       }
 
-      // VALIDATION 3: Check if word is valid English
-      if (!VALID_WORDS.has(normalizedWord.toLowerCase())) {
+      // VALIDATION 3: Check if word is valid English, and allowed by the room's word list
+      const wordStatus = checkWord(normalizedWord, game.wordList);
+      if (wordStatus === 'unknown') {
         console.log(`[submitWord] REJECTED: "${normalizedWord}" is not a valid word`);
         return { success: false, error: 'Not a valid English word' };
       }
+      if (wordStatus === 'blocked') {
+        console.log(`[submitWord] REJECTED: "${normalizedWord}" is blocked in word list ${game.wordList}`);
+        return { success: false, error: "That word isn't allowed in this game" };
+      }
 
       // VALIDATION 4: Check if word already submitted by this player
       const wordsFound = playerData.wordsFound || [];
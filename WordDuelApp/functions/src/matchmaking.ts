@@ -0,0 +1,685 @@
+/**
+ * Matchmaking
+ *
+ * Server-authoritative matchmaking. Clients never read or edit the queue
+ * themselves: they call joinMatchmaking / cancelMatchmaking and learn about
+ * their match through `activeGames/{playerId}`, which points at the room
+ * created for them.
+ *
+ * Database layout:
+ * - matchmaking/queues/{tierId}/{playerId}  Queue entry for each waiting wallet (one per wallet)
+ * - matchmaking/queueSizes/{tierId}         How many wallets are waiting in each tier
+ * - activeGames/{playerId}                  ID of the wallet's live game (waiting/ready/playing)
+ * - matchmakingCooldowns/{playerId}         Until when a wallet that missed a deposit can't queue
+ *
+ * A wallet is bound to a game by a transaction on its activeGames entry, so two
+ * concurrent matches can never claim the same waiting player, and a wallet can
+ * never be in two live games at once. Pairs are always claimed in the same
+ * (sorted) order so two matchers racing for the same two wallets can't deadlock.
+ *
+ * Players are paired by stake tier (stakeTiers.ts) - so SOL and USDC stakes
+ * always queue separately - and by rating (ratings.ts): only opponents within
+ * a rating window qualify, and the window widens the longer a player waits. A
+ * scheduled sweep re-runs matching so waiting players meet as windows widen.
+ *
+ * Private rooms opened with an invite code (challenges.ts) use the same rooms,
+ * claims and cancellation.
+ *
+ * A player who lets a paid room's deposit deadline pass without depositing
+ * (depositDeadlines.ts) sits out the public queue for NO_SHOW_COOLDOWN_MS.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+import { GAME_DURATION_MS, RULES_VERSION } from '../../shared/gameRules';
+import { getCurrencyMint, toBaseUnits } from '../../shared/environments';
+import { DICTIONARY_HASH, DICTIONARY_VERSION } from '../../shared/dictionaryData';
+import { createSeedCommitment, storeGameSeed } from './gameSeeds';
+import { OpenedEscrow, openGameEscrow } from './escrow';
+import { getPayoutJobSignature, queuePayoutJob } from './payoutJobs';
+import { SERVER_ENV } from './environment';
+import { TransitionUpdate, parseGameId, transitionGame } from './gameState';
+import { getAuthedPlayer } from './auth';
+import { getRating, isWithinRatingWindow } from './ratings';
+import { STAKE_TIERS, StakeTier, getStakeTier, isFreeTier } from './stakeTiers';
+import { EscrowOutcome } from '../../shared/escrowProgram';
+
+// ============================================================
+// TYPES & CONSTANTS
+// ============================================================
+
+export interface QueueEntry {
+  odid: string;
+  displayName: string;
+  tierId: string;       // Stake tier (see stakeTiers.ts)
+  joinedAt: number;
+}
+
+// Statuses in which a game still holds its players
+const LIVE_STATUSES = ['waiting', 'ready', 'playing'];
+
+// How long a player who never deposited into a matched room sits out the queue
+export const NO_SHOW_COOLDOWN_MS = 5 * 60 * 1000;
+
+const queueRef = (tierId: string, playerId: string) =>
+  admin.database().ref(`matchmaking/queues/${tierId}/${playerId}`);
+
+const activeGameRef = (playerId: string) =>
+  admin.database().ref(`activeGames/${playerId}`);
+
+const cooldownRef = (playerId: string) =>
+  admin.database().ref(`matchmakingCooldowns/${playerId}`);
+
+// ============================================================
+// ACTIVE GAME CLAIMS
+// ============================================================
+
+/**
+ * Get the ID of a player's live game, or null if they're free.
+ * Stale pointers (to finished, cancelled or deleted games) are cleared.
+ */
+export async function getActiveGame(playerId: string): Promise<string | null> {
+  const snapshot = await activeGameRef(playerId).once('value');
+  if (!snapshot.exists()) return null;
+
+  const gameId = snapshot.val() as string;
+  const statusSnapshot = await admin.database().ref(`games/${gameId}/status`).once('value');
+
+  if (LIVE_STATUSES.includes(statusSnapshot.val())) {
+    return gameId;
+  }
+
+  await releasePlayer(playerId, gameId);
+  return null;
+}
+
+/**
+ * Atomically bind a player to a game.
+ * Fails if the player is already bound to any game.
+ */
+export async function claimPlayer(playerId: string, gameId: string): Promise<boolean> {
+  const result = await activeGameRef(playerId).transaction((current) => {
+    if (current === null) return gameId;
+    return; // Already claimed - abort
+  });
+  return result.committed;
+}
+
+/**
+ * Release a player from a game (no-op if they're bound to a different game).
+ */
+export async function releasePlayer(playerId: string, gameId: string): Promise<void> {
+  await activeGameRef(playerId).transaction((current) => {
+    if (current === null || current === gameId) return null;
+    return current;
+  });
+}
+
+/**
+ * Claim two players for the same game, or neither.
+ */
+async function claimPair(playerA: string, playerB: string, gameId: string): Promise<boolean> {
+  // Always claim in the same order to avoid two matchers deadlocking
+  const [first, second] = [playerA, playerB].sort();
+
+  if (!(await claimPlayer(first, gameId))) {
+    return false;
+  }
+
+  if (!(await claimPlayer(second, gameId))) {
+    await releasePlayer(first, gameId);
+    return false;
+  }
+
+  return true;
+}
+
+// ============================================================
+// COOLDOWNS
+// ============================================================
+
+/**
+ * Keep a player out of the public queue for a while after they left a
+ * matched room without depositing.
+ *
+ * @returns When the cooldown ends
+ */
+export async function startMatchmakingCooldown(playerId: string, gameId: string): Promise<number> {
+  const until = Date.now() + NO_SHOW_COOLDOWN_MS;
+  await cooldownRef(playerId).set({ until, gameId });
+  return until;
+}
+
+/**
+ * Get when a player's matchmaking cooldown ends, or null if they're free to queue.
+ * Cooldowns that already ended are cleared.
+ */
+export async function getMatchmakingCooldown(playerId: string): Promise<number | null> {
+  const snapshot = await cooldownRef(playerId).child('until').once('value');
+  if (!snapshot.exists()) return null;
+
+  const until = snapshot.val() as number;
+  if (until > Date.now()) return until;
+
+  await cooldownRef(playerId).remove();
+  return null;
+}
+
+// ============================================================
+// QUEUE & ROOMS
+// ============================================================
+
+/**
+ * Remove a player's queue entry (if any), whichever tier it's in.
+ */
+export async function removeFromQueue(playerId: string): Promise<void> {
+  const updates: { [path: string]: null } = {};
+  for (const tier of STAKE_TIERS) {
+    updates[`${tier.id}/${playerId}`] = null;
+  }
+  await admin.database().ref('matchmaking/queues').update(updates);
+}
+
+/**
+ * Shorten a wallet address for display.
+ * Example: "7xKXtg...AbCd" instead of full address
+ */
+export function shortenAddress(address: string): string {
+  if (address.length <= 12) return address;
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * A player's starting state in a new room.
+ * Their rating is copied in so the opponent can see it.
+ */
+export function newPlayerState(
+  entry: Pick<QueueEntry, 'odid' | 'displayName'>,
+  rating: number,
+  now: number = Date.now()
+) {
+  return {
+    odid: entry.odid,
+    displayName: entry.displayName,
+    rating: Math.round(rating),
+    score: 0,
+    wordsFound: [],
+    isReady: false,
+    lastActivity: now,
+  };
+}
+
+/**
+ * Open the on-chain escrow for a paid room once both players are bound to it.
+ * Players can only deposit after this, so rooms are never shown as waiting
+ * for deposits without somewhere to send them.
+ */
+export async function openRoomEscrow(
+  gameId: string,
+  tier: StakeTier,
+  player1Id: string,
+  player2Id: string
+): Promise<OpenedEscrow> {
+  return openGameEscrow(
+    gameId,
+    player1Id,
+    player2Id,
+    toBaseUnits(tier.betAmount, tier.betCurrency),
+    tier.feeBps,
+    getCurrencyMint(SERVER_ENV, tier.betCurrency)
+  );
+}
+
+/**
+ * Create a room with player1 (and player2, if already known), at player1's stake tier.
+ * Nobody is bound to it yet - the caller claims the players.
+ *
+ * The board seed is generated server-side and only its hash is published
+ * on the room until play starts. A paid room's escrow isn't opened here:
+ * that waits until both players are claimed (see createMatchedRoom), so a
+ * room that loses its claims never leaves an escrow on chain.
+ *
+ * @returns The new game ID
+ */
+export async function createRoom(
+  player1: QueueEntry,
+  player2: QueueEntry | null
+): Promise<string> {
+  const tier = getStakeTier(player1.tierId);
+  if (!tier) {
+    throw new Error(`Unknown stake tier: ${player1.tierId}`);
+  }
+
+  const gameRef = admin.database().ref('games').push();
+  const gameId = gameRef.key!;
+  const { seed, seedHash } = createSeedCommitment();
+
+  // Store the secret first so the room never exists without a seed
+  await storeGameSeed(gameId, seed);
+
+  const [rating1, rating2] = await Promise.all([
+    getRating(player1.odid),
+    player2 ? getRating(player2.odid) : null,
+  ]);
+  const now = Date.now();
+
+  // The room exists before the claims so an activeGames pointer never
+  // points at a missing game
+  await gameRef.set({
+    id: gameId,
+    status: 'waiting',
+    createdAt: now,
+    seedHash,
+    rulesVersion: RULES_VERSION,
+    environment: SERVER_ENV.name,
+    dictionaryVersion: DICTIONARY_VERSION,
+    dictionaryHash: DICTIONARY_HASH,
+    wordList: tier.wordList,
+    durationMs: GAME_DURATION_MS,
+    stakeTier: tier.id,
+    betAmount: tier.betAmount,
+    betCurrency: tier.betCurrency,
+    feeBps: tier.feeBps,
+    player1: newPlayerState(player1, rating1.rating, now),
+    ...(player2 && rating2 ? { player2: newPlayerState(player2, rating2.rating, now) } : {}),
+    // Free games have nothing to hold in escrow
+    ...(isFreeTier(tier) ? {} : { escrow: { status: 'pending_deposits' } }),
+  });
+
+  return gameId;
+}
+
+/**
+ * Delete a room (and its seed) that nobody could be bound to.
+ * Its escrow is only opened once its players are bound, so there's nothing on chain to close.
+ */
+export async function discardRoom(gameId: string): Promise<void> {
+  await Promise.all([
+    admin.database().ref(`games/${gameId}`).remove(),
+    admin.database().ref(`gameSeeds/${gameId}`).remove(),
+  ]);
+}
+
+/**
+ * Create a room for two players and bind both of them to it.
+ * The waiting player becomes player1, the joining player becomes player2.
+ * A paid room's escrow is opened once both claims are won; if that fails
+ * the room is cancelled (which releases both players) and this throws.
+ *
+ * @returns The new game ID, or null if either player was claimed by another game
+ */
+export async function createMatchedRoom(
+  waiting: QueueEntry,
+  joining: QueueEntry
+): Promise<string | null> {
+  const gameId = await createRoom(waiting, joining);
+
+  if (!(await claimPair(waiting.odid, joining.odid, gameId))) {
+    console.log(`[createMatchedRoom] Claim failed, discarding game ${gameId}`);
+    await discardRoom(gameId);
+    return null;
+  }
+
+  const tier = getStakeTier(waiting.tierId)!;
+  if (!isFreeTier(tier)) {
+    try {
+      const escrow = await openRoomEscrow(gameId, tier, waiting.odid, joining.odid);
+      await admin.database().ref(`games/${gameId}/escrow`).update(escrow);
+    } catch (error: any) {
+      console.error(`[createMatchedRoom] Could not open escrow for game ${gameId}: ${error.message}`);
+      await cancelRoom(gameId, 'server');
+      throw new Error('Could not open the game escrow. Please try again.');
+    }
+  }
+
+  await Promise.all([removeFromQueue(waiting.odid), removeFromQueue(joining.odid)]);
+
+  console.log(`[createMatchedRoom] Matched ${waiting.odid} vs ${joining.odid} in game ${gameId}`);
+  return gameId;
+}
+
+/**
+ * Try to pair a queued player with the longest-waiting compatible opponent:
+ * same stake tier, and a rating inside the rating window.
+ *
+ * @returns The game ID if matched, or null if the player should keep waiting
+ */
+async function findMatch(entry: QueueEntry): Promise<string | null> {
+  const snapshot = await admin.database().ref(`matchmaking/queues/${entry.tierId}`).once('value');
+
+  const candidates: QueueEntry[] = [];
+  snapshot.forEach((child) => {
+    const candidate = child.val() as QueueEntry;
+    // Never pair a wallet with itself
+    if (candidate.odid !== entry.odid && child.key === candidate.odid) {
+      candidates.push(candidate);
+    }
+    return false;
+  });
+
+  // Longest-waiting opponent first
+  candidates.sort((a, b) => a.joinedAt - b.joinedAt);
+
+  const now = Date.now();
+  const { rating } = await getRating(entry.odid);
+
+  for (const opponent of candidates) {
+    const opponentRating = await getRating(opponent.odid);
+    if (
+      !isWithinRatingWindow(
+        { rating, joinedAt: entry.joinedAt },
+        { rating: opponentRating.rating, joinedAt: opponent.joinedAt },
+        now
+      )
+    ) {
+      continue; // Too far apart - for now
+    }
+
+    // Drop stale entries for wallets that are already in a game
+    if (await getActiveGame(opponent.odid)) {
+      await removeFromQueue(opponent.odid);
+      continue;
+    }
+
+    const gameId = await createMatchedRoom(opponent, entry);
+    if (gameId) return gameId;
+
+    // Someone else may have matched us in the meantime
+    const ownGame = await getActiveGame(entry.odid);
+    if (ownGame) return ownGame;
+  }
+
+  return null;
+}
+
+/**
+ * Cancel a room that hasn't started playing and refund every confirmed deposit.
+ * Idempotent: only the caller that flips the status to 'cancelled' refunds.
+ *
+ * The refund resolves the room's escrow through a payout job (which also
+ * closes the escrow, even if nobody deposited), so it's retried until it lands.
+ *
+ * @param cancelledBy - The player who backed out, or 'server'
+ * @param update - Optional check on the current room, returning extra fields
+ *                 to write (or null to leave the room alone)
+ * @returns Refund signatures by player ID (empty until the refund confirms),
+ *          or null if the room couldn't be cancelled
+ */
+export async function cancelRoom(
+  gameId: string,
+  cancelledBy: string,
+  update?: TransitionUpdate
+): Promise<{ [playerId: string]: string } | null> {
+  // Flip the status atomically so concurrent cancels can't double-refund
+  const game = await transitionGame(gameId, 'cancelled', (current) => {
+    const fields = update ? update(current) : {};
+    return fields && { ...fields, cancelledBy, cancelledAt: Date.now() };
+  });
+
+  if (!game) {
+    return null; // Playing, finished or already cancelled
+  }
+
+  if (!game.escrow?.address) {
+    return {}; // Free game, or the escrow was never opened
+  }
+
+  console.log(`[cancelRoom] Refunding escrow ${game.escrow.address} for game ${gameId}`);
+  await queuePayoutJob(gameId, 'refund', EscrowOutcome.Refund);
+
+  const signature = await getPayoutJobSignature(gameId);
+  const refunds: { [playerId: string]: string } = {};
+  for (const slot of ['player1', 'player2'] as const) {
+    const playerId = game[slot]?.odid;
+    if (signature && playerId && game.escrow[`${slot}Deposit`]) {
+      refunds[playerId] = signature;
+    }
+  }
+  return refunds;
+}
+
+// ============================================================
+// JOIN MATCHMAKING
+// ============================================================
+
+interface JoinMatchmakingData {
+  tierId: string;
+}
+
+/**
+ * Join the matchmaking queue.
+ * Pairs the player immediately if a compatible opponent is waiting;
+ * otherwise they stay queued until someone joins and is paired with them.
+ *
+ * Either way the player is notified through `activeGames/{playerId}`.
+ */
+export const joinMatchmaking = functions.https.onCall(
+  async (data: JoinMatchmakingData, context) => {
+    const tier = getStakeTier(data?.tierId);
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!tier) {
+      return { success: false, error: 'Unknown stake tier' };
+    }
+
+    console.log(`[joinMatchmaking] Player ${playerId} joining ${tier.id} queue, bet: ${tier.betAmount} ${tier.betCurrency}`);
+
+    try {
+      // A wallet can only be in one live game at a time
+      const activeGameId = await getActiveGame(playerId);
+      if (activeGameId) {
+        console.log(`[joinMatchmaking] REJECTED: Already in game ${activeGameId}`);
+        return { success: false, error: 'Already in a live game', gameId: activeGameId };
+      }
+
+      // Players who just left a matched room without depositing sit out for a while
+      const cooldownUntil = await getMatchmakingCooldown(playerId);
+      if (cooldownUntil) {
+        const minutes = Math.ceil((cooldownUntil - Date.now()) / 60000);
+        console.log(`[joinMatchmaking] REJECTED: Cooling down until ${new Date(cooldownUntil).toISOString()}`);
+        return {
+          success: false,
+          error: `You missed the deposit in your last match. You can search again in ${minutes} min.`,
+          cooldownUntil,
+        };
+      }
+
+      const entry: QueueEntry = {
+        odid: playerId,
+        displayName: shortenAddress(playerId),
+        tierId: tier.id,
+        joinedAt: Date.now(),
+      };
+
+      // One queue entry per wallet: leave any other tier first
+      await removeFromQueue(playerId);
+
+      // Enqueue before searching, so two players joining at the same time
+      // always see at least one another
+      await queueRef(tier.id, playerId).set(entry);
+
+      const gameId = await findMatch(entry);
+      console.log(`[joinMatchmaking] ${gameId ? `Matched in game ${gameId}` : 'Waiting in queue'}`);
+
+      return { success: true, gameId };
+    } catch (error: any) {
+      console.error('[joinMatchmaking] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// ============================================================
+// CANCEL MATCHMAKING (LEAVE QUEUE / CANCEL ROOM + REFUND)
+// ============================================================
+
+interface CancelMatchmakingData {
+  gameRoomId?: string; // Defaults to the player's active game
+}
+
+/**
+ * Leave matchmaking.
+ * Removes the player from the queue and, if they've already been matched
+ * into a room that hasn't started, cancels it and refunds every deposit.
+ */
+export const cancelMatchmaking = functions.https.onCall(
+  async (data: CancelMatchmakingData, context) => {
+    const gameRoomId = data?.gameRoomId == null ? undefined : parseGameId(data.gameRoomId);
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (gameRoomId === null) {
+      return { success: false, error: 'Invalid game' };
+    }
+
+    console.log(
+      `[cancelMatchmaking] Player ${playerId} canceling ${gameRoomId ? `game ${gameRoomId}` : 'matchmaking'}`
+    );
+
+    try {
+      await removeFromQueue(playerId);
+
+      const gameId = gameRoomId || (await getActiveGame(playerId));
+      if (!gameId) {
+        return { success: true, message: 'Left matchmaking queue' };
+      }
+
+      const gameSnapshot = await admin.database().ref(`games/${gameId}`).once('value');
+      const game = gameSnapshot.val();
+
+      if (!game) {
+        // Game might have been cleaned up already
+        await releasePlayer(playerId, gameId);
+        return { success: true, message: 'Game not found, nothing to refund' };
+      }
+
+      if (game.player1?.odid !== playerId && game.player2?.odid !== playerId) {
+        return { success: false, error: 'Player is not part of this game' };
+      }
+
+      if (game.status === 'cancelled') {
+        return { success: true, message: 'Game already cancelled' };
+      }
+
+      // Only allow cancellation if game hasn't started
+      const refunds = await cancelRoom(gameId, playerId);
+      if (!refunds) {
+        return { success: false, error: 'Cannot cancel - game in progress' };
+      }
+
+      console.log(`[cancelMatchmaking] Game ${gameId} cancelled`);
+      return { success: true, refundSignature: refunds[playerId] };
+    } catch (error: any) {
+      console.error('[cancelMatchmaking] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// ============================================================
+// MATCH WAITING PLAYERS
+// ============================================================
+
+/**
+ * Re-run matching for everyone in the queue.
+ * Rating windows widen while players wait, so two players who were too far
+ * apart when they joined may be a fair match a minute later.
+ */
+export const matchWaitingPlayers = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const snapshot = await admin.database().ref('matchmaking/queues').once('value');
+
+    const entries: QueueEntry[] = [];
+    snapshot.forEach((tierQueue) => {
+      tierQueue.forEach((child) => {
+        const entry = child.val() as QueueEntry;
+        if (child.key === entry?.odid && entry.tierId === tierQueue.key) entries.push(entry);
+        return false;
+      });
+      return false;
+    });
+
+    // Longest-waiting players get first pick
+    entries.sort((a, b) => a.joinedAt - b.joinedAt);
+
+    let matched = 0;
+    for (const entry of entries) {
+      // Skip players matched earlier in this sweep
+      const stillQueued = await queueRef(entry.tierId, entry.odid).once('value');
+      if (!stillQueued.exists()) continue;
+
+      if (await getActiveGame(entry.odid)) {
+        await removeFromQueue(entry.odid);
+        continue;
+      }
+
+      try {
+        if (await findMatch(entry)) matched++;
+      } catch (error: any) {
+        // e.g. the escrow couldn't be opened - try again on the next sweep
+        console.error(`[matchWaitingPlayers] Matching ${entry.odid} failed: ${error.message}`);
+      }
+    }
+
+    if (matched > 0) {
+      console.log(`[matchWaitingPlayers] Matched ${matched} waiting player(s)`);
+    }
+    return null;
+  });
+
+// ============================================================
+// QUEUE SIZES
+// ============================================================
+
+/**
+ * Keep `matchmaking/queueSizes/{tierId}` in step with each tier's queue,
+ * so players can see how busy a tier is before they pick it.
+ */
+export const countQueuedPlayers = functions.database
+  .ref('/matchmaking/queues/{tierId}/{playerId}')
+  .onWrite(async (change, context) => {
+    const delta = (change.after.exists() ? 1 : 0) - (change.before.exists() ? 1 : 0);
+    if (delta === 0) return null;
+
+    await admin
+      .database()
+      .ref(`matchmaking/queueSizes/${context.params.tierId}`)
+      .transaction((size) => Math.max(0, (size || 0) + delta));
+    return null;
+  });
+
+// ============================================================
+// RELEASE PLAYERS WHEN A GAME ENDS
+// ============================================================
+
+/**
+ * Free both players for matchmaking once their game is over.
+ * Triggered when game.status changes to 'finished' or 'cancelled'.
+ */
+export const releasePlayersOnGameEnd = functions.database
+  .ref('/games/{gameId}/status')
+  .onUpdate(async (change, context) => {
+    const newStatus = change.after.val();
+    const previousStatus = change.before.val();
+    const gameId = context.params.gameId;
+
+    if ((newStatus !== 'finished' && newStatus !== 'cancelled') || newStatus === previousStatus) {
+      return null;
+    }
+
+    const gameSnapshot = await admin.database().ref(`games/${gameId}`).once('value');
+    const game = gameSnapshot.val();
+    const playerIds: string[] = [game?.player1?.odid, game?.player2?.odid].filter(Boolean);
+
+    await Promise.all(playerIds.map((playerId) => releasePlayer(playerId, gameId)));
+    return null;
+  });
@@ -0,0 +1,406 @@
+/**
+ * Payout Jobs
+ *
+ * Money leaves a game's on-chain escrow (see escrow.ts) through a payout job:
+ * one record per game, holding how to resolve the escrow - pay the winner
+ * (and the platform fee), or refund both deposits.
+ *
+ * A job moves through:
+ *   queued → sent → confirmed
+ *                 ↘ failed (after MAX_ATTEMPTS)
+ *
+ * and is built so a game is paid at most once:
+ * - The job is created in a transaction, so a retriggered payout finds the
+ *   existing job instead of starting another
+ * - Only the holder of the job's lock (a lease that expires if the function
+ *   dies) may work on it
+ * - The transaction's signature is recorded *before* it's broadcast. Every
+ *   retry first asks the chain whether that signature landed, re-broadcasts
+ *   the same transaction while its blockhash is still valid, and only signs
+ *   a new one once the old one can no longer land (one that's already been
+ *   processed in a block still can, however old its blockhash).
+ * - On top of that, the program closes an escrow once it's resolved, so even
+ *   a second resolve transaction could never pay out twice.
+ *
+ * Failed attempts retry with exponential backoff through a task queue, with
+ * a periodic sweep as a safety net in case a retry couldn't be scheduled.
+ *
+ * Database layout:
+ * - payoutJobs/{gameId}  The game's payout job (server-only)
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getFunctions } from 'firebase-admin/functions';
+import { randomBytes } from 'crypto';
+
+import { EscrowOutcomeValue } from '../../shared/escrowProgram';
+import {
+  SignedTransaction,
+  getTransactionStatus,
+  isBlockhashExpired,
+  sendSignedTransaction,
+  signResolution,
+} from './escrow';
+
+// ============================================================
+// TYPES & CONSTANTS
+// ============================================================
+
+export type PayoutJobStatus = 'queued' | 'sent' | 'confirmed' | 'failed';
+
+// 'payout' pays a winner, 'refund' returns deposits
+export type PayoutKind = 'payout' | 'refund';
+
+interface PayoutJob {
+  gameId: string;
+  kind: PayoutKind;
+  outcome: EscrowOutcomeValue;         // How the escrow is resolved
+  escrowUpdates: Record<string, any>; // Written to the game's escrow once confirmed
+  status: PayoutJobStatus;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  nextAttemptAt?: number | null;       // When the next retry is due (null once settled)
+  signed?: SignedTransaction | null;   // The transaction in flight, recorded before sending
+  confirmedAt?: number;
+  error?: string | null;               // Why the last attempt failed
+  lock?: { owner: string; expiresAt: number } | null;
+}
+
+// Give up (and flag the game for a human) after this many attempts
+const MAX_ATTEMPTS = 8;
+
+// Retry delays: 15s, 30s, 1m, 2m... capped at 30 minutes
+const BASE_BACKOFF_MS = 15 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+// Longer than the runner's timeout, so a live runner never loses its lock
+const LOCK_TTL_MS = 4 * 60 * 1000;
+
+// Name of the task queue function that runs retries
+const PAYOUT_QUEUE = 'retryPayoutJob';
+
+const jobRef = (gameId: string) =>
+  admin.database().ref(`payoutJobs/${gameId}`);
+
+/**
+ * How long to wait before the next attempt, after `attempts` tries.
+ */
+export function getPayoutBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1), MAX_BACKOFF_MS);
+}
+
+// ============================================================
+// QUEUEING
+// ============================================================
+
+/**
+ * Queue the payout for a game and make the first attempt straight away.
+ * Queueing twice is harmless: only the first job for a game is kept.
+ *
+ * @returns true if this call created the job
+ */
+export async function queuePayoutJob(
+  gameId: string,
+  kind: PayoutKind,
+  outcome: EscrowOutcomeValue,
+  escrowUpdates: Record<string, any> = {}
+): Promise<boolean> {
+  const now = Date.now();
+  const job: PayoutJob = {
+    gameId,
+    kind,
+    outcome,
+    escrowUpdates,
+    status: 'queued',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    nextAttemptAt: now,
+  };
+
+  const result = await jobRef(gameId).transaction((current) => {
+    if (current === null) return job;
+    return; // Already queued - abort
+  });
+
+  if (!result.committed) {
+    console.log(`[queuePayoutJob] Game ${gameId} already has a payout job`);
+    return false;
+  }
+
+  await admin.database().ref(`games/${gameId}/escrow/payoutStatus`).set('queued');
+  console.log(`[queuePayoutJob] Queued ${kind} for game ${gameId} (outcome ${outcome})`);
+
+  await runPayoutJob(gameId);
+  return true;
+}
+
+/**
+ * Schedule the next attempt of a job on the task queue.
+ */
+async function scheduleRetry(gameId: string, attempt: number, delayMs: number): Promise<void> {
+  try {
+    await getFunctions()
+      .taskQueue(PAYOUT_QUEUE)
+      .enqueue(
+        { gameId },
+        {
+          id: `payout-${gameId}-${attempt}`,
+          scheduleDelaySeconds: Math.ceil(delayMs / 1000),
+        }
+      );
+  } catch (error: any) {
+    // The sweep picks the job up once it's due
+    console.error(`[scheduleRetry] Failed to schedule payout retry for ${gameId}: ${error.message}`);
+  }
+}
+
+// ============================================================
+// LOCKING
+// ============================================================
+
+/**
+ * Take the lock on an unsettled job.
+ *
+ * @returns The job, or null if it's settled, missing or locked by a live runner
+ */
+async function claimJob(gameId: string, owner: string): Promise<PayoutJob | null> {
+  let claimed: PayoutJob | null = null;
+
+  const result = await jobRef(gameId).transaction((job) => {
+    // Transactions run first against the local cache, which may be empty
+    claimed = null;
+    if (job === null) return null;
+
+    const now = Date.now();
+    if (job.status === 'confirmed' || job.status === 'failed') return; // Abort
+    if (job.lock && job.lock.expiresAt > now) return; // Abort
+
+    claimed = {
+      ...job,
+      attempts: (job.attempts || 0) + 1,
+      updatedAt: now,
+      lock: { owner, expiresAt: now + LOCK_TTL_MS },
+    };
+    return claimed;
+  });
+
+  return result.committed ? claimed : null;
+}
+
+/**
+ * Update a job we hold the lock on.
+ *
+ * @returns false if we lost the lock (in which case nothing was written)
+ */
+async function saveJob(
+  gameId: string,
+  owner: string,
+  updates: Partial<PayoutJob>
+): Promise<boolean> {
+  let owned = false;
+
+  const result = await jobRef(gameId).transaction((job) => {
+    owned = false;
+    if (job === null) return null;
+    if (job.lock?.owner !== owner) return; // Abort
+
+    owned = true;
+    return { ...job, ...updates, updatedAt: Date.now() };
+  });
+  return result.committed && owned;
+}
+
+// ============================================================
+// RUNNING A JOB
+// ============================================================
+
+/**
+ * Make sure the job's resolve transaction lands on chain exactly once.
+ * Throws if this attempt didn't get there; the job keeps whatever it
+ * recorded (e.g. the signature in flight, also set on `job.signed`) for
+ * the next attempt.
+ *
+ * @returns The signature of the landed transaction, or null if the escrow
+ *          was closed without it (a player claimed a timeout refund)
+ */
+async function settleEscrow(job: PayoutJob, owner: string): Promise<string | null> {
+  const previous = job.signed;
+
+  // A transaction from an earlier attempt may already have landed
+  if (previous) {
+    const status = await getTransactionStatus(previous.signature);
+    if (status === 'confirmed') {
+      console.log(`[runPayoutJob] ${job.gameId}: ${previous.signature} already landed`);
+      return previous.signature;
+    }
+
+    const pending = status === 'not_found' || status === 'processed';
+    if (pending && !(await isBlockhashExpired(previous.lastValidBlockHeight))) {
+      // Still able to land - send the very same transaction again
+      console.log(`[runPayoutJob] ${job.gameId}: re-broadcasting ${previous.signature}`);
+      await sendSignedTransaction(previous);
+      return previous.signature;
+    }
+
+    if (status === 'processed') {
+      // Already in a block, so it can still confirm - never sign a second one alongside it
+      throw new Error(`${previous.signature} is processed but not yet confirmed`);
+    }
+
+    console.log(`[runPayoutJob] ${job.gameId}: ${previous.signature} can no longer land, signing a new one`);
+  }
+
+  const signed = await signResolution(job.gameId, job.outcome);
+  if (!signed) {
+    // The escrow is closed - possibly by the earlier transaction, confirming since we checked
+    if (previous && (await getTransactionStatus(previous.signature)) === 'confirmed') {
+      console.log(`[runPayoutJob] ${job.gameId}: ${previous.signature} landed and closed the escrow`);
+      return previous.signature;
+    }
+    return null;
+  }
+
+  // Record the signature before broadcasting, so no retry can ever lose track of it
+  if (!(await saveJob(job.gameId, owner, { status: 'sent', signed }))) {
+    throw new Error('Lost the payout lock before sending');
+  }
+  job.signed = signed;
+  await admin.database().ref(`games/${job.gameId}/escrow/payoutStatus`).set('sent');
+
+  await sendSignedTransaction(signed);
+  return signed.signature;
+}
+
+/**
+ * Run one attempt of a game's payout job, if it's due and nobody else is on it.
+ * Never throws: failures are recorded on the job and retried with backoff.
+ */
+export async function runPayoutJob(gameId: string): Promise<void> {
+  const owner = randomBytes(8).toString('hex');
+  const job = await claimJob(gameId, owner);
+  if (!job) return;
+
+  const escrowRef = admin.database().ref(`games/${gameId}/escrow`);
+
+  try {
+    const signature = await settleEscrow(job, owner);
+    const now = Date.now();
+
+    if (!signature) {
+      // Nothing left to pay out, so there's no point retrying
+      const error = 'Escrow was closed on chain before it could be resolved';
+      console.error(`[runPayoutJob] ${job.kind} for game ${gameId}: ${error}`);
+      await saveJob(gameId, owner, { status: 'failed', error, nextAttemptAt: null, lock: null });
+      await escrowRef.update({ payoutStatus: 'failed', payoutError: error, payoutAttemptedAt: now });
+      return;
+    }
+
+    await saveJob(gameId, owner, {
+      status: 'confirmed',
+      confirmedAt: now,
+      nextAttemptAt: null,
+      error: null,
+      lock: null,
+    });
+
+    const result =
+      job.kind === 'payout'
+        ? { status: 'paid_out', payoutTx: signature, paidOutAt: now }
+        : { status: 'refunded', refundTx: signature, refundedAt: now };
+    await escrowRef.update({
+      ...job.escrowUpdates,
+      ...result,
+      payoutStatus: 'confirmed',
+      payoutError: null,
+    });
+
+    console.log(`[runPayoutJob] ${job.kind} for game ${gameId} confirmed: ${signature}`);
+  } catch (error: any) {
+    const now = Date.now();
+    const giveUp = job.attempts >= MAX_ATTEMPTS;
+    const delayMs = getPayoutBackoffMs(job.attempts);
+
+    console.error(
+      `[runPayoutJob] Attempt ${job.attempts} for game ${gameId} failed: ${error.message}` +
+        (giveUp ? ' - giving up' : ` - retrying in ${Math.round(delayMs / 1000)}s`)
+    );
+
+    // Keep whatever's been sent, so the next attempt checks the chain first
+    const saved = await saveJob(gameId, owner, {
+      status: giveUp ? 'failed' : job.signed ? 'sent' : 'queued',
+      error: error.message,
+      nextAttemptAt: giveUp ? null : now + delayMs,
+      lock: null,
+    });
+
+    await escrowRef.update({
+      payoutError: error.message,
+      payoutAttemptedAt: now,
+      ...(giveUp ? { payoutStatus: 'failed' } : {}),
+    });
+
+    if (saved && !giveUp) {
+      await scheduleRetry(gameId, job.attempts + 1, delayMs);
+    }
+  }
+}
+
+/**
+ * Get the signature that settled a game's payout job, once it's confirmed.
+ */
+export async function getPayoutJobSignature(gameId: string): Promise<string | null> {
+  const job: PayoutJob | null = (await jobRef(gameId).once('value')).val();
+  return job?.status === 'confirmed' ? job.signed?.signature ?? null : null;
+}
+
+// ============================================================
+// RETRIES
+// ============================================================
+
+/**
+ * Run a payout job retry (scheduled with backoff by a failed attempt).
+ */
+export const retryPayoutJob = functions
+  .runWith({ timeoutSeconds: 180 })
+  .tasks.taskQueue({
+    retryConfig: { maxAttempts: 3, minBackoffSeconds: 30 },
+    rateLimits: { maxConcurrentDispatches: 10 },
+  })
+  .onDispatch(async (data: { gameId: string }) => {
+    await runPayoutJob(data.gameId);
+  });
+
+/**
+ * Safety net: retry any unsettled job whose next attempt is overdue
+ * (e.g. because scheduling its retry failed, or its runner died mid-attempt).
+ */
+export const retryStalledPayouts = functions
+  .runWith({ timeoutSeconds: 540 })
+  .pubsub.schedule('every 10 minutes')
+  .onRun(async () => {
+    const snapshot = await admin
+      .database()
+      .ref('payoutJobs')
+      .orderByChild('nextAttemptAt')
+      .startAt(1)
+      .endAt(Date.now())
+      .once('value');
+
+    const gameIds: string[] = [];
+    snapshot.forEach((child) => {
+      gameIds.push(child.key!);
+      return false;
+    });
+
+    for (const gameId of gameIds) {
+      await runPayoutJob(gameId);
+    }
+
+    if (gameIds.length > 0) {
+      console.log(`[retryStalledPayouts] Retried ${gameIds.length} overdue payout job(s)`);
+    }
+    return null;
+  });
@@ -0,0 +1,140 @@
+/**
+ * Presence
+ *
+ * Detects players who leave a game mid-play and forfeits them, so their
+ * opponent never waits on a game that can't finish fairly.
+ *
+ * Clients keep two fields fresh on their own player slot:
+ * - `connected`     true while their socket is up; an onDisconnect handler
+ *                   flips it to false the moment the connection drops
+ * - `lastActivity`  a heartbeat every HEARTBEAT_INTERVAL_MS
+ *
+ * A player is gone once their heartbeat is older than DISCONNECT_GRACE_MS.
+ * The grace period lets a flaky connection reconnect without losing the game.
+ *
+ * When `connected` flips to false, a task checks back after the grace period.
+ * A scheduled sweep also checks every game in play, which catches apps that
+ * froze without dropping their socket.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getFunctions } from 'firebase-admin/functions';
+
+import { DISCONNECT_GRACE_MS } from '../../shared/gameRules';
+import { forfeitGame } from './gameState';
+
+// Name of the task queue function that re-checks a disconnected player
+const PRESENCE_CHECK_QUEUE = 'checkPlayerPresence';
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+/**
+ * Find the player who has gone silent past the grace period.
+ * Returns null if both are present, or if both are gone (the clock will
+ * finish that game instead - there's nobody to award it to).
+ */
+export function findDisconnectedPlayer(game: any, now: number = Date.now()): string | null {
+  const isGone = (player: any) =>
+    !!player && now - (player.lastActivity || 0) > DISCONNECT_GRACE_MS;
+
+  const player1Gone = isGone(game.player1);
+  const player2Gone = isGone(game.player2);
+
+  if (player1Gone === player2Gone) return null;
+  return player1Gone ? game.player1.odid : game.player2.odid;
+}
+
+/**
+ * Forfeit a game's disconnected player, if it has one.
+ *
+ * @returns true if a player was forfeited
+ */
+export async function checkGamePresence(gameId: string): Promise<boolean> {
+  const snapshot = await admin.database().ref(`games/${gameId}`).once('value');
+  const game = snapshot.val();
+
+  if (!game || game.status !== 'playing') return false;
+
+  const disconnectedPlayer = findDisconnectedPlayer(game);
+  if (!disconnectedPlayer) return false;
+
+  console.log(`[checkGamePresence] ${disconnectedPlayer} disconnected from game ${gameId}`);
+  const result = await forfeitGame(gameId, disconnectedPlayer, 'disconnected');
+  return result.success;
+}
+
+// ============================================================
+// TRIGGERS
+// ============================================================
+
+/**
+ * When a player's connection drops mid-game, check back once the grace period is over.
+ */
+export const onPlayerDisconnect = functions.database
+  .ref('/games/{gameId}/{playerKey}/connected')
+  .onUpdate(async (change, context) => {
+    const { gameId, playerKey } = context.params;
+
+    if (playerKey !== 'player1' && playerKey !== 'player2') return null;
+    if (change.after.val() !== false || change.before.val() === false) return null;
+
+    const statusSnapshot = await admin.database().ref(`games/${gameId}/status`).once('value');
+    if (statusSnapshot.val() !== 'playing') return null;
+
+    console.log(`[onPlayerDisconnect] ${playerKey} dropped from game ${gameId}`);
+
+    try {
+      await getFunctions()
+        .taskQueue(PRESENCE_CHECK_QUEUE)
+        .enqueue({ gameId }, { scheduleDelaySeconds: Math.ceil(DISCONNECT_GRACE_MS / 1000) + 1 });
+    } catch (error: any) {
+      // The scheduled sweep will still catch it
+      console.error(`[onPlayerDisconnect] Failed to schedule presence check: ${error.message}`);
+    }
+    return null;
+  });
+
+/**
+ * Task queue handler: re-check a game after a player dropped.
+ */
+export const checkPlayerPresence = functions.tasks
+  .taskQueue({
+    retryConfig: { maxAttempts: 3, minBackoffSeconds: 5 },
+    rateLimits: { maxConcurrentDispatches: 50 },
+  })
+  .onDispatch(async (data: { gameId: string }) => {
+    await checkGamePresence(data.gameId);
+  });
+
+/**
+ * Backstop sweep: forfeit disconnected players in every game in play.
+ */
+export const forfeitDisconnectedPlayers = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const snapshot = await admin
+      .database()
+      .ref('games')
+      .orderByChild('status')
+      .equalTo('playing')
+      .once('value');
+
+    const gameIds: string[] = [];
+    snapshot.forEach((child) => {
+      gameIds.push(child.key!);
+      return false;
+    });
+
+    let forfeited = 0;
+    for (const gameId of gameIds) {
+      if (await checkGamePresence(gameId)) forfeited++;
+    }
+
+    if (forfeited > 0) {
+      console.log(`[forfeitDisconnectedPlayers] Forfeited ${forfeited} game(s)`);
+    }
+    return null;
+  });
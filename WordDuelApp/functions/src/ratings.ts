@@ -0,0 +1,142 @@
+/**
+ * Ratings
+ *
+ * Every wallet has a Glicko-2 rating (see glicko.ts), updated when one of its
+ * games finishes - whether the clock ran out or someone forfeited. Ties count
+ * as half a win each.
+ *
+ * Matchmaking uses ratings to keep new players away from veterans: a queued
+ * player is only paired within a rating window, which widens the longer they
+ * wait so nobody waits forever.
+ *
+ * Database layout:
+ * - ratings/{playerId}  The wallet's current rating (readable by its owner)
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+import { DEFAULT_RATING, Rating, updateRating } from './glicko';
+
+// ============================================================
+// TYPES & CONSTANTS
+// ============================================================
+
+export interface PlayerRating extends Rating {
+  gamesPlayed: number;
+  updatedAt: number;
+}
+
+// Rating difference allowed the moment a player joins the queue
+const BASE_RATING_WINDOW = 100;
+
+// How much the window widens for every 10 seconds spent waiting
+const RATING_WINDOW_GROWTH = 25;
+
+const ratingRef = (playerId: string) =>
+  admin.database().ref(`ratings/${playerId}`);
+
+// ============================================================
+// LOOKUP & WINDOW
+// ============================================================
+
+/**
+ * Get a player's rating (the starting rating if they've never finished a game).
+ */
+export async function getRating(playerId: string): Promise<PlayerRating> {
+  const snapshot = await ratingRef(playerId).once('value');
+  return snapshot.val() || { ...DEFAULT_RATING, gamesPlayed: 0, updatedAt: 0 };
+}
+
+/**
+ * How far apart two ratings may be for a player who has waited this long.
+ */
+export function getRatingWindow(waitedMs: number): number {
+  return BASE_RATING_WINDOW + RATING_WINDOW_GROWTH * Math.floor(Math.max(0, waitedMs) / 10000);
+}
+
+/**
+ * Check whether two queued players are close enough in rating to be paired.
+ * The longer-waiting player's (wider) window decides.
+ */
+export function isWithinRatingWindow(
+  a: { rating: number; joinedAt: number },
+  b: { rating: number; joinedAt: number },
+  now: number = Date.now()
+): boolean {
+  const window = getRatingWindow(now - Math.min(a.joinedAt, b.joinedAt));
+  return Math.abs(a.rating - b.rating) <= window;
+}
+
+// ============================================================
+// UPDATE AFTER A GAME
+// ============================================================
+
+/**
+ * Rate both players of a finished game.
+ * Runs at most once per game, guarded by `ratingsApplied` on the room.
+ * The claim is given back if rating fails, so a retry can still apply it.
+ *
+ * @returns true if this call applied the ratings
+ */
+export async function applyGameRatings(gameId: string): Promise<boolean> {
+  const gameRef = admin.database().ref(`games/${gameId}`);
+  const snapshot = await gameRef.once('value');
+  const game = snapshot.val();
+
+  const player1: string | undefined = game?.player1?.odid;
+  const player2: string | undefined = game?.player2?.odid;
+  if (!game || game.status !== 'finished' || !player1 || !player2) {
+    return false;
+  }
+
+  // Claim the update so a retried trigger can't rate the same game twice
+  const claim = await gameRef.child('ratingsApplied').transaction((current) => {
+    if (current === null) return true;
+    return; // Already rated - abort
+  });
+  if (!claim.committed) {
+    return false;
+  }
+
+  // No winner means a tie
+  const player1Score = !game.winner ? 0.5 : game.winner === player1 ? 1 : 0;
+
+  try {
+    const [rating1, rating2] = await Promise.all([getRating(player1), getRating(player2)]);
+    const next1 = updateRating(rating1, [{ opponent: rating2, score: player1Score }]);
+    const next2 = updateRating(rating2, [{ opponent: rating1, score: 1 - player1Score }]);
+
+    const now = Date.now();
+    await admin.database().ref().update({
+      [`ratings/${player1}`]: { ...next1, gamesPlayed: (rating1.gamesPlayed || 0) + 1, updatedAt: now },
+      [`ratings/${player2}`]: { ...next2, gamesPlayed: (rating2.gamesPlayed || 0) + 1, updatedAt: now },
+    });
+
+    console.log(
+      `[applyGameRatings] Game ${gameId}: ${player1} ${Math.round(rating1.rating)} → ${Math.round(next1.rating)}, ` +
+        `${player2} ${Math.round(rating2.rating)} → ${Math.round(next2.rating)}`
+    );
+    return true;
+  } catch (error) {
+    // Nothing was written, so give the claim back for the retried trigger
+    await gameRef.child('ratingsApplied').remove();
+    throw error;
+  }
+}
+
+/**
+ * Update both players' ratings when a game finishes (including by forfeit).
+ * Retried on failure, so a game's rating change is never lost.
+ */
+export const updateRatingsOnGameEnd = functions
+  .runWith({ failurePolicy: true })
+  .database.ref('/games/{gameId}/status')
+  .onUpdate(async (change, context) => {
+    if (change.after.val() !== 'finished' || change.before.val() === 'finished') {
+      return null;
+    }
+
+    await applyGameRatings(context.params.gameId);
+    return null;
+  });
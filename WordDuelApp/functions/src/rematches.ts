@@ -0,0 +1,313 @@
+/**
+ * Rematches
+ *
+ * After a game, either player can offer the other a rematch at the same stake.
+ * No room exists while the offer is open - it's only created (with a fresh
+ * seed) once the opponent accepts, so an offer that's declined, withdrawn or
+ * left to lapse never leaves a 'waiting' room behind.
+ *
+ * An offer moves pending → accepted | declined | withdrawn | expired, exactly
+ * once, by transaction. Once accepted, `gameId` points at the new room and
+ * both players go through the usual deposit flow for it.
+ *
+ * Database layout:
+ * - rematchOffers/{previousGameId}  The offer made after that game (readable by both players)
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getFunctions } from 'firebase-admin/functions';
+
+import { QueueEntry, createMatchedRoom, getActiveGame, shortenAddress } from './matchmaking';
+import { getAuthedPlayer } from './auth';
+import { parseGameId } from './gameState';
+import { StakeCurrency, getRoomTier } from './stakeTiers';
+
+// ============================================================
+// TYPES & CONSTANTS
+// ============================================================
+
+type RematchStatus = 'pending' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+
+interface RematchOffer {
+  fromId: string;
+  toId: string;
+  stakeTier: string;
+  betAmount: number;     // The tier's stake, for display
+  betCurrency: StakeCurrency;
+  createdAt: number;
+  expiresAt: number;
+  status: RematchStatus;
+  gameId?: string;       // The new room, once accepted
+  error?: string;        // Why an accepted offer couldn't start a game
+}
+
+// How long the opponent has to answer
+const REMATCH_OFFER_TTL_MS = 30 * 1000;
+
+// Name of the task queue function that lapses unanswered offers
+const EXPIRE_OFFER_QUEUE = 'expireRematchOffer';
+
+const offerRef = (previousGameId: string) =>
+  admin.database().ref(`rematchOffers/${previousGameId}`);
+
+// ============================================================
+// OFFER STATE
+// ============================================================
+
+/**
+ * Move a pending offer to its final status.
+ *
+ * @param guard - Optional extra check on the current offer (false aborts)
+ * @returns The offer after the change, or null if it wasn't pending (or the guard refused)
+ */
+async function settleOffer(
+  previousGameId: string,
+  to: Exclude<RematchStatus, 'pending'>,
+  guard?: (offer: RematchOffer) => boolean
+): Promise<RematchOffer | null> {
+  let applied = false;
+
+  const result = await offerRef(previousGameId).transaction((offer) => {
+    // Transactions run first against the local cache, which may be empty
+    applied = false;
+    if (offer === null) return null;
+
+    if (offer.status !== 'pending' || (guard && !guard(offer))) {
+      return; // Abort
+    }
+
+    applied = true;
+    return { ...offer, status: to, settledAt: Date.now() };
+  });
+
+  if (!result.committed || !applied) {
+    return null;
+  }
+
+  console.log(`[settleOffer] Rematch after ${previousGameId} is now ${to}`);
+  return result.snapshot.val();
+}
+
+/**
+ * Enqueue the task that lapses an offer nobody answered.
+ * A failure here is logged, not thrown - an expired offer can't be accepted either way.
+ */
+async function scheduleOfferExpiry(previousGameId: string, expiresAt: number): Promise<void> {
+  try {
+    await getFunctions()
+      .taskQueue(EXPIRE_OFFER_QUEUE)
+      .enqueue(
+        { previousGameId },
+        {
+          id: `rematch-${previousGameId}`,
+          // A second late, so the task never lands just before the deadline
+          scheduleTime: new Date(expiresAt + 1000),
+        }
+      );
+  } catch (error: any) {
+    console.error(`[scheduleOfferExpiry] Failed to schedule expiry for ${previousGameId}: ${error.message}`);
+  }
+}
+
+// ============================================================
+// OFFER
+// ============================================================
+
+interface OfferRematchData {
+  gameId: string; // The game that just finished
+}
+
+/**
+ * Offer the opponent from a finished game a rematch at the same stake.
+ * Only one offer can ever be made per game.
+ */
+export const offerRematch = functions.https.onCall(
+  async (data: OfferRematchData, context) => {
+    const gameId = parseGameId(data?.gameId);
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!gameId) {
+      return { success: false, error: 'Invalid game' };
+    }
+
+    try {
+      const gameSnapshot = await admin.database().ref(`games/${gameId}`).once('value');
+      const game = gameSnapshot.val();
+
+      if (!game) {
+        return { success: false, error: 'Game not found' };
+      }
+
+      const isPlayer1 = game.player1?.odid === playerId;
+      const isPlayer2 = game.player2?.odid === playerId;
+      if (!isPlayer1 && !isPlayer2) {
+        return { success: false, error: 'Player is not part of this game' };
+      }
+
+      if (game.status !== 'finished') {
+        return { success: false, error: 'Game has not finished' };
+      }
+
+      const tier = getRoomTier(game);
+      if (!tier) {
+        return { success: false, error: 'Game stake does not match any tier' };
+      }
+
+      const opponentId: string = isPlayer1 ? game.player2.odid : game.player1.odid;
+
+      // Neither player can be tied up in another game
+      if ((await getActiveGame(playerId)) || (await getActiveGame(opponentId))) {
+        return { success: false, error: 'A player is already in another game' };
+      }
+
+      const now = Date.now();
+      const offer: RematchOffer = {
+        fromId: playerId,
+        toId: opponentId,
+        stakeTier: tier.id,
+        betAmount: tier.betAmount,
+        betCurrency: tier.betCurrency,
+        createdAt: now,
+        expiresAt: now + REMATCH_OFFER_TTL_MS,
+        status: 'pending',
+      };
+
+      const result = await offerRef(gameId).transaction((current) => {
+        if (current === null) return offer;
+        return; // Already offered - abort
+      });
+
+      if (!result.committed) {
+        return { success: false, error: 'A rematch has already been offered' };
+      }
+
+      await scheduleOfferExpiry(gameId, offer.expiresAt);
+
+      console.log(`[offerRematch] ${playerId} offered ${opponentId} a rematch after ${gameId}`);
+      return { success: true, expiresAt: offer.expiresAt };
+    } catch (error: any) {
+      console.error('[offerRematch] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// ============================================================
+// RESPOND
+// ============================================================
+
+interface RespondToRematchData {
+  gameId: string; // The game the offer was made after
+  accept: boolean;
+}
+
+/**
+ * Accept or decline a rematch offer.
+ * Accepting creates a fresh room (new seed, same stake) for both players.
+ */
+export const respondToRematch = functions.https.onCall(
+  async (data: RespondToRematchData, context) => {
+    const gameId = parseGameId(data?.gameId);
+    const accept = data?.accept === true;
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!gameId) {
+      return { success: false, error: 'Invalid game' };
+    }
+
+    try {
+      const now = Date.now();
+      const offer = await settleOffer(
+        gameId,
+        accept ? 'accepted' : 'declined',
+        (current) => current.toId === playerId && now <= current.expiresAt
+      );
+
+      if (!offer) {
+        return { success: false, error: 'This rematch offer is no longer open' };
+      }
+
+      if (!accept) {
+        return { success: true };
+      }
+
+      const entry = (odid: string): QueueEntry => ({
+        odid,
+        displayName: shortenAddress(odid),
+        tierId: offer.stakeTier,
+        joinedAt: now,
+      });
+
+      // The player who offered hosts, like the longest-waiting player in the queue
+      const newGameId = await createMatchedRoom(entry(offer.fromId), entry(offer.toId));
+      if (!newGameId) {
+        const error = 'A player is already in another game';
+        await offerRef(gameId).update({ error });
+        return { success: false, error };
+      }
+
+      await offerRef(gameId).update({ gameId: newGameId });
+
+      console.log(`[respondToRematch] Rematch after ${gameId} is game ${newGameId}`);
+      return { success: true, gameId: newGameId };
+    } catch (error: any) {
+      console.error('[respondToRematch] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+// ============================================================
+// WITHDRAW & EXPIRE
+// ============================================================
+
+interface WithdrawRematchData {
+  gameId: string; // The game the offer was made after
+}
+
+/**
+ * Withdraw our own rematch offer before it's answered.
+ */
+export const withdrawRematch = functions.https.onCall(
+  async (data: WithdrawRematchData, context) => {
+    const gameId = parseGameId(data?.gameId);
+
+    const playerId = getAuthedPlayer(context);
+    if (!playerId) {
+      return { success: false, error: 'Sign in with your wallet first' };
+    }
+
+    if (!gameId) {
+      return { success: false, error: 'Invalid game' };
+    }
+
+    try {
+      const offer = await settleOffer(gameId, 'withdrawn', (current) => current.fromId === playerId);
+      return offer ? { success: true } : { success: false, error: 'No open rematch offer' };
+    } catch (error: any) {
+      console.error('[withdrawRematch] Error:', error);
+      return { success: false, error: error.message };
+    }
+  }
+);
+
+/**
+ * Task queue handler: lapse an offer that wasn't answered in time.
+ */
+export const expireRematchOffer = functions.tasks
+  .taskQueue({
+    retryConfig: { maxAttempts: 3, minBackoffSeconds: 5 },
+    rateLimits: { maxConcurrentDispatches: 50 },
+  })
+  .onDispatch(async (data: { previousGameId: string }) => {
+    await settleOffer(data.previousGameId, 'expired', (offer) => Date.now() >= offer.expiresAt);
+  });
@@ -0,0 +1,90 @@
+/**
+ * Stake Tiers
+ *
+ * The server's list of stakes a game can be played for. Players pick a tier
+ * before searching (or challenging a friend), each tier has its own queue,
+ * and every room records the tier it was created for.
+ *
+ * Anything that moves money checks the room against this table, so a room
+ * whose `betAmount` doesn't match its tier is refused rather than trusted.
+ *
+ * The free tier has no deposits at all: its games go straight to 'ready'
+ * once both players are in, and nothing is paid out.
+ *
+ * Paid tiers are staked in SOL or USDC, and each tier has its own queue, so
+ * players only ever meet opponents staking the same currency.
+ *
+ * Paid tiers charge a platform fee (in basis points) on the winner's payout.
+ * A room keeps the fee it was created with, so the prize a player saw
+ * before depositing is the prize they're paid.
+ *
+ * Each tier also picks the word list its games are played with (see
+ * shared/wordLists), and every room records it.
+ */
+
+import * as functions from 'firebase-functions';
+
+import { StakeCurrency, StakeTier } from '../../shared/environments';
+import { SERVER_ENV } from './environment';
+
+export type { StakeCurrency, StakeTier };
+
+// ============================================================
+// TIER TABLE
+// ============================================================
+
+// The tiers of the server's environment (see shared/environments.ts)
+export const STAKE_TIERS: StakeTier[] = SERVER_ENV.stakeTiers;
+
+// ============================================================
+// LOOKUPS
+// ============================================================
+
+/**
+ * Look up a tier by ID, or null if there's no such tier.
+ */
+export function getStakeTier(tierId: unknown): StakeTier | null {
+  return STAKE_TIERS.find((tier) => tier.id === tierId) || null;
+}
+
+/**
+ * Check whether a tier is played without deposits.
+ */
+export function isFreeTier(tier: StakeTier): boolean {
+  return tier.betAmount === 0;
+}
+
+/**
+ * Get the tier a room was created for, checking the room's stake against it.
+ *
+ * @returns The tier, or null if the room's tier is unknown or its stake was tampered with
+ */
+export function getRoomTier(game: any): StakeTier | null {
+  const tier = getStakeTier(game?.stakeTier);
+  if (!tier) return null;
+
+  if (game.betAmount !== tier.betAmount || (game.betCurrency || 'SOL') !== tier.betCurrency) {
+    return null;
+  }
+  return tier;
+}
+
+/**
+ * Get the platform fee a room was created with.
+ * Rooms from before fees existed fall back to their tier's current fee.
+ */
+export function getRoomFeeBps(game: any, tier: StakeTier): number {
+  return typeof game?.feeBps === 'number' ? game.feeBps : tier.feeBps;
+}
+
+// ============================================================
+// CALLABLES
+// ============================================================
+
+/**
+ * List the stake tiers players can choose from.
+ * Live queue sizes are published separately at `matchmaking/queueSizes/{tierId}`.
+ */
+export const getStakeTiers = functions.https.onCall(async () => {
+  return { success: true, tiers: STAKE_TIERS };
+});
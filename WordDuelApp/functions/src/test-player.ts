@@ -11,6 +11,11 @@
  *   win    - Test player wins (real player loses)
  *   lose   - Test player loses (real player wins)
  *   tie    - Both players tie (both get refunded)
+ *
+ * In paid tiers only the real player deposits into the on-chain escrow (the
+ * test player's deposit is faked in the database), so the program refuses
+ * to pay out a win either way. Use 'tie' to test the escrow end to end: it
+ * refunds the real player's deposit.
  *   forfeit - Game stays active so real player can forfeit (test player wins by forfeit)
  *
  * Example:
@@ -21,6 +26,14 @@
 import * as admin from 'firebase-admin';
 import * as path from 'path';
 import * as fs from 'fs';
+import { Keypair } from '@solana/web3.js';
+
+// Same room creation, board generation and seed reveal the Cloud Functions use
+import { startGame } from './gameClock';
+import { createMatchedRoom, QueueEntry } from './matchmaking';
+import { markGameReady, transitionGame } from './gameState';
+import { STAKE_TIERS, getStakeTier } from './stakeTiers';
+import { toBaseUnits } from '../../shared/environments';
 
 // Initialize Firebase Admin
 // Try service account first, then fall back to application default credentials
@@ -49,10 +62,9 @@ const db = admin.database();
 
 // Test player configuration
 const TEST_PLAYER = {
-  odid: 'TEST_PLAYER_' + Date.now(), // Unique test player ID
+  // A fresh, valid wallet address (escrows are opened for real addresses), never funded
+  odid: Keypair.generate().publicKey.toBase58(),
   displayName: 'TestBot',
-  // Use a real devnet address for payout testing (this is just a random valid address)
-  walletAddress: '11111111111111111111111111111111', // System program (won't actually receive)
 };
 
 // Get outcome from command line args
@@ -66,165 +78,72 @@ if (outcome === 'forfeit') {
 }
 
 /**
- * Letter frequencies based on English language usage (same as app)
- */
-const LETTER_FREQUENCIES: { [key: string]: number } = {
-  A: 9, E: 12, I: 9, O: 8, U: 4,
-  N: 6, R: 6, T: 6, L: 4, S: 4, D: 4,
-  G: 3, B: 2, C: 2, M: 2, P: 2, F: 2, H: 2, V: 2, W: 2, Y: 2,
-  K: 1, J: 1, X: 1, Q: 1, Z: 1,
-};
-
-/**
- * Creates a weighted letter bag (same as app)
+ * Watch for players in every tier's matchmaking queue and match with them
  */
-function createLetterBag(): string[] {
-  const bag: string[] = [];
-  for (const [letter, count] of Object.entries(LETTER_FREQUENCIES)) {
-    for (let i = 0; i < count; i++) {
-      bag.push(letter);
-    }
-  }
-  return bag;
-}
+async function watchForPlayers() {
+  console.log('👀 Watching matchmaking queues for players...\n');
 
-/**
- * Generate letters from a seed (same algorithm as app)
- */
-function generateLettersFromSeed(seed: string, count: number = 16): string[] {
-  // Simple seeded random number generator
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    hash = (hash << 5) - hash + seed.charCodeAt(i);
-    hash = hash & hash;
-  }
+  for (const tier of STAKE_TIERS) {
+    const queueRef = db.ref(`matchmaking/queues/${tier.id}`);
 
-  const seededRandom = () => {
-    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
-    return hash / 0x7fffffff;
-  };
+    queueRef.on('child_added', async (snapshot) => {
+      const entry = snapshot.val() as QueueEntry;
+      const playerOdid = entry.odid; // Queue entries are keyed by the player's ODID
 
-  // Create letter bag and shuffle with seeded random
-  const bag = createLetterBag();
-  for (let i = bag.length - 1; i > 0; i--) {
-    const j = Math.floor(seededRandom() * (i + 1));
-    [bag[i], bag[j]] = [bag[j], bag[i]];
-  }
+      // Don't match with ourselves
+      if (playerOdid?.startsWith('TEST_PLAYER')) {
+        return;
+      }
 
-  return bag.slice(0, count);
-}
+      console.log(`\n🎯 Found player in queue: ${playerOdid}`);
+      console.log(`   Tier: ${tier.label} (${tier.betAmount} ${tier.betCurrency})`);
 
-/**
- * Generate a game seed
- */
-function generateGameSeed(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let seed = '';
-  for (let i = 0; i < 8; i++) {
-    seed += chars.charAt(Math.floor(Math.random() * chars.length));
+      // Create a match!
+      await createMatch(entry);
+    });
   }
-  return seed;
 }
 
 /**
- * Watch for players in the matchmaking queue and match with them
+ * Create a match between the real player and test player.
+ * Goes through the same room creation and claims as the joinMatchmaking function.
  */
-async function watchForPlayers() {
-  console.log('👀 Watching matchmaking queue for players...\n');
-
-  const queueRef = db.ref('matchmaking/queue');
-
-  queueRef.on('child_added', async (snapshot) => {
-    const entry = snapshot.val();
-    const queueKey = snapshot.key; // This is the Firebase push ID, not the player's ODID
-    const playerOdid = entry.odid;
-
-    // Don't match with ourselves
-    if (playerOdid?.startsWith('TEST_PLAYER')) {
-      return;
-    }
-
-    console.log(`\n🎯 Found player in queue: ${playerOdid}`);
-    console.log(`   Queue key: ${queueKey}`);
-    console.log(`   Bet: ${entry.betAmount} ${entry.betCurrency}`);
-
-    // Create a match!
-    await createMatch(playerOdid, queueKey!, entry);
+async function createMatch(queueEntry: QueueEntry) {
+  const realPlayerOdid = queueEntry.odid;
+
+  // Real player is player1 (waiting in queue), test player is player2 (joining)
+  const gameId = await createMatchedRoom(queueEntry, {
+    odid: TEST_PLAYER.odid,
+    displayName: TEST_PLAYER.displayName,
+    tierId: queueEntry.tierId,
+    joinedAt: Date.now(),
   });
-}
 
-/**
- * Create a match between the real player and test player
- */
-async function createMatch(realPlayerOdid: string, queueKey: string, queueEntry: any) {
-  // Generate seed and letters (same as real app)
-  const seed = generateGameSeed();
-  const letters = generateLettersFromSeed(seed, 16);
-
-  // Use Firebase push() to create game with proper ID (like the real app does)
-  const gameRef = db.ref('games').push();
-  const gameId = gameRef.key!;
-
-  console.log(`\n🎲 Creating game: ${gameId}`);
-  console.log(`   Seed: ${seed}`);
-  console.log(`   Letters (${letters.length}): ${letters.join(' ')}`);
-
-  // Create the game room - real player is player1 (waiting in queue)
-  // Test player is player2 (joining the match)
-  const gameData = {
-    id: gameId,
-    seed: 'TEST_SEED_' + Date.now(),
-    letters,
-    status: 'waiting',
-    betAmount: queueEntry.betAmount,
-    betCurrency: queueEntry.betCurrency || 'SOL',
-    createdAt: Date.now(),
-    player1: {
-      odid: realPlayerOdid,
-      displayName: queueEntry.displayName || 'Player 1',
-      score: 0,
-      wordsFound: [],
-      isReady: false,
-      lastActivity: Date.now(),
-    },
-    player2: {
-      odid: TEST_PLAYER.odid,
-      displayName: TEST_PLAYER.displayName,
-      score: 0,
-      wordsFound: [],
-      isReady: false,
-      lastActivity: Date.now(),
-    },
-    escrow: {
-      status: 'pending_deposits',
-      // Simulate test player's deposit (pretend it's verified)
-      player2Deposit: {
-        txSignature: 'TEST_DEPOSIT_' + Date.now(),
-        amount: Math.round(queueEntry.betAmount * 1e9), // Convert to lamports
-        currency: queueEntry.betCurrency || 'SOL',
-        confirmedAt: Date.now(),
-      },
-    },
-  };
-
-  // Write the game using set() on the pushed reference
-  await gameRef.set(gameData);
+  if (!gameId) {
+    console.log(`   Player was matched by someone else, skipping`);
+    return;
+  }
+
+  const gameRef = db.ref(`games/${gameId}`);
+  const seedHash = (await gameRef.child('seedHash').once('value')).val();
+
+  console.log(`\n🎲 Created game: ${gameId}`);
+  console.log(`   Seed hash: ${seedHash}`);
+
+  // Simulate test player's deposit (pretend it's verified) - free games have none
+  const tier = getStakeTier(queueEntry.tierId)!;
+  if (tier.betAmount > 0) {
+    await gameRef.child('escrow/player2Deposit').set({
+      txSignature: 'TEST_DEPOSIT_' + Date.now(),
+      amount: toBaseUnits(tier.betAmount, tier.betCurrency), // Lamports or USDC base units
+      currency: tier.betCurrency,
+      confirmedAt: Date.now(),
+    });
+  }
 
   console.log(`✅ Game created with ID: ${gameId}`);
   console.log(`   Real player (${realPlayerOdid}) is player1`);
-  console.log(`   The app should detect this game via its listener...`);
-
-  // Remove from queue after game is created
-  // (The app's listener should pick up the game and remove the queue entry itself,
-  // but we'll also remove it after a delay as backup)
-  setTimeout(async () => {
-    try {
-      await db.ref(`matchmaking/queue/${queueKey}`).remove();
-      console.log(`   Removed queue entry: ${queueKey}`);
-    } catch (e) {
-      // Already removed by the app
-    }
-  }, 3000);
+  console.log(`   The app should detect this game via activeGames/${realPlayerOdid}...`);
 
   // Watch for game state changes
   watchGameState(gameId, realPlayerOdid);
@@ -250,17 +169,23 @@ function watchGameState(gameId: string, realPlayerOdid: string) {
       await gameRef.child('player2/lastActivity').set(Date.now());
     }
 
-    // When both ready and still waiting, start the game
-    if (game.player1?.isReady && game.player2?.isReady && game.status === 'waiting' && !gameStartScheduled) {
+    // When both ready and not started yet, start the game (free games are already 'ready')
+    if (
+      game.player1?.isReady &&
+      game.player2?.isReady &&
+      (game.status === 'waiting' || game.status === 'ready') &&
+      !gameStartScheduled
+    ) {
       gameStartScheduled = true;
       console.log(`\n🚀 Both players ready! Starting game...`);
-      await gameRef.update({
-        status: 'playing',
-        startedAt: Date.now(),
-      });
 
-      // Also mark escrow as locked (simulating both deposits verified)
+      // Mark escrow as locked (simulating both deposits verified), then
+      // walk the game through waiting → ready → playing like the server does
       await gameRef.child('escrow/status').set('locked');
+      await markGameReady(gameId);
+
+      // Reveal the board and start the clock (the onGameStart function does this too when deployed)
+      await startGame(gameId);
 
       if (outcome === 'forfeit') {
         // In forfeit mode, keep test player active and wait for real player to forfeit
@@ -334,29 +259,32 @@ async function endGame(gameId: string, realPlayerOdid: string) {
 
   // Update game with final scores
   await gameRef.update({
-    status: 'finished',
-    endedAt: Date.now(),
-    winner,
     'player1/score': player1Score,
     'player1/words': ['TEST', 'WORD'],
     'player2/score': player2Score,
     'player2/words': ['BOT', 'PLAY'],
   });
 
+  // Finish through the state machine (skipping the clock, for testing)
+  await transitionGame(gameId, 'finished', () => ({
+    endedAt: Date.now(),
+    winner,
+  }));
+
   console.log(`\n✅ Game finished!`);
   console.log(`   Player 1 (real): ${player1Score} points`);
   console.log(`   Player 2 (test): ${player2Score} points`);
   console.log(`   Winner: ${winner || 'TIE'}`);
 
   if (winner === realPlayerOdid) {
-    console.log(`\n💰 The processGamePayout function should now send winnings to the real player's wallet.`);
-    console.log(`   Check the Firebase Functions logs and Solana Explorer to verify.`);
+    console.log(`\n💰 The payout job will fail: the test player never deposited, so the escrow can't pay a winner.`);
+    console.log(`   This is expected for testing - use 'tie' mode to test real escrow refunds.`);
   } else if (winner === null) {
-    console.log(`\n💰 The processGamePayout function should refund both players.`);
-    console.log(`   (Note: Test player refund will fail since it's a fake address)`);
+    console.log(`\n💰 The processGamePayout function should refund the escrow.`);
+    console.log(`   (Only the real player deposited on chain, so only they get a refund)`);
   } else {
-    console.log(`\n💰 Test player "won" but has a fake address, so payout will fail.`);
-    console.log(`   This is expected for testing - use 'lose' mode to test real payouts.`);
+    console.log(`\n💰 Test player "won" but never deposited on chain, so the escrow won't pay out.`);
+    console.log(`   This is expected for testing - use 'tie' mode to test real escrow refunds.`);
   }
 
   console.log(`\n👋 Test complete! Press Ctrl+C to exit.\n`);
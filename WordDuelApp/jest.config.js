@@ -1,3 +1,6 @@
 module.exports = {
   preset: 'react-native',
+  // Security rules tests need the database emulator: run them with `npm run test:rules`
+  // Escrow program tests need a local validator: run them with `npm run test:escrow`
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/rules/', '<rootDir>/__tests__/escrow/'],
 };
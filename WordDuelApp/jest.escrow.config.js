@@ -0,0 +1,9 @@
+// Runs the escrow program tests against a local solana-test-validator, which
+// the tests start themselves. Use `npm run test:escrow`, which builds the program first.
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/__tests__/escrow'],
+  transform: {
+    '^.+\\.tsx?$': 'babel-jest',
+  },
+};
@@ -0,0 +1,9 @@
+// Runs the database security rules tests against the local Firebase emulator.
+// Use `npm run test:rules`, which starts the emulator for the duration of the run.
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/__tests__/rules'],
+  transform: {
+    '^.+\\.tsx?$': 'babel-jest',
+  },
+};
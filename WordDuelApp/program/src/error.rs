@@ -0,0 +1,39 @@
+//! Errors returned by the escrow program (as `ProgramError::Custom(code)`).
+
+use solana_program::program_error::ProgramError;
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+pub enum EscrowError {
+    /// The instruction data couldn't be decoded
+    InvalidInstruction = 0,
+    /// The escrow account isn't the PDA for this resolver and game
+    InvalidEscrowAddress = 1,
+    /// The escrow account already holds a game
+    AlreadyInitialized = 2,
+    /// The game's parameters don't make sense (same players, zero stake...)
+    InvalidGame = 3,
+    /// The signer isn't one of the game's players
+    NotAPlayer = 4,
+    /// This player has already deposited
+    AlreadyDeposited = 5,
+    /// The signer isn't the game's resolver
+    NotResolver = 6,
+    /// A player, treasury or resolver account doesn't match the escrow
+    AccountMismatch = 7,
+    /// A winner can only be paid once both players have deposited
+    DepositsIncomplete = 8,
+    /// The escrow's timeout has passed: no more deposits
+    Expired = 9,
+    /// The escrow's timeout hasn't passed yet
+    NotExpired = 10,
+    /// Lamport arithmetic overflowed
+    Overflow = 11,
+    /// A mint, vault or token account doesn't match the game's token
+    InvalidMint = 12,
+}
+
+impl From<EscrowError> for ProgramError {
+    fn from(error: EscrowError) -> Self {
+        ProgramError::Custom(error as u32)
+    }
+}
@@ -0,0 +1,107 @@
+//! Instruction decoding. Layouts are documented in `shared/escrowProgram.ts`.
+
+use solana_program::pubkey::Pubkey;
+
+use crate::error::EscrowError;
+
+pub const MAX_GAME_ID_LEN: usize = 32;
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+pub enum Outcome {
+    /// Tie or cancelled game: each deposit goes back to its player
+    Refund,
+    Player1Wins,
+    Player2Wins,
+}
+
+#[derive(Clone, Debug, PartialEq, Eq)]
+pub enum EscrowInstruction {
+    /// Open a game's escrow. `mint` is the default pubkey for a SOL game.
+    ///
+    /// Accounts: `[signer, writable] resolver`, `[writable] game escrow`, `[] system program`,
+    /// then for token games `[] mint`
+    CreateGame {
+        game_id: Vec<u8>,
+        player1: Pubkey,
+        player2: Pubkey,
+        treasury: Pubkey,
+        stake: u64,
+        fee_bps: u16,
+        timeout_at: i64,
+        mint: Pubkey,
+    },
+
+    /// Pay the stake into the escrow.
+    ///
+    /// Accounts: `[signer, writable] player`, `[writable] game escrow`, `[] system program`,
+    /// then for token games `[writable] player token account`, `[writable] vault`,
+    /// `[] mint`, `[] token program`
+    Deposit,
+
+    /// Pay out the escrow and close it.
+    ///
+    /// Accounts: `[signer, writable] resolver`, `[writable] game escrow`,
+    /// `[writable] player1`, `[writable] player2`, `[writable] treasury`,
+    /// then for token games `[writable] vault`, `[] token program` and the
+    /// `[writable]` token accounts of player1, player2 and the treasury
+    Resolve { outcome: Outcome },
+
+    /// Refund both deposits after the timeout and close the escrow.
+    ///
+    /// Accounts: `[signer] player`, `[writable] game escrow`,
+    /// `[writable] player1`, `[writable] player2`, `[writable] resolver`,
+    /// then for token games `[writable] vault`, `[] token program` and the
+    /// `[writable]` token accounts of player1 and player2
+    RefundExpired,
+}
+
+impl EscrowInstruction {
+    pub fn unpack(data: &[u8]) -> Result<Self, EscrowError> {
+        let (&tag, rest) = data.split_first().ok_or(EscrowError::InvalidInstruction)?;
+
+        Ok(match tag {
+            0 => {
+                if rest.len() != 179 {
+                    return Err(EscrowError::InvalidInstruction);
+                }
+                let game_id_len = rest[0] as usize;
+                if game_id_len == 0 || game_id_len > MAX_GAME_ID_LEN {
+                    return Err(EscrowError::InvalidInstruction);
+                }
+
+                Self::CreateGame {
+                    game_id: rest[1..1 + game_id_len].to_vec(),
+                    player1: read_pubkey(rest, 33)?,
+                    player2: read_pubkey(rest, 65)?,
+                    treasury: read_pubkey(rest, 97)?,
+                    stake: u64::from_le_bytes(read_array(rest, 129)?),
+                    fee_bps: u16::from_le_bytes(read_array(rest, 137)?),
+                    timeout_at: i64::from_le_bytes(read_array(rest, 139)?),
+                    mint: read_pubkey(rest, 147)?,
+                }
+            }
+            1 => Self::Deposit,
+            2 => {
+                let outcome = match rest.first() {
+                    Some(0) => Outcome::Refund,
+                    Some(1) => Outcome::Player1Wins,
+                    Some(2) => Outcome::Player2Wins,
+                    _ => return Err(EscrowError::InvalidInstruction),
+                };
+                Self::Resolve { outcome }
+            }
+            3 => Self::RefundExpired,
+            _ => return Err(EscrowError::InvalidInstruction),
+        })
+    }
+}
+
+fn read_array<const N: usize>(data: &[u8], offset: usize) -> Result<[u8; N], EscrowError> {
+    data.get(offset..offset + N)
+        .and_then(|bytes| bytes.try_into().ok())
+        .ok_or(EscrowError::InvalidInstruction)
+}
+
+fn read_pubkey(data: &[u8], offset: usize) -> Result<Pubkey, EscrowError> {
+    Ok(Pubkey::new_from_array(read_array(data, offset)?))
+}
@@ -0,0 +1,40 @@
+//! Word Duel Escrow
+//!
+//! Holds both players' stakes for a game in a per-game escrow account (a PDA
+//! derived from `["game", resolver, game_id]`) instead of a custodial wallet.
+//! SOL stakes sit in the escrow account itself; SPL token stakes (USDC) sit in
+//! its vault, the escrow's associated token account for the game's mint.
+//!
+//! - `CreateGame`     the resolver (the Word Duel server) opens the escrow
+//! - `Deposit`        each player pays in exactly the stake
+//! - `Resolve`        the resolver pays the winner (less the platform fee,
+//!                    which goes to the treasury), or refunds both deposits
+//! - `RefundExpired`  once the timeout has passed, either player can refund
+//!                    both deposits without the resolver
+//!
+//! Resolving or refunding closes the escrow (and an emptied vault) and returns
+//! its rent to the resolver. The byte layout is mirrored in `shared/escrowProgram.ts`.
+
+pub mod error;
+pub mod instruction;
+pub mod processor;
+pub mod state;
+
+#[cfg(not(feature = "no-entrypoint"))]
+mod entrypoint {
+    use solana_program::{
+        account_info::AccountInfo, entrypoint, entrypoint::ProgramResult, pubkey::Pubkey,
+    };
+
+    entrypoint!(process_instruction);
+
+    fn process_instruction(
+        program_id: &Pubkey,
+        accounts: &[AccountInfo],
+        instruction_data: &[u8],
+    ) -> ProgramResult {
+        crate::processor::process(program_id, accounts, instruction_data)
+    }
+}
+
+solana_program::declare_id!("8r8uwwL2gNk9861guKc1TcxPk1fQKRXxf8PqZTSgEQsa");
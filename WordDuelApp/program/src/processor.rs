@@ -0,0 +1,522 @@
+//! Instruction handlers.
+
+use solana_program::{
+    account_info::{next_account_info, AccountInfo},
+    clock::Clock,
+    entrypoint::ProgramResult,
+    msg,
+    program::{invoke, invoke_signed},
+    program_error::ProgramError,
+    program_pack::Pack,
+    pubkey::Pubkey,
+    rent::Rent,
+    system_instruction, system_program,
+    sysvar::Sysvar,
+};
+use spl_token::state::{Account as TokenAccount, Mint};
+
+use crate::{
+    error::EscrowError,
+    instruction::{EscrowInstruction, Outcome},
+    state::{GameEscrow, GAME_ESCROW_LEN, GAME_SEED},
+};
+
+// Basis points in 100%
+const BPS_DENOMINATOR: u128 = 10_000;
+
+// The associated token account program, which derives each escrow's vault
+const ASSOCIATED_TOKEN_PROGRAM_ID: Pubkey =
+    solana_program::pubkey!("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+
+pub fn process(program_id: &Pubkey, accounts: &[AccountInfo], data: &[u8]) -> ProgramResult {
+    match EscrowInstruction::unpack(data)? {
+        EscrowInstruction::CreateGame {
+            game_id,
+            player1,
+            player2,
+            treasury,
+            stake,
+            fee_bps,
+            timeout_at,
+            mint,
+        } => create_game(
+            program_id, accounts, game_id, player1, player2, treasury, stake, fee_bps, timeout_at,
+            mint,
+        ),
+        EscrowInstruction::Deposit => deposit(program_id, accounts),
+        EscrowInstruction::Resolve { outcome } => resolve(program_id, accounts, outcome),
+        EscrowInstruction::RefundExpired => refund_expired(program_id, accounts),
+    }
+}
+
+// ============================================================
+// CREATE GAME
+// ============================================================
+
+#[allow(clippy::too_many_arguments)]
+fn create_game(
+    program_id: &Pubkey,
+    accounts: &[AccountInfo],
+    game_id: Vec<u8>,
+    player1: Pubkey,
+    player2: Pubkey,
+    treasury: Pubkey,
+    stake: u64,
+    fee_bps: u16,
+    timeout_at: i64,
+    mint: Pubkey,
+) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let resolver = next_account_info(iter)?;
+    let escrow = next_account_info(iter)?;
+    let system = next_account_info(iter)?;
+
+    if !resolver.is_signer {
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    if *system.key != system_program::id() {
+        return Err(ProgramError::IncorrectProgramId);
+    }
+
+    let (address, bump) =
+        Pubkey::find_program_address(&GameEscrow::seeds(resolver.key, &game_id), program_id);
+    if address != *escrow.key {
+        return Err(EscrowError::InvalidEscrowAddress.into());
+    }
+    if escrow.owner != &system_program::id() || !escrow.data_is_empty() {
+        return Err(EscrowError::AlreadyInitialized.into());
+    }
+
+    if player1 == player2
+        || player1 == Pubkey::default()
+        || player2 == Pubkey::default()
+        || stake == 0
+        || u128::from(fee_bps) > BPS_DENOMINATOR
+        || timeout_at <= Clock::get()?.unix_timestamp
+    {
+        return Err(EscrowError::InvalidGame.into());
+    }
+
+    // A token game's mint must be a real SPL token mint
+    if mint != Pubkey::default() {
+        let mint_account = next_account_info(iter)?;
+        if *mint_account.key != mint || *mint_account.owner != spl_token::id() {
+            return Err(EscrowError::InvalidMint.into());
+        }
+        Mint::unpack(&mint_account.try_borrow_data()?)?;
+    }
+
+    // Allocate the PDA. It may already hold lamports (anyone can send to an
+    // address), so top it up to rent-exempt rather than using create_account.
+    let bump_seed = [bump];
+    let signer_seeds: &[&[u8]] = &[GAME_SEED, resolver.key.as_ref(), &game_id, &bump_seed];
+    let rent = Rent::get()?.minimum_balance(GAME_ESCROW_LEN);
+    let top_up = rent.saturating_sub(escrow.lamports());
+    if top_up > 0 {
+        invoke(
+            &system_instruction::transfer(resolver.key, escrow.key, top_up),
+            &[resolver.clone(), escrow.clone(), system.clone()],
+        )?;
+    }
+    invoke_signed(
+        &system_instruction::allocate(escrow.key, GAME_ESCROW_LEN as u64),
+        &[escrow.clone(), system.clone()],
+        &[signer_seeds],
+    )?;
+    invoke_signed(
+        &system_instruction::assign(escrow.key, program_id),
+        &[escrow.clone(), system.clone()],
+        &[signer_seeds],
+    )?;
+
+    let game = GameEscrow {
+        bump,
+        game_id,
+        resolver: *resolver.key,
+        player1,
+        player2,
+        treasury,
+        stake,
+        fee_bps,
+        player1_deposited: false,
+        player2_deposited: false,
+        timeout_at,
+        mint,
+    };
+    game.pack(&mut escrow.try_borrow_mut_data()?)?;
+
+    msg!("Escrow opened: stake {}, mint {}, fee {} bps", stake, mint, fee_bps);
+    Ok(())
+}
+
+// ============================================================
+// DEPOSIT
+// ============================================================
+
+fn deposit(program_id: &Pubkey, accounts: &[AccountInfo]) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let player = next_account_info(iter)?;
+    let escrow = next_account_info(iter)?;
+    let system = next_account_info(iter)?;
+
+    if !player.is_signer {
+        return Err(ProgramError::MissingRequiredSignature);
+    }
+    let mut game = load_game(program_id, escrow)?;
+
+    if Clock::get()?.unix_timestamp >= game.timeout_at {
+        return Err(EscrowError::Expired.into());
+    }
+
+    let deposited = if *player.key == game.player1 {
+        &mut game.player1_deposited
+    } else if *player.key == game.player2 {
+        &mut game.player2_deposited
+    } else {
+        return Err(EscrowError::NotAPlayer.into());
+    };
+    if *deposited {
+        return Err(EscrowError::AlreadyDeposited.into());
+    }
+    *deposited = true;
+
+    if game.is_native() {
+        invoke(
+            &system_instruction::transfer(player.key, escrow.key, game.stake),
+            &[player.clone(), escrow.clone(), system.clone()],
+        )?;
+    } else {
+        let player_token = next_account_info(iter)?;
+        let vault = next_account_info(iter)?;
+        let mint = next_account_info(iter)?;
+        let token_program = next_account_info(iter)?;
+
+        check_vault(&game, escrow, vault, token_program)?;
+        if *mint.key != game.mint {
+            return Err(EscrowError::InvalidMint.into());
+        }
+        let decimals = Mint::unpack(&mint.try_borrow_data()?)?.decimals;
+
+        // Checked, so a wallet can't misread the amount's decimals
+        invoke(
+            &spl_token::instruction::transfer_checked(
+                token_program.key,
+                player_token.key,
+                mint.key,
+                vault.key,
+                player.key,
+                &[],
+                game.stake,
+                decimals,
+            )?,
+            &[
+                player_token.clone(),
+                mint.clone(),
+                vault.clone(),
+                player.clone(),
+                token_program.clone(),
+            ],
+        )?;
+    }
+    game.pack(&mut escrow.try_borrow_mut_data()?)?;
+
+    msg!("Deposit of {} from {}", game.stake, player.key);
+    Ok(())
+}
+
+// ============================================================
+// RESOLVE
+// ============================================================
+
+fn resolve(program_id: &Pubkey, accounts: &[AccountInfo], outcome: Outcome) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let resolver = next_account_info(iter)?;
+    let escrow = next_account_info(iter)?;
+    let player1 = next_account_info(iter)?;
+    let player2 = next_account_info(iter)?;
+    let treasury = next_account_info(iter)?;
+
+    let game = load_game(program_id, escrow)?;
+    if !resolver.is_signer || *resolver.key != game.resolver {
+        return Err(EscrowError::NotResolver.into());
+    }
+    if *player1.key != game.player1 || *player2.key != game.player2 || *treasury.key != game.treasury {
+        return Err(EscrowError::AccountMismatch.into());
+    }
+
+    let stakes = Stakes::load(&game, escrow, iter)?;
+    let player1 = stakes.payee(&game, player1, iter)?;
+    let player2 = stakes.payee(&game, player2, iter)?;
+    let treasury = stakes.payee(&game, treasury, iter)?;
+
+    match outcome {
+        Outcome::Refund => refund_deposits(&game, escrow, &stakes, &player1, &player2)?,
+        Outcome::Player1Wins | Outcome::Player2Wins => {
+            if !game.player1_deposited || !game.player2_deposited {
+                return Err(EscrowError::DepositsIncomplete.into());
+            }
+
+            let pot = game.stake.checked_mul(2).ok_or(EscrowError::Overflow)?;
+            let fee = (u128::from(pot) * u128::from(game.fee_bps) / BPS_DENOMINATOR) as u64;
+            let winner = if outcome == Outcome::Player1Wins { &player1 } else { &player2 };
+
+            stakes.pay(&game, escrow, winner, pot - fee)?;
+            stakes.pay(&game, escrow, &treasury, fee)?;
+            msg!("Paid {} to {}, fee {}", pot - fee, winner.key, fee);
+        }
+    }
+
+    stakes.close(&game, escrow, resolver)?;
+    close_escrow(escrow, resolver)
+}
+
+// ============================================================
+// REFUND EXPIRED
+// ============================================================
+
+fn refund_expired(program_id: &Pubkey, accounts: &[AccountInfo]) -> ProgramResult {
+    let iter = &mut accounts.iter();
+    let caller = next_account_info(iter)?;
+    let escrow = next_account_info(iter)?;
+    let player1 = next_account_info(iter)?;
+    let player2 = next_account_info(iter)?;
+    let resolver = next_account_info(iter)?;
+
+    let game = load_game(program_id, escrow)?;
+    if !caller.is_signer || (*caller.key != game.player1 && *caller.key != game.player2) {
+        return Err(EscrowError::NotAPlayer.into());
+    }
+    if *player1.key != game.player1 || *player2.key != game.player2 || *resolver.key != game.resolver {
+        return Err(EscrowError::AccountMismatch.into());
+    }
+    if Clock::get()?.unix_timestamp < game.timeout_at {
+        return Err(EscrowError::NotExpired.into());
+    }
+
+    let stakes = Stakes::load(&game, escrow, iter)?;
+    let player1 = stakes.payee(&game, player1, iter)?;
+    let player2 = stakes.payee(&game, player2, iter)?;
+
+    refund_deposits(&game, escrow, &stakes, &player1, &player2)?;
+    stakes.close(&game, escrow, resolver)?;
+    close_escrow(escrow, resolver)
+}
+
+// ============================================================
+// STAKES
+// ============================================================
+
+/// Where a game's stakes are held: in the escrow account itself (SOL), or in
+/// the escrow's vault token account (SPL tokens).
+enum Stakes<'a> {
+    Native,
+    Token {
+        vault: AccountInfo<'a>,
+        token_program: AccountInfo<'a>,
+    },
+}
+
+impl<'a> Stakes<'a> {
+    /// Read the vault and token program that follow a token game's accounts.
+    fn load<'b, I>(
+        game: &GameEscrow,
+        escrow: &AccountInfo<'a>,
+        iter: &mut I,
+    ) -> Result<Self, ProgramError>
+    where
+        'a: 'b,
+        I: Iterator<Item = &'b AccountInfo<'a>>,
+    {
+        if game.is_native() {
+            return Ok(Self::Native);
+        }
+        let vault = next_account_info(iter)?;
+        let token_program = next_account_info(iter)?;
+        check_vault(game, escrow, vault, token_program)?;
+
+        Ok(Self::Token {
+            vault: vault.clone(),
+            token_program: token_program.clone(),
+        })
+    }
+
+    /// The account a payment to `wallet` lands in: the wallet itself, or the
+    /// next account, which must be the wallet's token account for the game's mint.
+    fn payee<'b, I>(
+        &self,
+        game: &GameEscrow,
+        wallet: &AccountInfo<'a>,
+        iter: &mut I,
+    ) -> Result<AccountInfo<'a>, ProgramError>
+    where
+        'a: 'b,
+        I: Iterator<Item = &'b AccountInfo<'a>>,
+    {
+        if let Self::Native = self {
+            return Ok(wallet.clone());
+        }
+
+        let account = next_account_info(iter)?;
+        if *account.owner != spl_token::id() {
+            return Err(EscrowError::InvalidMint.into());
+        }
+        let token = TokenAccount::unpack(&account.try_borrow_data()?)?;
+        if token.owner != *wallet.key || token.mint != game.mint {
+            return Err(EscrowError::InvalidMint.into());
+        }
+        Ok(account.clone())
+    }
+
+    /// Pay out of the escrow (or its vault, which the escrow PDA signs for).
+    fn pay(
+        &self,
+        game: &GameEscrow,
+        escrow: &AccountInfo<'a>,
+        to: &AccountInfo<'a>,
+        amount: u64,
+    ) -> ProgramResult {
+        match self {
+            Self::Native => move_lamports(escrow, to, amount),
+            Self::Token { vault, token_program } => {
+                if amount == 0 {
+                    return Ok(());
+                }
+                let bump_seed = [game.bump];
+                let signer_seeds: &[&[u8]] =
+                    &[GAME_SEED, game.resolver.as_ref(), &game.game_id, &bump_seed];
+                invoke_signed(
+                    &spl_token::instruction::transfer(
+                        token_program.key,
+                        vault.key,
+                        to.key,
+                        escrow.key,
+                        &[],
+                        amount,
+                    )?,
+                    &[vault.clone(), to.clone(), escrow.clone(), token_program.clone()],
+                    &[signer_seeds],
+                )
+            }
+        }
+    }
+
+    /// Close an emptied vault, returning its rent to the resolver. A vault
+    /// someone sent stray tokens to is left open rather than blocking the payout,
+    /// and there's nothing to close when nobody deposited (the first deposit
+    /// creates the vault).
+    fn close(
+        &self,
+        game: &GameEscrow,
+        escrow: &AccountInfo<'a>,
+        resolver: &AccountInfo<'a>,
+    ) -> ProgramResult {
+        let Self::Token { vault, token_program } = self else {
+            return Ok(());
+        };
+        if vault.data_is_empty() || *vault.owner != spl_token::id() {
+            msg!("Vault {} was never created, nothing to close", vault.key);
+            return Ok(());
+        }
+        if TokenAccount::unpack(&vault.try_borrow_data()?)?.amount > 0 {
+            msg!("Vault {} still holds tokens, leaving it open", vault.key);
+            return Ok(());
+        }
+
+        let bump_seed = [game.bump];
+        let signer_seeds: &[&[u8]] =
+            &[GAME_SEED, game.resolver.as_ref(), &game.game_id, &bump_seed];
+        invoke_signed(
+            &spl_token::instruction::close_account(
+                token_program.key,
+                vault.key,
+                resolver.key,
+                escrow.key,
+                &[],
+            )?,
+            &[vault.clone(), resolver.clone(), escrow.clone(), token_program.clone()],
+            &[signer_seeds],
+        )
+    }
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+fn load_game(program_id: &Pubkey, escrow: &AccountInfo) -> Result<GameEscrow, ProgramError> {
+    if escrow.owner != program_id {
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    let game = GameEscrow::unpack(&escrow.try_borrow_data()?)?;
+
+    let bump_seed = [game.bump];
+    let address = Pubkey::create_program_address(
+        &[GAME_SEED, game.resolver.as_ref(), &game.game_id, &bump_seed],
+        program_id,
+    )
+    .map_err(|_| EscrowError::InvalidEscrowAddress)?;
+    if address != *escrow.key {
+        return Err(EscrowError::InvalidEscrowAddress.into());
+    }
+    Ok(game)
+}
+
+/// Check that a token game's vault is the escrow's associated token account
+/// for the game's mint, under the SPL Token program.
+fn check_vault(
+    game: &GameEscrow,
+    escrow: &AccountInfo,
+    vault: &AccountInfo,
+    token_program: &AccountInfo,
+) -> ProgramResult {
+    if *token_program.key != spl_token::id() {
+        return Err(ProgramError::IncorrectProgramId);
+    }
+    let (address, _) = Pubkey::find_program_address(
+        &[escrow.key.as_ref(), spl_token::id().as_ref(), game.mint.as_ref()],
+        &ASSOCIATED_TOKEN_PROGRAM_ID,
+    );
+    if address != *vault.key {
+        return Err(EscrowError::InvalidMint.into());
+    }
+    Ok(())
+}
+
+/// Give each player back the stake they deposited.
+fn refund_deposits<'a>(
+    game: &GameEscrow,
+    escrow: &AccountInfo<'a>,
+    stakes: &Stakes<'a>,
+    player1: &AccountInfo<'a>,
+    player2: &AccountInfo<'a>,
+) -> ProgramResult {
+    if game.player1_deposited {
+        stakes.pay(game, escrow, player1, game.stake)?;
+    }
+    if game.player2_deposited {
+        stakes.pay(game, escrow, player2, game.stake)?;
+    }
+    msg!("Refunded deposits");
+    Ok(())
+}
+
+/// Move lamports out of an account this program owns.
+fn move_lamports(from: &AccountInfo, to: &AccountInfo, amount: u64) -> ProgramResult {
+    if amount == 0 {
+        return Ok(());
+    }
+    let mut from_lamports = from.try_borrow_mut_lamports()?;
+    let mut to_lamports = to.try_borrow_mut_lamports()?;
+    **from_lamports = from_lamports.checked_sub(amount).ok_or(EscrowError::Overflow)?;
+    **to_lamports = to_lamports.checked_add(amount).ok_or(EscrowError::Overflow)?;
+    Ok(())
+}
+
+/// Return the escrow's remaining lamports (its rent) to the resolver and wipe it.
+fn close_escrow(escrow: &AccountInfo, resolver: &AccountInfo) -> ProgramResult {
+    move_lamports(escrow, resolver, escrow.lamports())?;
+    escrow.try_borrow_mut_data()?.fill(0);
+    escrow.assign(&system_program::id());
+    escrow.realloc(0, false)?;
+    Ok(())
+}
@@ -0,0 +1,89 @@
+//! The per-game escrow account. Layout is documented in `shared/escrowProgram.ts`.
+
+use solana_program::{program_error::ProgramError, pubkey::Pubkey};
+
+use crate::instruction::MAX_GAME_ID_LEN;
+
+pub const GAME_ESCROW_VERSION: u8 = 2;
+pub const GAME_ESCROW_LEN: usize = 215;
+
+// Seed prefix of every game escrow PDA
+pub const GAME_SEED: &[u8] = b"game";
+
+#[derive(Clone, Debug, PartialEq, Eq)]
+pub struct GameEscrow {
+    pub bump: u8,
+    pub game_id: Vec<u8>,
+    pub resolver: Pubkey,
+    pub player1: Pubkey,
+    pub player2: Pubkey,
+    pub treasury: Pubkey,
+    pub stake: u64,
+    pub fee_bps: u16,
+    pub player1_deposited: bool,
+    pub player2_deposited: bool,
+    pub timeout_at: i64,
+    /// The staked token's mint, or the default pubkey for SOL
+    pub mint: Pubkey,
+}
+
+impl GameEscrow {
+    pub fn unpack(data: &[u8]) -> Result<Self, ProgramError> {
+        if data.len() != GAME_ESCROW_LEN || data[0] != GAME_ESCROW_VERSION {
+            return Err(ProgramError::UninitializedAccount);
+        }
+
+        let game_id_len = (data[2] as usize).min(MAX_GAME_ID_LEN);
+        let pubkey = |offset: usize| {
+            Pubkey::new_from_array(data[offset..offset + 32].try_into().unwrap())
+        };
+
+        Ok(Self {
+            bump: data[1],
+            game_id: data[3..3 + game_id_len].to_vec(),
+            resolver: pubkey(35),
+            player1: pubkey(67),
+            player2: pubkey(99),
+            treasury: pubkey(131),
+            stake: u64::from_le_bytes(data[163..171].try_into().unwrap()),
+            fee_bps: u16::from_le_bytes(data[171..173].try_into().unwrap()),
+            player1_deposited: data[173] == 1,
+            player2_deposited: data[174] == 1,
+            timeout_at: i64::from_le_bytes(data[175..183].try_into().unwrap()),
+            mint: pubkey(183),
+        })
+    }
+
+    pub fn pack(&self, data: &mut [u8]) -> Result<(), ProgramError> {
+        if data.len() != GAME_ESCROW_LEN || self.game_id.len() > MAX_GAME_ID_LEN {
+            return Err(ProgramError::InvalidAccountData);
+        }
+
+        data.fill(0);
+        data[0] = GAME_ESCROW_VERSION;
+        data[1] = self.bump;
+        data[2] = self.game_id.len() as u8;
+        data[3..3 + self.game_id.len()].copy_from_slice(&self.game_id);
+        data[35..67].copy_from_slice(self.resolver.as_ref());
+        data[67..99].copy_from_slice(self.player1.as_ref());
+        data[99..131].copy_from_slice(self.player2.as_ref());
+        data[131..163].copy_from_slice(self.treasury.as_ref());
+        data[163..171].copy_from_slice(&self.stake.to_le_bytes());
+        data[171..173].copy_from_slice(&self.fee_bps.to_le_bytes());
+        data[173] = self.player1_deposited as u8;
+        data[174] = self.player2_deposited as u8;
+        data[175..183].copy_from_slice(&self.timeout_at.to_le_bytes());
+        data[183..215].copy_from_slice(self.mint.as_ref());
+        Ok(())
+    }
+
+    /// Whether the game is staked in SOL rather than an SPL token
+    pub fn is_native(&self) -> bool {
+        self.mint == Pubkey::default()
+    }
+
+    /// Seeds of the game's escrow PDA, without the bump
+    pub fn seeds<'a>(resolver: &'a Pubkey, game_id: &'a [u8]) -> [&'a [u8]; 3] {
+        [GAME_SEED, resolver.as_ref(), game_id]
+    }
+}
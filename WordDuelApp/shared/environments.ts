@@ -0,0 +1,199 @@
+/**
+ * Shared Environment Profiles
+ *
+ * Everything that decides which Solana network real money moves on, in one
+ * typed table: the cluster, its RPC endpoint, the escrow program and
+ * resolver, the USDC mint, and the stake tiers on offer. Imported by the Cloud Functions
+ * and the mobile app (which both pick a profile with SOLANA_ENV, the app at
+ * build time), so the two can't silently drift apart.
+ *
+ * The app asks the server for its profile at startup and refuses to go any
+ * further if they disagree on the cluster or the escrow (see
+ * findEnvironmentMismatch).
+ *
+ * Like gameRules.ts, this module must stay dependency-free: addresses are
+ * base58 strings, and each side wraps them in its own @solana/web3.js types.
+ */
+
+import { WordListId } from './wordLists';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type EnvironmentName = 'localnet' | 'devnet' | 'mainnet';
+
+export type SolanaCluster = 'localnet' | 'devnet' | 'mainnet-beta';
+
+// SOL is staked natively; USDC is an SPL token with a mint per cluster
+export type StakeCurrency = 'SOL' | 'USDC';
+
+export interface StakeTier {
+  id: string;
+  label: string;
+  betAmount: number;   // Stake per player, in betCurrency (0 for the free tier)
+  betCurrency: StakeCurrency;
+  feeBps: number;      // Platform fee on the winner's payout, in basis points (100 = 1%)
+  wordList: WordListId; // Which words count in this tier's games (see shared/wordLists)
+}
+
+export interface EnvironmentConfig {
+  name: EnvironmentName;
+  cluster: SolanaCluster;
+  rpcUrl: string;
+  escrowProgramId: string;   // The escrow program (program/src/lib.rs)
+  resolverAddress: string;   // The server's resolver; game escrows are derived from it
+  usdcMint: string;          // The USDC token mint on this cluster
+  stakeTiers: StakeTier[];
+}
+
+// What the app and the server must agree on before any money moves
+export interface EnvironmentFingerprint {
+  cluster: SolanaCluster;
+  escrowProgramId: string;
+  resolverAddress: string;
+  usdcMint: string;
+}
+
+// ============================================================
+// CURRENCIES
+// ============================================================
+
+// Decimal places of each stake currency (lamports for SOL, micro-USDC for USDC)
+export const CURRENCY_DECIMALS: Record<StakeCurrency, number> = {
+  SOL: 9,
+  USDC: 6,
+};
+
+/**
+ * Convert a stake to the currency's smallest unit (lamports, or USDC base units).
+ */
+export function toBaseUnits(amount: number, currency: StakeCurrency): number {
+  return Math.round(amount * 10 ** CURRENCY_DECIMALS[currency]);
+}
+
+/**
+ * Convert an amount in the currency's smallest unit back to a stake.
+ */
+export function fromBaseUnits(units: number, currency: StakeCurrency): number {
+  return units / 10 ** CURRENCY_DECIMALS[currency];
+}
+
+/**
+ * Get the token mint a currency is staked with, or null for SOL (which has none).
+ */
+export function getCurrencyMint(environment: EnvironmentConfig, currency: StakeCurrency): string | null {
+  return currency === 'USDC' ? environment.usdcMint : null;
+}
+
+// ============================================================
+// PROFILES
+// ============================================================
+
+// Each tier has its own matchmaking queue, so SOL and USDC players never meet
+const STANDARD_TIERS: StakeTier[] = [
+  { id: 'free', label: 'Free', betAmount: 0, betCurrency: 'SOL', feeBps: 0, wordList: 'common' },
+  { id: 'bronze', label: 'Bronze', betAmount: 0.01, betCurrency: 'SOL', feeBps: 300, wordList: 'tournament' },
+  { id: 'silver', label: 'Silver', betAmount: 0.05, betCurrency: 'SOL', feeBps: 250, wordList: 'tournament' },
+  { id: 'gold', label: 'Gold', betAmount: 0.1, betCurrency: 'SOL', feeBps: 200, wordList: 'tournament' },
+  { id: 'usdc-bronze', label: 'Bronze USDC', betAmount: 1, betCurrency: 'USDC', feeBps: 300, wordList: 'tournament' },
+  { id: 'usdc-silver', label: 'Silver USDC', betAmount: 5, betCurrency: 'USDC', feeBps: 250, wordList: 'tournament' },
+  { id: 'usdc-gold', label: 'Gold USDC', betAmount: 10, betCurrency: 'USDC', feeBps: 200, wordList: 'tournament' },
+];
+
+export const ENVIRONMENTS: Record<EnvironmentName, EnvironmentConfig> = {
+  // A solana-test-validator on this machine, with the program loaded at its
+  // declared ID. The resolver is a throwaway key: its secret is in
+  // functions/.env.localnet.example, so never use it anywhere else. So is
+  // the stand-in USDC mint (program/localnet-usdc-mint.json).
+  localnet: {
+    name: 'localnet',
+    cluster: 'localnet',
+    rpcUrl: 'http://127.0.0.1:8899',
+    escrowProgramId: '8r8uwwL2gNk9861guKc1TcxPk1fQKRXxf8PqZTSgEQsa',
+    resolverAddress: '8JPTxogTCNtfoX5ymaKeAnqNronuy4TKnvsbWpxKfE8r',
+    usdcMint: 'AUfHana6SXvP5eBG6NB5qvmUBFKW5kSpDyb8gaeWKa2P',
+    stakeTiers: STANDARD_TIERS,
+  },
+
+  // Fake money for testing
+  devnet: {
+    name: 'devnet',
+    cluster: 'devnet',
+    rpcUrl: 'https://api.devnet.solana.com',
+    escrowProgramId: '8r8uwwL2gNk9861guKc1TcxPk1fQKRXxf8PqZTSgEQsa',
+    resolverAddress: 'EcBm5gSKBXFA3MAHJvcRBZc2zvwj1nJLHenN8EYGs7vW',
+    usdcMint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    stakeTiers: STANDARD_TIERS,
+  },
+
+  // Real money. The addresses are filled in at launch - until then both
+  // sides refuse to start with this profile.
+  mainnet: {
+    name: 'mainnet',
+    cluster: 'mainnet-beta',
+    rpcUrl: 'https://api.mainnet-beta.solana.com',
+    escrowProgramId: '',
+    resolverAddress: '',
+    usdcMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    stakeTiers: STANDARD_TIERS,
+  },
+};
+
+// ============================================================
+// LOOKUPS
+// ============================================================
+
+/**
+ * Get a complete environment profile by name.
+ * Throws for an unknown name or a profile that's missing an address, so a
+ * misconfigured build or deploy stops at startup instead of moving money.
+ */
+export function getEnvironment(name: unknown): EnvironmentConfig {
+  const environment = ENVIRONMENTS[name as EnvironmentName];
+  if (typeof name !== 'string' || !environment) {
+    throw new Error(
+      `Unknown environment "${name}" - expected one of ${Object.keys(ENVIRONMENTS).join(', ')}`
+    );
+  }
+
+  const missing = (['rpcUrl', 'escrowProgramId', 'resolverAddress', 'usdcMint'] as const).filter(
+    (key) => !environment[key]
+  );
+  if (missing.length > 0) {
+    throw new Error(`The ${name} environment is missing ${missing.join(', ')}`);
+  }
+  return environment;
+}
+
+/**
+ * The parts of a profile both sides must agree on.
+ */
+export function getEnvironmentFingerprint(environment: EnvironmentConfig): EnvironmentFingerprint {
+  const { cluster, escrowProgramId, resolverAddress, usdcMint } = environment;
+  return { cluster, escrowProgramId, resolverAddress, usdcMint };
+}
+
+/**
+ * Compare the app's profile with the server's.
+ *
+ * @returns What they disagree on, or null if they match
+ */
+export function findEnvironmentMismatch(
+  app: EnvironmentFingerprint,
+  server: EnvironmentFingerprint
+): string | null {
+  if (app.cluster !== server.cluster) {
+    return `The app is on ${app.cluster} but the server is on ${server.cluster}`;
+  }
+  if (app.escrowProgramId !== server.escrowProgramId) {
+    return `The app and the server use different escrow programs (${app.escrowProgramId} vs ${server.escrowProgramId})`;
+  }
+  if (app.resolverAddress !== server.resolverAddress) {
+    return `The app and the server use different escrow resolvers (${app.resolverAddress} vs ${server.resolverAddress})`;
+  }
+  if (app.usdcMint !== server.usdcMint) {
+    return `The app and the server use different USDC mints (${app.usdcMint} vs ${server.usdcMint})`;
+  }
+  return null;
+}
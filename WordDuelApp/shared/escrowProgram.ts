@@ -0,0 +1,275 @@
+/**
+ * Shared Escrow Program Layout
+ *
+ * The byte layout of the Word Duel escrow program (program/src): its
+ * instructions and the per-game escrow account. Imported by the Cloud
+ * Functions (which open and resolve escrows), the mobile app (which
+ * deposits and claims timeout refunds) and the program tests, so every
+ * side encodes exactly what the program decodes.
+ *
+ * Like gameRules.ts, this module must stay dependency-free: public keys are
+ * passed around as raw 32-byte arrays, and each side wraps them in its own
+ * @solana/web3.js types.
+ *
+ * Every game gets its own escrow account, a PDA derived from
+ * ["game", resolver, gameId]. Players deposit into it, and only the
+ * resolver (the server) can pay it out - to the winner, or back to both.
+ * If the resolver never does, either player can refund both deposits once
+ * the escrow's timeout has passed.
+ *
+ * SOL stakes are held by the escrow account itself. SPL token stakes (USDC)
+ * are held by its vault: the escrow's associated token account for the
+ * game's mint. Token games pass a few extra accounts to each instruction -
+ * see the encoders below.
+ */
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+// First seed of every game escrow PDA
+export const GAME_ESCROW_SEED = 'game';
+
+// Game IDs are used as a PDA seed, which is capped at 32 bytes
+export const MAX_GAME_ID_LENGTH = 32;
+
+// How long after opening an escrow either player may take their deposit back
+export const ESCROW_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+// Instruction tags (first byte of the instruction data)
+export const EscrowInstruction = {
+  CreateGame: 0,
+  Deposit: 1,
+  Resolve: 2,
+  RefundExpired: 3,
+} as const;
+
+// Who a Resolve instruction pays
+export const EscrowOutcome = {
+  Refund: 0,        // Tie or cancelled: each deposit goes back to its player
+  Player1Wins: 1,
+  Player2Wins: 2,
+} as const;
+
+export type EscrowOutcomeValue = (typeof EscrowOutcome)[keyof typeof EscrowOutcome];
+
+// ============================================================
+// ACCOUNT LAYOUT
+// ============================================================
+
+// Layout version and size of a game escrow account, in bytes
+export const GAME_ESCROW_VERSION = 2;
+export const GAME_ESCROW_SIZE = 215;
+
+export interface GameEscrowAccount {
+  version: number;
+  bump: number;
+  gameId: string;
+  resolver: Uint8Array;
+  player1: Uint8Array;
+  player2: Uint8Array;
+  treasury: Uint8Array;
+  stake: number;            // What each player deposits, in the stake's smallest unit
+  feeBps: number;           // Platform fee on the winner's payout
+  player1Deposited: boolean;
+  player2Deposited: boolean;
+  timeoutAt: number;        // Unix seconds; after this either player can refund
+  mint: Uint8Array | null;  // The staked token's mint, or null for SOL
+}
+
+/**
+ * Decode a game escrow account's data.
+ *
+ * @returns The account, or null if the data isn't a game escrow
+ */
+export function decodeGameEscrow(data: Uint8Array): GameEscrowAccount | null {
+  if (data.length !== GAME_ESCROW_SIZE || data[0] !== GAME_ESCROW_VERSION) return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const gameIdLength = data[2];
+
+  return {
+    version: data[0],
+    bump: data[1],
+    gameId: decodeAscii(data.slice(3, 3 + gameIdLength)),
+    resolver: data.slice(35, 67),
+    player1: data.slice(67, 99),
+    player2: data.slice(99, 131),
+    treasury: data.slice(131, 163),
+    stake: getUint64(view, 163),
+    feeBps: view.getUint16(171, true),
+    player1Deposited: data[173] === 1,
+    player2Deposited: data[174] === 1,
+    timeoutAt: getUint64(view, 175),
+    mint: decodeMint(data.slice(183, 215)),
+  };
+}
+
+// ============================================================
+// INSTRUCTION DATA
+// ============================================================
+
+export interface CreateGameArgs {
+  gameId: string;
+  player1: Uint8Array;
+  player2: Uint8Array;
+  treasury: Uint8Array;
+  stake: number;            // What each player deposits, in the stake's smallest unit
+  feeBps: number;
+  timeoutAt: number;        // Unix seconds
+  mint: Uint8Array | null;  // The staked token's mint, or null for SOL
+}
+
+/**
+ * Get the seeds of a game's escrow PDA (before the bump).
+ */
+export function getGameEscrowSeeds(resolver: Uint8Array, gameId: string): Uint8Array[] {
+  return [encodeAscii(GAME_ESCROW_SEED), resolver, encodeGameId(gameId)];
+}
+
+/**
+ * CreateGame - accounts: [resolver (signer, writable), game escrow (writable), system program]
+ * Token games add: [mint]
+ */
+export function encodeCreateGame(args: CreateGameArgs): Uint8Array {
+  const gameId = encodeGameId(args.gameId);
+  const data = new Uint8Array(180);
+  const view = new DataView(data.buffer);
+
+  data[0] = EscrowInstruction.CreateGame;
+  data[1] = gameId.length;
+  data.set(gameId, 2);
+  data.set(args.player1, 34);
+  data.set(args.player2, 66);
+  data.set(args.treasury, 98);
+  setUint64(view, 130, args.stake);
+  view.setUint16(138, args.feeBps, true);
+  setUint64(view, 140, args.timeoutAt);
+  if (args.mint) data.set(args.mint, 148);
+  return data;
+}
+
+/**
+ * Deposit - accounts: [player (signer, writable), game escrow (writable), system program]
+ * Token games add: [player token account (writable), vault (writable), mint, token program]
+ * The program takes exactly the escrow's stake; no amount is passed.
+ */
+export function encodeDeposit(): Uint8Array {
+  return Uint8Array.of(EscrowInstruction.Deposit);
+}
+
+/**
+ * Resolve - accounts: [resolver (signer, writable), game escrow (writable),
+ * player1 (writable), player2 (writable), treasury (writable)]
+ * Token games add: [vault (writable), token program, then the token accounts
+ * (writable) of player1, player2 and the treasury]
+ */
+export function encodeResolve(outcome: EscrowOutcomeValue): Uint8Array {
+  return Uint8Array.of(EscrowInstruction.Resolve, outcome);
+}
+
+/**
+ * RefundExpired - accounts: [player (signer), game escrow (writable),
+ * player1 (writable), player2 (writable), resolver (writable)]
+ * Token games add: [vault (writable), token program, then the token accounts
+ * (writable) of player1 and player2]
+ */
+export function encodeRefundExpired(): Uint8Array {
+  return Uint8Array.of(EscrowInstruction.RefundExpired);
+}
+
+// ============================================================
+// DEPOSIT MEMOS
+// ============================================================
+
+// The SPL Memo program (v2), which records a UTF-8 note in the transaction
+export const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+/**
+ * The memo every deposit carries, binding it to one game and one player.
+ * The server only credits a deposit whose memo matches the room and the
+ * depositing wallet exactly, so a transfer can never count for another room.
+ */
+export function formatDepositMemo(gameId: string, playerId: string): string {
+  return `wordduel:deposit:${gameId}:${playerId}`;
+}
+
+// ============================================================
+// TOKEN DEPOSITS
+// ============================================================
+
+// A token account's balance as the RPC reports it in a transaction's
+// `meta.postTokenBalances` (only the fields checked here)
+export interface TransactionTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { decimals: number };
+}
+
+/**
+ * Whether a transaction left the escrow's vault holding the game's token:
+ * the vault's balance after the transaction is for the expected mint (with
+ * its decimals), in a token account the escrow owns.
+ *
+ * @param balances - The transaction's `meta.postTokenBalances`
+ * @param vaultIndex - Where the vault sits in the transaction's account keys
+ * @param mint - The game's mint (base58)
+ * @param escrowAddress - The game's escrow (base58), the vault's owner
+ * @param decimals - The mint's decimals
+ */
+export function isVaultTokenBalance(
+  balances: readonly TransactionTokenBalance[] | null | undefined,
+  vaultIndex: number,
+  mint: string,
+  escrowAddress: string,
+  decimals: number
+): boolean {
+  const vaultBalance = balances?.find((balance) => balance.accountIndex === vaultIndex);
+  return (
+    !!vaultBalance &&
+    vaultBalance.mint === mint &&
+    vaultBalance.owner === escrowAddress &&
+    vaultBalance.uiTokenAmount.decimals === decimals
+  );
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function encodeGameId(gameId: string): Uint8Array {
+  const bytes = encodeAscii(gameId);
+  if (bytes.length === 0 || bytes.length > MAX_GAME_ID_LENGTH) {
+    throw new Error(`Game ID must be 1-${MAX_GAME_ID_LENGTH} bytes: ${gameId}`);
+  }
+  return bytes;
+}
+
+// Game IDs are Firebase push IDs, which are plain ASCII
+function encodeAscii(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    if (code > 127) throw new Error(`Not an ASCII string: ${text}`);
+    return code;
+  });
+}
+
+function decodeAscii(bytes: Uint8Array): string {
+  return String.fromCharCode(...bytes);
+}
+
+// SOL games store an all-zero mint
+function decodeMint(bytes: Uint8Array): Uint8Array | null {
+  return bytes.some((byte) => byte !== 0) ? bytes : null;
+}
+
+// Stake amounts and timestamps fit comfortably below 2^53, so plain numbers will do
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 2 ** 32, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+}
+
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
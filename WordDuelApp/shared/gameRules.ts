@@ -0,0 +1,241 @@
+/**
+ * Shared Game Rules
+ *
+ * The single source of truth for Word Duel's game mechanics. This file is
+ * imported by the mobile app, the Cloud Functions and the test player, so
+ * scoring and letter generation can never drift between client and server.
+ *
+ * This module must stay dependency-free (no React Native, no Node APIs) so
+ * it compiles in every environment that imports it.
+ *
+ * Any change that affects how a board is generated or how a word is scored
+ * MUST bump RULES_VERSION. Every GameRoom is stamped with the version it was
+ * created under, and the server refuses to score a game whose version it
+ * does not implement.
+ */
+
+// ============================================================
+// VERSIONING
+// ============================================================
+
+/**
+ * Version of the rules implemented by this module.
+ * Bump this whenever LETTER_FREQUENCIES, the seeded generator,
+ * the scoring table or the word-forming rules change.
+ */
+export const RULES_VERSION = 1;
+
+/**
+ * Checks whether a game was created under the rules this build implements.
+ * Games written before versioning existed have no version and are treated as v1.
+ */
+export function isSupportedRulesVersion(version: number | undefined): boolean {
+  return (version ?? 1) === RULES_VERSION;
+}
+
+// ============================================================
+// BOARD CONSTANTS
+// ============================================================
+
+// Number of letters on the board (4x4 grid)
+export const BOARD_SIZE = 16;
+
+// Shortest word that scores
+export const MIN_WORD_LENGTH = 3;
+
+// Length of a game (the server stores this on each room as durationMs)
+export const GAME_DURATION_MS = 60 * 1000;
+
+// How long after endsAt the server still accepts a word (network latency)
+export const SUBMISSION_GRACE_MS = 2 * 1000;
+
+// How often a player in a game refreshes their lastActivity
+export const HEARTBEAT_INTERVAL_MS = 5 * 1000;
+
+// How long a player can go without a heartbeat before they forfeit
+export const DISCONNECT_GRACE_MS = 20 * 1000;
+
+// Vowels (used to keep random boards playable)
+export const VOWELS = ['A', 'E', 'I', 'O', 'U'];
+
+// ============================================================
+// LETTER DISTRIBUTION
+// ============================================================
+
+/**
+ * Letter frequencies based on English language usage.
+ * More common letters appear more often in the pool.
+ *
+ * This is similar to Scrabble's letter distribution, but adjusted
+ * for a faster-paced game where we want more vowels available.
+ */
+export const LETTER_FREQUENCIES: { readonly [key: string]: number } = {
+  // Vowels - more common (players need these!)
+  A: 9,
+  E: 12,
+  I: 9,
+  O: 8,
+  U: 4,
+
+  // Common consonants
+  N: 6,
+  R: 6,
+  T: 6,
+  L: 4,
+  S: 4,
+  D: 4,
+
+  // Medium frequency consonants
+  G: 3,
+  B: 2,
+  C: 2,
+  M: 2,
+  P: 2,
+  F: 2,
+  H: 2,
+  V: 2,
+  W: 2,
+  Y: 2,
+
+  // Less common consonants
+  K: 1,
+  J: 1,
+  X: 1,
+  Q: 1,
+  Z: 1,
+};
+
+/**
+ * Creates a "bag" of letters weighted by frequency.
+ * Think of this like a Scrabble bag where common letters appear multiple times.
+ */
+export function createLetterBag(): string[] {
+  const bag: string[] = [];
+
+  for (const [letter, count] of Object.entries(LETTER_FREQUENCIES)) {
+    // Add each letter to the bag 'count' times
+    for (let i = 0; i < count; i++) {
+      bag.push(letter);
+    }
+  }
+
+  return bag;
+}
+
+// ============================================================
+// SEEDED LETTER GENERATION
+// ============================================================
+
+/**
+ * Creates a deterministic pseudo-random number generator from a seed.
+ * Given the same seed, the returned function yields the same sequence
+ * of numbers in [0, 1) on every platform.
+ */
+export function createSeededRandom(seed: string): () => number {
+  // Hash the seed string into a 32-bit integer
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash << 5) - hash + seed.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+
+  // Linear congruential generator seeded with the hash
+  return () => {
+    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
+    return hash / 0x7fffffff;
+  };
+}
+
+/**
+ * Generates a letter pool from a seed (for multiplayer consistency).
+ * Given the same seed, this always produces the same letters.
+ *
+ * @param seed - The game seed
+ * @param count - How many letters to generate
+ * @returns An array of uppercase letters
+ */
+export function generateLetterPoolFromSeed(
+  seed: string,
+  count: number = BOARD_SIZE
+): string[] {
+  const seededRandom = createSeededRandom(seed);
+
+  // Create letter bag and shuffle with seeded random (Fisher-Yates)
+  const bag = createLetterBag();
+  for (let i = bag.length - 1; i > 0; i--) {
+    const j = Math.floor(seededRandom() * (i + 1));
+    [bag[i], bag[j]] = [bag[j], bag[i]];
+  }
+
+  return bag.slice(0, count);
+}
+
+// ============================================================
+// SCORING
+// ============================================================
+
+/**
+ * Calculates the score for a word based on its length.
+ *
+ * Scoring system:
+ * - 3 letters = 3 points
+ * - 4 letters = 5 points
+ * - 5 letters = 8 points
+ * - 6 letters = 12 points
+ * - 7 letters = 17 points
+ * - 8+ letters = 23+ points (keeps increasing)
+ *
+ * @param word - The word to score
+ * @returns The point value of the word
+ */
+export function calculateScore(word: string): number {
+  const length = word.length;
+
+  // Words below the minimum length don't score
+  if (length < MIN_WORD_LENGTH) return 0;
+
+  // Score lookup table
+  const scoreTable: { [key: number]: number } = {
+    3: 3,
+    4: 5,
+    5: 8,
+    6: 12,
+    7: 17,
+    8: 23,
+  };
+
+  // For words 8 letters or longer, add 6 points per additional letter
+  if (length > 8) {
+    return 23 + (length - 8) * 6;
+  }
+
+  return scoreTable[length] || 0;
+}
+
+// ============================================================
+// WORD FORMING
+// ============================================================
+
+/**
+ * Checks if a word can be formed from a pool of letters.
+ * Each letter in the pool can be used at most once per word.
+ * Comparison is case-insensitive; the pool is not modified.
+ *
+ * @param word - The word to check
+ * @param letters - Available letters (can contain duplicates)
+ * @returns true if the word can be formed
+ */
+export function canFormWord(word: string, letters: string[]): boolean {
+  const available = letters.map((l) => l.toUpperCase());
+
+  for (const char of word.toUpperCase()) {
+    const index = available.indexOf(char);
+    if (index === -1) {
+      return false;
+    }
+    // Remove the used letter
+    available.splice(index, 1);
+  }
+
+  return true;
+}
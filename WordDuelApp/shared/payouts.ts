@@ -0,0 +1,38 @@
+/**
+ * Shared Payout Maths
+ *
+ * How a winner's pot is split between the winner and the platform fee.
+ * Imported by the Cloud Functions (which send the payout) and the mobile app
+ * (which shows the net prize before anyone deposits), so both always agree.
+ *
+ * Like gameRules.ts, this module must stay dependency-free.
+ *
+ * Fees are in basis points: 100 bps = 1%. Only a winner's payout is charged;
+ * refunds for ties and cancellations always return the full deposit.
+ */
+
+// ============================================================
+// FEES
+// ============================================================
+
+// Basis points in 100%
+export const BPS_DENOMINATOR = 10000;
+
+export interface PotSplit {
+  fee: number;      // Sent to the treasury
+  payout: number;   // Sent to the winner
+}
+
+/**
+ * Split a pot between the winner and the platform fee.
+ * Amounts are in the currency's smallest unit (lamports), and the fee rounds
+ * down so the winner never gets less than the advertised share.
+ *
+ * @param pot - Both deposits together
+ * @param feeBps - The room's fee in basis points (clamped to 0-100%)
+ */
+export function splitPot(pot: number, feeBps: number): PotSplit {
+  const bps = Math.min(Math.max(Math.floor(feeBps) || 0, 0), BPS_DENOMINATOR);
+  const fee = Math.floor((pot * bps) / BPS_DENOMINATOR);
+  return { fee, payout: pot - fee };
+}
@@ -0,0 +1,171 @@
+/**
+ * Word Lists
+ *
+ * Which words count in a game. Every list starts from the same base word
+ * list (an-array-of-english-words), adds the words in its allowlists and
+ * takes out the words in its blocklists (an allowlist beats a blocklist).
+ * The lists live as plain text files in dictionary/, one word per line.
+ *
+ * Each stake tier picks a list (see shared/environments), every game room
+ * records the list it was created with, and practice uses PRACTICE_WORD_LIST.
+ *
+ * The build step (functions/src/build-dictionary.ts) compiles one word index
+ * for all the lists plus each list's blocked words, so a blocked word is
+ * rejected with its own error and never shows up in a board's solution.
+ *
+ * Like gameRules, this module must stay dependency-free so it compiles in
+ * every environment that imports it.
+ */
+
+import {
+  BoardSolution,
+  WordIndex,
+  buildWordIndex,
+  hasWord,
+  minimizeWordIndex,
+  solveBoard,
+} from './wordSolver';
+
+// ============================================================
+// LISTS
+// ============================================================
+
+export type WordListId = 'common' | 'tournament';
+
+export interface WordListDefinition {
+  id: WordListId;
+  label: string;
+  blocklists: string[];     // Files in dictionary/ whose words are taken out
+  allowlists: string[];     // Files in dictionary/ whose words are always in
+}
+
+export const WORD_LISTS: Record<WordListId, WordListDefinition> = {
+  // Everyday words: no offensive words, fragments or abbreviations
+  common: {
+    id: 'common',
+    label: 'Common words',
+    blocklists: ['offensive', 'obscure'],
+    allowlists: ['allowlist'],
+  },
+  // The full list, less offensive words
+  tournament: {
+    id: 'tournament',
+    label: 'Full tournament list',
+    blocklists: ['offensive'],
+    allowlists: ['allowlist'],
+  },
+};
+
+// Used by rooms created before word lists existed
+export const DEFAULT_WORD_LIST: WordListId = 'tournament';
+
+// Used by practice games
+export const PRACTICE_WORD_LIST: WordListId = 'common';
+
+/**
+ * The list a room (or tier) plays with, falling back to DEFAULT_WORD_LIST
+ * for rooms that don't name one.
+ */
+export function getWordListId(id: unknown): WordListId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(WORD_LISTS, id)
+    ? (id as WordListId)
+    : DEFAULT_WORD_LIST;
+}
+
+// ============================================================
+// COMPILING
+// ============================================================
+
+// What the build step produces: one index for every list, and what each list blocks
+export interface CompiledWordLists {
+  index: WordIndex;
+  blocked: Record<WordListId, string[]>;
+}
+
+/**
+ * Read a word list file: one word per line, blank lines and # comments ignored.
+ */
+export function parseWordListFile(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+}
+
+/**
+ * Compile the base word list and the dictionary/ files into a DAWG of every
+ * word any list accepts, plus the words each list blocks.
+ *
+ * @param baseWords - The base word list
+ * @param files - The words in each dictionary/ file, by file name
+ */
+export function compileWordLists(
+  baseWords: readonly string[],
+  files: Record<string, string[]>
+): CompiledWordLists {
+  const fileWords = (name: string): string[] => {
+    if (!files[name]) throw new Error(`Missing word list file dictionary/${name}.txt`);
+    return files[name];
+  };
+  const definitions = Object.values(WORD_LISTS);
+
+  const base = new Set(baseWords.map((word) => word.toLowerCase()));
+  const allowedAnywhere = definitions.flatMap((list) => list.allowlists.flatMap(fileWords));
+  const index = minimizeWordIndex(buildWordIndex(Array.from(new Set([...base, ...allowedAnywhere]))));
+
+  const blocked = {} as Record<WordListId, string[]>;
+  for (const list of definitions) {
+    const allowlisted = new Set(list.allowlists.flatMap(fileWords));
+
+    // Its blocklisted words, and words only another list's allowlist added
+    const words = [
+      ...list.blocklists.flatMap(fileWords).filter((word) => hasWord(index, word)),
+      ...allowedAnywhere.filter((word) => !base.has(word)),
+    ].filter((word) => !allowlisted.has(word));
+
+    blocked[list.id] = Array.from(new Set(words)).sort();
+  }
+
+  return { index, blocked };
+}
+
+// ============================================================
+// CHECKING WORDS
+// ============================================================
+
+/**
+ * A word list ready to check words against: the shared word index and the
+ * words this list blocks (lowercase).
+ */
+export interface WordList {
+  id: WordListId;
+  index: WordIndex;
+  blocked: ReadonlySet<string>;
+}
+
+// Whether a word counts: in the list, in the index but blocked, or not a word at all
+export type WordStatus = 'valid' | 'blocked' | 'unknown';
+
+/**
+ * Put together a word list from the compiled index and its blocked words.
+ */
+export function createWordList(id: WordListId, index: WordIndex, blockedWords: readonly string[]): WordList {
+  return { id, index, blocked: new Set(blockedWords) };
+}
+
+/**
+ * Check a word against a list (case-insensitive).
+ */
+export function getWordStatus(list: WordList, word: string): WordStatus {
+  const lower = word.toLowerCase();
+  if (!hasWord(list.index, lower)) return 'unknown';
+  return list.blocked.has(lower) ? 'blocked' : 'valid';
+}
+
+/**
+ * Solve a board with a list: every word in it that the board can form,
+ * never including the list's blocked words.
+ */
+export function solveBoardWithList(list: WordList, letters: string[]): BoardSolution {
+  return solveBoard(list.index, letters, list.blocked);
+}
@@ -0,0 +1,412 @@
+/**
+ * Word Solver
+ *
+ * Finds every dictionary word that can be built from a board's letters.
+ * Used by the app (to show what a player could have found) and by the
+ * Cloud Functions (to record a board's maximum possible score).
+ *
+ * The dictionary is stored as a prefix tree (trie) packed into flat typed
+ * arrays, so ~275k words take a few megabytes instead of a Set of strings.
+ * Solving a board walks the trie once, only following letters that are still
+ * left on the board, which takes milliseconds instead of a scan of every word.
+ *
+ * The shipped dictionary goes one step further: the build step
+ * (functions/src/build-dictionary.ts) merges identical branches of the trie
+ * into a DAWG and writes it in the binary format below, which the app and the
+ * server load in a single pass (see decodeWordIndex).
+ *
+ * Like gameRules, this module must stay dependency-free so it compiles in
+ * every environment that imports it.
+ */
+
+import { MIN_WORD_LENGTH, calculateScore } from './gameRules';
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * A dictionary packed into a trie.
+ *
+ * Node 0 is the root. Each node stores its letter (0-25 for A-Z), whether a
+ * word ends there, its first child and its next sibling. A link of 0 means
+ * "none" (the root is never anyone's child or sibling).
+ */
+export interface WordIndex {
+  nodeCount: number;
+  wordCount: number;
+  letters: Uint8Array;
+  terminal: Uint8Array;
+  firstChild: Int32Array;
+  nextSibling: Int32Array;
+}
+
+// A word that can be built on a board, with what it scores
+export interface SolvedWord {
+  word: string;             // Uppercase, like submitted words
+  score: number;
+}
+
+// Everything a board has to offer
+export interface BoardSolution {
+  words: SolvedWord[];      // Longest first, then alphabetical
+  maxScore: number;         // Total score of every word on the board
+}
+
+// Builds a WordIndex one word at a time (see createWordIndexBuilder)
+export interface WordIndexBuilder {
+  add: (word: string) => boolean;
+  build: () => WordIndex;
+}
+
+// Number of letters in the alphabet the index stores
+const ALPHABET_SIZE = 26;
+
+// Char code of 'a'
+const CHAR_CODE_A = 97;
+
+// ============================================================
+// BUILDING
+// ============================================================
+
+/**
+ * Convert a word to letter numbers (0-25), or null if it has anything but A-Z.
+ */
+function toLetterNumbers(word: string): number[] | null {
+  const lower = word.toLowerCase();
+  const result: number[] = [];
+
+  for (let i = 0; i < lower.length; i++) {
+    const letter = lower.charCodeAt(i) - CHAR_CODE_A;
+    if (letter < 0 || letter >= ALPHABET_SIZE) return null;
+    result.push(letter);
+  }
+  return result;
+}
+
+/**
+ * Start building a word index.
+ *
+ * Words must be added in alphabetical order (the order the word list ships
+ * in), which lets each new node be appended as the last child of its parent.
+ * That keeps building a single pass, so the app can spread it over several
+ * frames. Words with anything but A-Z in them are skipped.
+ */
+export function createWordIndexBuilder(expectedWords: number = 1024): WordIndexBuilder {
+  let capacity = Math.max(16, expectedWords * 3);
+  let letters = new Uint8Array(capacity);
+  let terminal = new Uint8Array(capacity);
+  let firstChild = new Int32Array(capacity);
+  let nextSibling = new Int32Array(capacity);
+
+  let nodeCount = 1; // The root
+  let wordCount = 0;
+
+  // The previous word, and the node of each of its letters (path[0] is the root)
+  let previous: number[] = [];
+  let path: number[] = [0];
+
+  const grow = () => {
+    capacity *= 2;
+    const grownLetters = new Uint8Array(capacity);
+    const grownTerminal = new Uint8Array(capacity);
+    const grownFirstChild = new Int32Array(capacity);
+    const grownNextSibling = new Int32Array(capacity);
+    grownLetters.set(letters);
+    grownTerminal.set(terminal);
+    grownFirstChild.set(firstChild);
+    grownNextSibling.set(nextSibling);
+    letters = grownLetters;
+    terminal = grownTerminal;
+    firstChild = grownFirstChild;
+    nextSibling = grownNextSibling;
+  };
+
+  const add = (word: string): boolean => {
+    const next = toLetterNumbers(word);
+    if (!next || next.length === 0) return false;
+
+    // Share the prefix this word has in common with the previous one
+    let shared = 0;
+    while (shared < next.length && shared < previous.length && next[shared] === previous[shared]) {
+      shared++;
+    }
+
+    if (shared === next.length) {
+      if (shared === previous.length) return false; // Duplicate
+      throw new Error(`Words must be added in alphabetical order ("${word}" is out of order)`);
+    }
+    if (shared < previous.length && next[shared] < previous[shared]) {
+      throw new Error(`Words must be added in alphabetical order ("${word}" is out of order)`);
+    }
+
+    // Where the words part ways, the previous word's node is the parent's last child
+    const lastChild = shared < previous.length ? path[shared + 1] : 0;
+    path = path.slice(0, shared + 1);
+
+    for (let depth = shared; depth < next.length; depth++) {
+      if (nodeCount === capacity) grow();
+
+      const node = nodeCount++;
+      letters[node] = next[depth];
+
+      if (depth === shared && lastChild !== 0) {
+        nextSibling[lastChild] = node;
+      } else {
+        firstChild[path[depth]] = node;
+      }
+      path.push(node);
+    }
+
+    terminal[path[next.length]] = 1;
+    previous = next;
+    wordCount++;
+    return true;
+  };
+
+  const build = (): WordIndex => ({
+    nodeCount,
+    wordCount,
+    letters: letters.slice(0, nodeCount),
+    terminal: terminal.slice(0, nodeCount),
+    firstChild: firstChild.slice(0, nodeCount),
+    nextSibling: nextSibling.slice(0, nodeCount),
+  });
+
+  return { add, build };
+}
+
+/**
+ * Build a word index from a whole word list in one go.
+ * The list is sorted first if it isn't already.
+ */
+export function buildWordIndex(words: readonly string[]): WordIndex {
+  const normalized = words.map((word) => word.toLowerCase());
+  const isSorted = normalized.every((word, i) => i === 0 || normalized[i - 1] <= word);
+  if (!isSorted) normalized.sort();
+
+  const builder = createWordIndexBuilder(normalized.length);
+  for (const word of normalized) {
+    builder.add(word);
+  }
+  return builder.build();
+}
+
+/**
+ * Turn a trie into a DAWG: every set of identical branches (same letters,
+ * same word endings, same children and same later siblings) is stored once.
+ * Lookups and solving work on the result exactly as on the trie.
+ *
+ * Children and siblings are always numbered after their node, so one pass
+ * from the last node back to the root sees every branch before its parent.
+ */
+export function minimizeWordIndex(index: WordIndex): WordIndex {
+  const merged = new Int32Array(index.nodeCount); // Old node -> new node
+  const registry = new Map<string, number>();
+
+  const letters: number[] = [0];
+  const terminal: number[] = [0];
+  const firstChild: number[] = [0];
+  const nextSibling: number[] = [0];
+
+  for (let node = index.nodeCount - 1; node > 0; node--) {
+    const child = merged[index.firstChild[node]];
+    const sibling = merged[index.nextSibling[node]];
+    const key = `${index.letters[node]},${index.terminal[node]},${child},${sibling}`;
+
+    let existing = registry.get(key);
+    if (existing === undefined) {
+      existing = letters.length;
+      registry.set(key, existing);
+      letters.push(index.letters[node]);
+      terminal.push(index.terminal[node]);
+      firstChild.push(child);
+      nextSibling.push(sibling);
+    }
+    merged[node] = existing;
+  }
+  firstChild[0] = merged[index.firstChild[0]];
+
+  return {
+    nodeCount: letters.length,
+    wordCount: index.wordCount,
+    letters: Uint8Array.from(letters),
+    terminal: Uint8Array.from(terminal),
+    firstChild: Int32Array.from(firstChild),
+    nextSibling: Int32Array.from(nextSibling),
+  };
+}
+
+// ============================================================
+// BINARY FORMAT
+// ============================================================
+
+/**
+ * Layout of a compiled word index (all numbers little-endian):
+ *
+ *   0   magic "WDIX"
+ *   4   u32 format version (WORD_INDEX_FORMAT_VERSION)
+ *   8   u32 node count (n)
+ *   12  u32 word count
+ *   16  i32[n] first child
+ *   ..  i32[n] next sibling
+ *   ..  u8[n]  letter
+ *   ..  u8[n]  terminal
+ *
+ * The arrays are stored exactly as WordIndex holds them, so decoding only
+ * creates views over the bytes - nothing is copied or rebuilt. (Typed array
+ * views use the device's byte order, and every device we ship to is
+ * little-endian.)
+ */
+export const WORD_INDEX_FORMAT_VERSION = 1;
+
+const WORD_INDEX_MAGIC = 'WDIX';
+const WORD_INDEX_HEADER_SIZE = 16;
+
+/**
+ * Serialize a word index into the binary format.
+ */
+export function encodeWordIndex(index: WordIndex): Uint8Array {
+  const n = index.nodeCount;
+  const data = new Uint8Array(WORD_INDEX_HEADER_SIZE + n * 10);
+  const view = new DataView(data.buffer);
+
+  for (let i = 0; i < WORD_INDEX_MAGIC.length; i++) {
+    data[i] = WORD_INDEX_MAGIC.charCodeAt(i);
+  }
+  view.setUint32(4, WORD_INDEX_FORMAT_VERSION, true);
+  view.setUint32(8, n, true);
+  view.setUint32(12, index.wordCount, true);
+
+  let offset = WORD_INDEX_HEADER_SIZE;
+  for (const links of [index.firstChild, index.nextSibling]) {
+    for (let node = 0; node < n; node++, offset += 4) {
+      view.setInt32(offset, links[node], true);
+    }
+  }
+  data.set(index.letters.subarray(0, n), offset);
+  data.set(index.terminal.subarray(0, n), offset + n);
+
+  return data;
+}
+
+/**
+ * Load a word index from the binary format in one pass.
+ * Throws if the data isn't a compiled word index this build can read.
+ */
+export function decodeWordIndex(data: Uint8Array): WordIndex {
+  // The 32-bit arrays need 4-byte aligned views
+  const bytes = data.byteOffset % 4 === 0 ? data : data.slice();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const magic = String.fromCharCode(...Array.from(bytes.subarray(0, WORD_INDEX_MAGIC.length)));
+  if (magic !== WORD_INDEX_MAGIC) {
+    throw new Error('Not a compiled word index');
+  }
+  const version = view.getUint32(4, true);
+  if (version !== WORD_INDEX_FORMAT_VERSION) {
+    throw new Error(`Unsupported word index format ${version}`);
+  }
+
+  const n = view.getUint32(8, true);
+  if (bytes.byteLength !== WORD_INDEX_HEADER_SIZE + n * 10) {
+    throw new Error('Compiled word index is truncated');
+  }
+
+  const start = bytes.byteOffset + WORD_INDEX_HEADER_SIZE;
+  return {
+    nodeCount: n,
+    wordCount: view.getUint32(12, true),
+    firstChild: new Int32Array(bytes.buffer, start, n),
+    nextSibling: new Int32Array(bytes.buffer, start + n * 4, n),
+    letters: new Uint8Array(bytes.buffer, start + n * 8, n),
+    terminal: new Uint8Array(bytes.buffer, start + n * 9, n),
+  };
+}
+
+// ============================================================
+// LOOKUP
+// ============================================================
+
+/**
+ * Find the child of a node for a letter (0 if there isn't one).
+ */
+function findChild(index: WordIndex, node: number, letter: number): number {
+  for (let child = index.firstChild[node]; child !== 0; child = index.nextSibling[child]) {
+    if (index.letters[child] === letter) return child;
+  }
+  return 0;
+}
+
+/**
+ * Checks whether a word is in the index (case-insensitive).
+ */
+export function hasWord(index: WordIndex, word: string): boolean {
+  const letters = toLetterNumbers(word);
+  if (!letters || letters.length === 0) return false;
+
+  let node = 0;
+  for (const letter of letters) {
+    node = findChild(index, node, letter);
+    if (node === 0) return false;
+  }
+  return index.terminal[node] === 1;
+}
+
+// ============================================================
+// SOLVING
+// ============================================================
+
+/**
+ * Find every word (MIN_WORD_LENGTH letters or more) that can be built from
+ * a board, using each letter at most once per word, with its score and the
+ * board's maximum possible score.
+ *
+ * @param index - The dictionary to solve against
+ * @param boardLetters - The board's letters (can contain duplicates)
+ * @param blocked - Words to leave out (lowercase), e.g. a word list's blocked words
+ */
+export function solveBoard(
+  index: WordIndex,
+  boardLetters: string[],
+  blocked?: ReadonlySet<string>
+): BoardSolution {
+  // How many of each letter are left to use
+  const remaining = new Array<number>(ALPHABET_SIZE).fill(0);
+  for (const letter of boardLetters) {
+    const number = letter.toLowerCase().charCodeAt(0) - CHAR_CODE_A;
+    if (number >= 0 && number < ALPHABET_SIZE) remaining[number]++;
+  }
+
+  const words: SolvedWord[] = [];
+  const current: string[] = [];
+
+  const visit = (node: number) => {
+    for (let child = index.firstChild[node]; child !== 0; child = index.nextSibling[child]) {
+      const letter = index.letters[child];
+      if (remaining[letter] === 0) continue;
+
+      remaining[letter]--;
+      current.push(String.fromCharCode(CHAR_CODE_A + letter).toUpperCase());
+
+      if (index.terminal[child] === 1 && current.length >= MIN_WORD_LENGTH) {
+        const word = current.join('');
+        if (!blocked?.has(word.toLowerCase())) {
+          words.push({ word, score: calculateScore(word) });
+        }
+      }
+      visit(child);
+
+      current.pop();
+      remaining[letter]++;
+    }
+  };
+  visit(0);
+
+  words.sort((a, b) => b.word.length - a.word.length || a.word.localeCompare(b.word));
+
+  return {
+    words,
+    maxScore: words.reduce((total, { score }) => total + score, 0),
+  };
+}
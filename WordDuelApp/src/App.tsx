@@ -3,12 +3,22 @@
  *
  * This is the "container" for the entire app. It sets up:
  * - Navigation (moving between screens)
+ * - Deep links (wordduel://challenge/CODE opens a friend's challenge)
  * - The wallet connection provider (lets any screen access wallet info)
+ * - A startup check that the server is on the same Solana network as the app,
+ *   which must pass before any screen (or deposit) is reachable
  */
 
-import React, { useEffect } from 'react';
-import { StatusBar } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { NavigationContainer, LinkingOptions } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
@@ -24,10 +34,33 @@ import ResultsScreen from './screens/ResultsScreen';
 // Import the wallet provider (manages wallet connection state)
 import { WalletProvider } from './hooks/useWallet';
 
+// The Solana network this build plays on
+import { APP_ENV, checkServerEnvironment } from './config/environment';
+
 // Create the navigation system
 // Think of this like a book where each screen is a page you can flip to
 const Stack = createNativeStackNavigator();
 
+// Where the startup check against the server stands
+type EnvironmentCheck =
+  | { status: 'checking' }
+  | { status: 'matched' }
+  | { status: 'mismatched'; mismatch: string }
+  | { status: 'failed' };
+
+// Map wordduel:// links onto screens
+// Home stays underneath, so "Cancel" on a challenge always has somewhere to go back to
+const linking: LinkingOptions<any> = {
+  prefixes: ['wordduel://'],
+  config: {
+    initialRouteName: 'Home',
+    screens: {
+      Home: '',
+      Matchmaking: 'challenge/:inviteCode',
+    },
+  },
+};
+
 export default function App() {
   // Start loading the dictionary as soon as the app launches
   // This runs in the background and prevents freezes during gameplay
@@ -35,6 +68,65 @@ export default function App() {
     preloadDictionary();
   }, []);
 
+  // Never let a player deposit on a network the server isn't watching:
+  // nothing past this screen loads until the server has confirmed it matches
+  const [environmentCheck, setEnvironmentCheck] = useState<EnvironmentCheck>({ status: 'checking' });
+
+  const runEnvironmentCheck = useCallback(() => {
+    setEnvironmentCheck({ status: 'checking' });
+    checkServerEnvironment()
+      .then((mismatch) =>
+        setEnvironmentCheck(mismatch ? { status: 'mismatched', mismatch } : { status: 'matched' })
+      )
+      .catch((err) => {
+        console.error('[App] Failed to check the server environment:', err);
+        setEnvironmentCheck({ status: 'failed' });
+      });
+  }, []);
+
+  useEffect(() => {
+    runEnvironmentCheck();
+  }, [runEnvironmentCheck]);
+
+  if (environmentCheck.status === 'checking') {
+    return (
+      <View style={styles.mismatchContainer}>
+        <StatusBar barStyle="light-content" backgroundColor="#1a1a2e" />
+        <ActivityIndicator size="large" color="#ffffff" />
+        <Text style={[styles.mismatchText, styles.checkingText]}>Connecting to the game server...</Text>
+      </View>
+    );
+  }
+
+  if (environmentCheck.status === 'failed') {
+    return (
+      <View style={styles.mismatchContainer}>
+        <StatusBar barStyle="light-content" backgroundColor="#1a1a2e" />
+        <Text style={styles.mismatchTitle}>Can't reach the game server</Text>
+        <Text style={styles.mismatchText}>
+          Word Duel needs to check it's on the same network as the game server before
+          you can play. Check your connection and try again.
+        </Text>
+        <TouchableOpacity style={styles.retryButton} onPress={runEnvironmentCheck}>
+          <Text style={styles.retryButtonText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (environmentCheck.status === 'mismatched') {
+    return (
+      <View style={styles.mismatchContainer}>
+        <StatusBar barStyle="light-content" backgroundColor="#1a1a2e" />
+        <Text style={styles.mismatchTitle}>Wrong network</Text>
+        <Text style={styles.mismatchText}>
+          This build of Word Duel is set up for {APP_ENV.cluster}, but the game server
+          isn't. {environmentCheck.mismatch}.
+        </Text>
+      </View>
+    );
+  }
+
   return (
     // SafeAreaProvider ensures content doesn't overlap with phone notches/edges
     <SafeAreaProvider>
@@ -44,7 +136,7 @@ export default function App() {
         <StatusBar barStyle="light-content" backgroundColor="#1a1a2e" />
 
         {/* NavigationContainer manages which screen is currently showing */}
-        <NavigationContainer>
+        <NavigationContainer linking={linking}>
           <Stack.Navigator
             initialRouteName="Home"
             screenOptions={{
@@ -91,3 +183,39 @@ export default function App() {
     </SafeAreaProvider>
   );
 }
+
+const styles = StyleSheet.create({
+  mismatchContainer: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  mismatchTitle: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  mismatchText: {
+    color: '#a0a0b0',
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  checkingText: {
+    marginTop: 16,
+  },
+  retryButton: {
+    backgroundColor: '#7c3aed',
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  retryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,82 @@
+/**
+ * App Environment
+ *
+ * Which Solana network the app plays on. Every network setting - cluster,
+ * RPC endpoint, escrow program and resolver - comes from the shared profile
+ * picked here (see shared/environments.ts), the same table the server uses.
+ *
+ * The profile is picked at build time with the SOLANA_ENV variable
+ * (localnet, devnet or mainnet; devnet if unset), the same variable the
+ * Cloud Functions use. babel.config.js bakes it into the bundle.
+ *
+ * At startup the app asks the server which profile it's on, and refuses to
+ * go any further if the two disagree (see checkServerEnvironment). Every game
+ * room also records the server's profile, and the app won't play a game
+ * from another one (see isAppEnvironment).
+ */
+
+import { Platform } from 'react-native';
+import { PublicKey } from '@solana/web3.js';
+import functions from '@react-native-firebase/functions';
+
+import {
+  EnvironmentFingerprint,
+  EnvironmentName,
+  findEnvironmentMismatch,
+  getEnvironment,
+  getEnvironmentFingerprint,
+} from '../../shared/environments';
+
+// ============================================================
+// PROFILE
+// ============================================================
+
+// Throws at startup if the profile is unknown or incomplete
+const profile = getEnvironment(process.env.SOLANA_ENV || 'devnet');
+
+// Current environment: 'localnet' for a local validator, 'devnet' for
+// testing with fake money, 'mainnet' for release
+export const APP_ENVIRONMENT: EnvironmentName = profile.name;
+
+// The Android emulator reaches the host machine (and its validator) at 10.0.2.2
+const rpcUrl =
+  profile.cluster === 'localnet' && Platform.OS === 'android'
+    ? profile.rpcUrl.replace('127.0.0.1', '10.0.2.2')
+    : profile.rpcUrl;
+
+export const APP_ENV = { ...profile, rpcUrl };
+
+// Get current escrow program
+export const getEscrowProgramId = () => new PublicKey(APP_ENV.escrowProgramId);
+
+// Get current resolver (escrow accounts are derived from it)
+export const getEscrowResolver = () => new PublicKey(APP_ENV.resolverAddress);
+
+// ============================================================
+// SERVER CHECK
+// ============================================================
+
+/**
+ * Make sure the server runs on the same cluster, with the same escrow, as the app.
+ *
+ * @returns What they disagree on, or null if they match
+ */
+export async function checkServerEnvironment(): Promise<string | null> {
+  const getServerEnvironmentFn = functions().httpsCallable('getServerEnvironment');
+  const result = await getServerEnvironmentFn({});
+  const data = result.data as { success: boolean; error?: string } & EnvironmentFingerprint;
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to load the server environment');
+  }
+  return findEnvironmentMismatch(getEnvironmentFingerprint(APP_ENV), data);
+}
+
+/**
+ * Whether a game was created by a server on this build's profile, so its
+ * escrow is derived from the program and resolver the app uses.
+ * Games created before rooms recorded their environment have none.
+ */
+export function isAppEnvironment(environment: string | undefined): boolean {
+  return !environment || environment === APP_ENVIRONMENT;
+}
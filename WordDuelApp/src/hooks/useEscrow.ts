@@ -16,7 +16,13 @@ import { useState, useCallback } from 'react';
 import functions from '@react-native-firebase/functions';
 
 import { useWallet, CONNECTION } from './useWallet';
-import { buildSolDepositTransaction } from '../services/escrow';
+import { StakeCurrency } from '../../shared/environments';
+import {
+  buildDepositTransaction,
+  savePendingDeposit,
+  loadPendingDeposit,
+  clearPendingDeposit,
+} from '../services/escrow';
 
 // ============================================================
 // TYPES
@@ -55,7 +61,8 @@ export interface UseEscrowResult {
   statusMessage: string;
 
   // Actions
-  deposit: (gameRoomId: string, amount?: number) => Promise<boolean>;
+  deposit: (gameRoomId: string, amount?: number, currency?: StakeCurrency) => Promise<boolean>;
+  resumeDeposit: (gameRoomId: string, alreadyDeposited: boolean) => Promise<boolean>;
   cancelDeposit: () => Promise<boolean>;
   reset: () => void;
 }
@@ -78,6 +85,33 @@ const STATUS_MESSAGES: Record<EscrowStatus, string> = {
   error: 'Deposit failed',
 };
 
+// ============================================================
+// BACKEND VERIFICATION
+// ============================================================
+
+/**
+ * Ask the backend to verify a sent deposit.
+ * Throws if verification fails.
+ */
+async function verifyDepositWithBackend(
+  gameRoomId: string,
+  txSignature: string,
+  currency: StakeCurrency
+): Promise<void> {
+  const verifyDeposit = functions().httpsCallable('verifyDeposit');
+  const result = await verifyDeposit({
+    gameRoomId,
+    txSignature,
+    currency,
+  });
+
+  const resultData = result.data as { success: boolean; error?: string };
+
+  if (!resultData.success) {
+    throw new Error(resultData.error || 'Verification failed');
+  }
+}
+
 // ============================================================
 // HOOK IMPLEMENTATION
 // ============================================================
@@ -93,20 +127,21 @@ export function useEscrow(): UseEscrowResult {
   const [lastGameRoomId, setLastGameRoomId] = useState<string | null>(null);
 
   /**
-   * Execute a SOL deposit to the escrow wallet.
+   * Execute a deposit into the game's escrow.
    *
    * This handles the complete flow:
-   * 1. Build the SOL transaction
+   * 1. Build the SOL or USDC transaction
    * 2. Send to wallet for user signature
    * 3. Wait for blockchain confirmation
    * 4. Verify with Firebase backend
    *
    * @param gameRoomId - The game room to deposit for
-   * @param amount - Amount to deposit in SOL (default 0.01)
+   * @param amount - Amount to deposit (default 0.01)
+   * @param currency - The game's stake currency (default SOL)
    * @returns true if successful, false if failed
    */
   const deposit = useCallback(
-    async (gameRoomId: string, amount: number = 0.01): Promise<boolean> => {
+    async (gameRoomId: string, amount: number = 0.01, currency: StakeCurrency = 'SOL'): Promise<boolean> => {
       // Validate wallet connection
       if (!isConnected || !publicKey) {
         setError('Wallet not connected');
@@ -120,14 +155,14 @@ export function useEscrow(): UseEscrowResult {
         setTxSignature(null);
         setLastGameRoomId(gameRoomId);
 
-        // Step 1: Build the SOL transaction
+        // Step 1: Build the transaction
         setStatus('building_tx');
-        console.log(`[useEscrow] Building SOL deposit for ${amount}`);
+        console.log(`[useEscrow] Building ${currency} deposit for ${amount}`);
 
-        const transaction = await buildSolDepositTransaction(CONNECTION, {
+        const transaction = await buildDepositTransaction(CONNECTION, {
           playerPublicKey: publicKey,
           amount,
-          currency: 'SOL',
+          currency,
           gameRoomId,
         });
 
@@ -139,6 +174,9 @@ export function useEscrow(): UseEscrowResult {
         setTxSignature(signature);
         console.log(`[useEscrow] Transaction sent: ${signature}`);
 
+        // Remember it until verified, in case the app is closed before then
+        await savePendingDeposit({ gameRoomId, txSignature: signature, currency, sentAt: Date.now() });
+
         // Step 3: Transaction is confirmed (signAndSendTransaction waits for confirmation)
         setStatus('sending');
 
@@ -146,19 +184,8 @@ export function useEscrow(): UseEscrowResult {
         setStatus('verifying');
         console.log('[useEscrow] Verifying deposit with backend...');
 
-        const verifyDeposit = functions().httpsCallable('verifyDeposit');
-        const result = await verifyDeposit({
-          gameRoomId,
-          playerId: publicKey.toString(),
-          txSignature: signature,
-          currency: 'SOL',
-        });
-
-        const resultData = result.data as { success: boolean; error?: string };
-
-        if (!resultData.success) {
-          throw new Error(resultData.error || 'Verification failed');
-        }
+        await verifyDepositWithBackend(gameRoomId, signature, currency);
+        await clearPendingDeposit();
 
         // Success!
         setStatus('complete');
@@ -186,6 +213,51 @@ export function useEscrow(): UseEscrowResult {
     [publicKey, isConnected, signAndSendTransaction]
   );
 
+  /**
+   * Recover our deposit for a game we're returning to after an app restart.
+   *
+   * If the game already shows our deposit, there's nothing left to do. If we
+   * sent a deposit that never got verified, the same transaction is verified
+   * again (never paid twice).
+   *
+   * @param gameRoomId - The game being resumed
+   * @param alreadyDeposited - Whether the game room already has our deposit
+   * @returns true if our deposit is confirmed, false if we still need to deposit
+   */
+  const resumeDeposit = useCallback(
+    async (gameRoomId: string, alreadyDeposited: boolean): Promise<boolean> => {
+      setLastGameRoomId(gameRoomId);
+
+      if (alreadyDeposited) {
+        await clearPendingDeposit();
+        setStatus('complete');
+        return true;
+      }
+
+      const pending = await loadPendingDeposit(gameRoomId);
+      if (!pending) return false;
+
+      try {
+        console.log(`[useEscrow] Re-verifying pending deposit ${pending.txSignature}`);
+        setError(null);
+        setTxSignature(pending.txSignature);
+        setStatus('verifying');
+
+        await verifyDepositWithBackend(gameRoomId, pending.txSignature, pending.currency ?? 'SOL');
+        await clearPendingDeposit();
+
+        setStatus('complete');
+        return true;
+      } catch (err: any) {
+        console.error('[useEscrow] Pending deposit could not be verified:', err);
+        setError(err.message || 'Deposit verification failed');
+        setStatus('error');
+        return false;
+      }
+    },
+    []
+  );
+
   /**
    * Cancel the deposit and request a refund.
    * This calls the Firebase cancelMatchmaking function to refund the escrow.
@@ -205,7 +277,6 @@ export function useEscrow(): UseEscrowResult {
       const cancelMatchmaking = functions().httpsCallable('cancelMatchmaking');
       const result = await cancelMatchmaking({
         gameRoomId: lastGameRoomId,
-        playerId: publicKey.toString(),
       });
 
       const resultData = result.data as { success: boolean; error?: string; refundSignature?: string };
@@ -245,6 +316,7 @@ export function useEscrow(): UseEscrowResult {
     lastGameRoomId,
     statusMessage: error || STATUS_MESSAGES[status],
     deposit,
+    resumeDeposit,
     cancelDeposit,
     reset,
   };
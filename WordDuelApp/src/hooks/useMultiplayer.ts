@@ -11,6 +11,9 @@ import {
   GameRoom,
   PlayerState,
 } from '../services/multiplayer';
+import { isSupportedRulesVersion } from '../../shared/gameRules';
+import { isLocalDictionary } from '../utils/dictionary';
+import { APP_ENVIRONMENT, isAppEnvironment } from '../config/environment';
 
 // ============================================================
 // TYPES
@@ -34,7 +37,10 @@ export interface UseMultiplayerResult {
   error: string | null;
 
   // Actions
-  findMatch: (playerId: string, betAmount?: number) => Promise<void>;
+  findMatch: (playerId: string, tierId: string) => Promise<void>;
+  resumeGame: (playerId: string, gameId: string) => void;
+  createChallenge: (playerId: string, tierId: string) => Promise<void>;
+  joinChallenge: (playerId: string, code: string) => Promise<void>;
   cancelSearch: () => Promise<void>;
   setReady: () => Promise<void>;
   submitWord: (word: string) => Promise<void>;
@@ -84,11 +90,36 @@ export function useMultiplayer(): UseMultiplayerResult {
 
   // Handle game room updates from Firebase
   const handleGameUpdate = useCallback((game: GameRoom) => {
+    // Refuse to play a game scored under rules this build doesn't implement
+    if (!isSupportedRulesVersion(game.rulesVersion)) {
+      setError('This game uses a different rules version. Please update Word Duel.');
+      return;
+    }
+
+    // Never deposit into an escrow derived from another profile's program and resolver
+    if (!isAppEnvironment(game.environment)) {
+      setError(`This game was created on ${game.environment}, but this build of Word Duel plays on ${APP_ENVIRONMENT}.`);
+      return;
+    }
+
+    // Don't play for stakes when our word checks could disagree with the server's
+    if (game.betAmount > 0 && !isLocalDictionary(game.dictionaryHash)) {
+      setError(`This game uses a different dictionary (${game.dictionaryVersion}). Please update Word Duel to play for stakes.`);
+      return;
+    }
+
+    // Refuse a board that doesn't match the seed the server committed to
+    if (!multiplayerService.verifySeedReveal(game)) {
+      setError('Game board failed verification. Please leave this match.');
+      return;
+    }
+
     setGameRoom(game);
 
     // Update status based on game state
     switch (game.status) {
       case 'waiting':
+      case 'ready':
         setStatus('ready');
         break;
       case 'playing':
@@ -97,6 +128,15 @@ export function useMultiplayer(): UseMultiplayerResult {
       case 'finished':
         setStatus('finished');
         break;
+      case 'cancelled':
+        setError(
+          game.cancelReason === 'deposit_deadline'
+            ? "Deposits weren't made in time, so this match was cancelled. Any deposits have been refunded."
+            : game.cancelReason === 'dictionary_changed'
+              ? 'Word Duel updated its dictionary before this match started, so it was cancelled. Any deposits have been refunded.'
+              : 'This match was cancelled. Any deposits have been refunded.'
+        );
+        break;
     }
   }, []);
 
@@ -105,20 +145,19 @@ export function useMultiplayer(): UseMultiplayerResult {
   // --------------------------------------------------------
 
   /**
-   * Start searching for an opponent.
-   * All games use 0.01 SOL bet (fixed).
+   * Start searching for an opponent in a stake tier.
    */
   const findMatch = useCallback(
-    async (playerId: string, betAmount: number = 0.01) => {
+    async (playerId: string, tierId: string) => {
       try {
         setError(null);
         setStatus('searching');
         playerIdRef.current = playerId;
 
-        // Join the matchmaking queue (always SOL)
+        // Join the tier's matchmaking queue
         const cleanup = await multiplayerService.joinQueue(
           playerId,
-          betAmount,
+          tierId,
           (gameId) => {
             // Match found! Join the game
             setStatus('found');
@@ -144,6 +183,53 @@ export function useMultiplayer(): UseMultiplayerResult {
     [handleGameUpdate]
   );
 
+  /**
+   * Reattach to a game we were already matched into (e.g. after an app restart).
+   */
+  const resumeGame = useCallback(
+    (playerId: string, gameId: string) => {
+      setError(null);
+      setStatus('found');
+      playerIdRef.current = playerId;
+
+      const gameCleanup = multiplayerService.joinGame(gameId, playerId, handleGameUpdate);
+      gameCleanupRef.current = gameCleanup;
+    },
+    [handleGameUpdate]
+  );
+
+  /**
+   * Open a private room and wait in it for a friend.
+   */
+  const createChallenge = useCallback(
+    async (playerId: string, tierId: string) => {
+      try {
+        setError(null);
+        const { gameId } = await multiplayerService.createChallenge(tierId);
+        resumeGame(playerId, gameId);
+      } catch (err: any) {
+        setError(err.message || 'Failed to create challenge');
+      }
+    },
+    [resumeGame]
+  );
+
+  /**
+   * Accept a friend's challenge and join their room.
+   */
+  const joinChallenge = useCallback(
+    async (playerId: string, code: string) => {
+      try {
+        setError(null);
+        const gameId = await multiplayerService.joinChallenge(code);
+        resumeGame(playerId, gameId);
+      } catch (err: any) {
+        setError(err.message || 'Failed to join challenge');
+      }
+    },
+    [resumeGame]
+  );
+
   /**
    * Cancel searching for an opponent.
    */
@@ -154,7 +240,7 @@ export function useMultiplayer(): UseMultiplayerResult {
     }
 
     if (playerIdRef.current) {
-      await multiplayerService.leaveQueue(playerIdRef.current);
+      await multiplayerService.leaveQueue();
     }
 
     setStatus('idle');
@@ -168,7 +254,7 @@ export function useMultiplayer(): UseMultiplayerResult {
     if (!gameRoom || !playerIdRef.current) return;
 
     try {
-      await multiplayerService.setPlayerReady(gameRoom.id, playerIdRef.current);
+      await multiplayerService.setPlayerReady(gameRoom.id);
     } catch (err: any) {
       setError(err.message || 'Failed to set ready status');
     }
@@ -183,11 +269,7 @@ export function useMultiplayer(): UseMultiplayerResult {
       if (!gameRoom || !playerIdRef.current) return;
 
       try {
-        await multiplayerService.submitWord(
-          gameRoom.id,
-          playerIdRef.current,
-          word
-        );
+        await multiplayerService.submitWord(gameRoom.id, word);
       } catch (err: any) {
         console.error('Failed to submit word:', err);
       }
@@ -257,6 +339,9 @@ export function useMultiplayer(): UseMultiplayerResult {
     isHost,
     error,
     findMatch,
+    resumeGame,
+    createChallenge,
+    joinChallenge,
     cancelSearch,
     setReady,
     submitWord,
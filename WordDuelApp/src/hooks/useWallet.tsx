@@ -6,6 +6,11 @@
  * wallet apps installed on the phone (like Phantom, Solflare, etc.)
  *
  * Think of this like a "bridge" between Word Duel and the player's wallet.
+ *
+ * Connecting also signs the player in to Firebase: the wallet signs a
+ * one-time message from the server, and the server hands back a login
+ * whose user ID is the wallet address. Cloud Functions use that to know
+ * who's calling, so nobody can play (or forfeit!) as someone else.
  */
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
@@ -14,17 +19,29 @@ import {
   transact,
   Web3MobileWallet,
 } from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
-import { Connection, PublicKey, Transaction, clusterApiUrl } from '@solana/web3.js';
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
 import { Buffer } from 'buffer';
+import auth from '@react-native-firebase/auth';
+import functions from '@react-native-firebase/functions';
+
+import { APP_ENV } from '../config/environment';
+
+// The Solana network we're connecting to (see config/environment.ts)
+const SOLANA_NETWORK = APP_ENV.cluster;
+const CONNECTION = new Connection(APP_ENV.rpcUrl, 'confirmed');
 
-// The Solana network we're connecting to (devnet = fake money for testing)
-const SOLANA_NETWORK = 'devnet';
-const CONNECTION = new Connection(clusterApiUrl(SOLANA_NETWORK), 'confirmed');
+// Wallet apps only know the public clusters. On localnet they just sign,
+// and the app sends the transaction to the local validator itself.
+const IS_LOCALNET = SOLANA_NETWORK === 'localnet';
+const WALLET_CLUSTER = IS_LOCALNET ? 'devnet' : SOLANA_NETWORK;
 
 // Test wallet address for emulator fallback (when no real wallet is available)
 // This is a valid Solana address format (System Program address - safe for testing)
 const TEST_WALLET_ADDRESS = '11111111111111111111111111111111';
 
+// Length of an ed25519 signature (wallets append it to the signed message)
+const SIGNATURE_LENGTH = 64;
+
 // App identity - tells the wallet what app is requesting connection
 const APP_IDENTITY = {
   name: 'Word Duel',
@@ -47,6 +64,9 @@ interface WalletContextType {
   // Whether we're in the middle of connecting
   isConnecting: boolean;
 
+  // Whether the wallet is signed in to Firebase (required for multiplayer)
+  isSignedIn: boolean;
+
   // The player's SOL balance (null if not fetched yet)
   balance: number | null;
 
@@ -66,6 +86,65 @@ interface WalletContextType {
   error: string | null;
 }
 
+// ============================================================
+// SIGN IN - Prove we own the wallet to the server
+// ============================================================
+
+/**
+ * Sign in to Firebase as this wallet.
+ * Must run inside a `transact` session so the wallet can sign the message.
+ *
+ * @param wallet - The open wallet session
+ * @param address - The account address exactly as the wallet returned it
+ * @param walletPublicKey - The parsed wallet public key
+ */
+async function signInWithWallet(
+  wallet: Web3MobileWallet,
+  address: string,
+  walletPublicKey: PublicKey
+): Promise<void> {
+  const walletAddress = walletPublicKey.toBase58();
+
+  // Already signed in as this wallet from a previous session
+  if (auth().currentUser?.uid === walletAddress) return;
+
+  // Step 1: Ask the server for a one-time message to sign
+  const requestNonce = functions().httpsCallable('requestSignInNonce');
+  const nonceResult = await requestNonce({ walletAddress });
+  const nonceData = nonceResult.data as {
+    success: boolean;
+    message?: string;
+    nonceId?: string;
+    error?: string;
+  };
+
+  if (!nonceData.success || !nonceData.message || !nonceData.nonceId) {
+    throw new Error(nonceData.error || 'Failed to start sign-in');
+  }
+
+  // Step 2: Have the wallet sign it (the wallet shows the message to the player)
+  const [signedPayload] = await wallet.signMessages({
+    addresses: [address],
+    payloads: [Buffer.from(nonceData.message, 'utf8')],
+  });
+  const signature = signedPayload.slice(-SIGNATURE_LENGTH);
+
+  // Step 3: Trade the signature for a Firebase login
+  const signIn = functions().httpsCallable('signInWithWallet');
+  const signInResult = await signIn({
+    walletAddress,
+    nonceId: nonceData.nonceId,
+    signature: Buffer.from(signature).toString('base64'),
+  });
+  const signInData = signInResult.data as { success: boolean; token?: string; error?: string };
+
+  if (!signInData.success || !signInData.token) {
+    throw new Error(signInData.error || 'Wallet sign-in failed');
+  }
+
+  await auth().signInWithCustomToken(signInData.token);
+}
+
 // ============================================================
 // CONTEXT - Lets any component access wallet info
 // ============================================================
@@ -85,6 +164,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
   // State variables - these store wallet information
   const [publicKey, setPublicKey] = useState<PublicKey | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
   const [balance, setBalance] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -105,7 +185,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
         // Request permission to use the wallet
         const authorizationResult = await wallet.authorize({
           identity: APP_IDENTITY,
-          cluster: SOLANA_NETWORK,
+          cluster: WALLET_CLUSTER,
         });
 
         // Get the wallet's public address (like an account number)
@@ -148,6 +228,14 @@ export function WalletProvider({ children }: WalletProviderProps) {
           throw new Error(`Unexpected address format: ${typeof addressData}`);
         }
 
+        // Sign in to Firebase as this wallet while the wallet is open
+        await signInWithWallet(
+          wallet,
+          authorizationResult.accounts[0].address,
+          walletPublicKey
+        );
+        setIsSignedIn(true);
+
         setPublicKey(walletPublicKey);
 
         // Fetch the wallet's SOL balance
@@ -160,6 +248,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
       // In dev mode, fall back to test wallet for easier testing
       if (__DEV__ && err.code === 'ERROR_WALLET_NOT_FOUND') {
         console.log('No wallet found - using test wallet for development');
+        console.log('(The test wallet cannot sign in, so multiplayer will be unavailable)');
         const testPublicKey = new PublicKey(TEST_WALLET_ADDRESS);
         setPublicKey(testPublicKey);
         setBalance(1.5); // Fake balance for testing
@@ -178,6 +267,10 @@ export function WalletProvider({ children }: WalletProviderProps) {
   // DISCONNECT - Clear wallet data from the app
   // --------------------------------------------------------
   const disconnect = useCallback(() => {
+    if (auth().currentUser) {
+      auth().signOut().catch((err) => console.error('Sign out error:', err));
+    }
+    setIsSignedIn(false);
     setPublicKey(null);
     setBalance(null);
     setError(null);
@@ -211,7 +304,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
         // Re-authorize (wallet apps may require this each session)
         await wallet.authorize({
           identity: APP_IDENTITY,
-          cluster: SOLANA_NETWORK,
+          cluster: WALLET_CLUSTER,
         });
 
         // Get the latest blockhash (required for transactions)
@@ -221,6 +314,11 @@ export function WalletProvider({ children }: WalletProviderProps) {
         transaction.recentBlockhash = blockhash;
         transaction.feePayer = publicKey;
 
+        if (IS_LOCALNET) {
+          const [signed] = await wallet.signTransactions({ transactions: [transaction] });
+          return CONNECTION.sendRawTransaction(signed.serialize());
+        }
+
         // Sign and send the transaction
         const signatures = await wallet.signAndSendTransactions({
           transactions: [transaction],
@@ -250,6 +348,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
         publicKey,
         isConnected,
         isConnecting,
+        isSignedIn,
         balance,
         connect,
         disconnect,
@@ -25,7 +25,9 @@ import { RouteProp } from '@react-navigation/native';
 
 // Import our utility functions
 import { generateLetterPool, generateRandomLetters, calculateScore } from '../utils/gameLogic';
-import { isValidWord, preloadDictionary } from '../utils/dictionary';
+import { GAME_DURATION_MS } from '../../shared/gameRules';
+import { PRACTICE_WORD_LIST } from '../../shared/wordLists';
+import { checkWord, preloadDictionary } from '../utils/dictionary';
 import LetterTile from '../components/LetterTile';
 
 // Import multiplayer service for real-time sync
@@ -33,7 +35,9 @@ import {
   multiplayerService,
   GameRoom,
   PlayerState,
+  formatStake,
 } from '../services/multiplayer';
+import { getWinnerPrize } from '../services/escrow';
 
 // ============================================================
 // TYPES
@@ -65,6 +69,9 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
   // Get parameters passed from the Home/Matchmaking Screen
   const {
     betAmount = 0,
+    betCurrency = 'SOL',
+    feeBps = 0,
+    tierId = null,
     isPractice = true,
     isMultiplayer = false,
     gameRoomId = null,
@@ -83,12 +90,15 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
   // Cleanup function for Firebase listener
   const gameCleanupRef = useRef<(() => void) | null>(null);
 
+  // Is our own connection to Firebase up? (drives the "reconnecting" banner)
+  const [isConnected, setIsConnected] = useState(true);
+
   // --------------------------------------------------------
   // STATE - All the data that can change during the game
   // --------------------------------------------------------
 
-  // Game timer (starts at 60 seconds)
-  const [timeLeft, setTimeLeft] = useState(60);
+  // Game timer in seconds (multiplayer follows the server's deadline)
+  const [timeLeft, setTimeLeft] = useState(GAME_DURATION_MS / 1000);
 
   // Is the game currently running?
   const [isGameActive, setIsGameActive] = useState(true);
@@ -146,8 +156,11 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
   // MULTIPLAYER SYNC - Subscribe to opponent's score updates
   // --------------------------------------------------------
 
-  // Store game start time for synchronized timer
-  const gameStartTimeRef = useRef<number | null>(null);
+  // Server deadline for the game (the server owns the clock)
+  const gameEndsAtRef = useRef<number | null>(null);
+
+  // Have we restored our words from the server yet? (after an app restart)
+  const wordsRestoredRef = useRef(false);
 
   useEffect(() => {
     if (!isMultiplayer || !gameRoomId || !playerId) return;
@@ -157,14 +170,29 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
       gameRoomId,
       playerId,
       (game: GameRoom) => {
-        // Store game start time for timer sync
-        if (game.startedAt && !gameStartTimeRef.current) {
-          gameStartTimeRef.current = game.startedAt;
+        // Store the server deadline for timer sync
+        if (game.endsAt) {
+          gameEndsAtRef.current = game.endsAt;
+        }
+
+        // The server finished the game (clock ran out or forfeit) - stop playing
+        if (game.status === 'finished') {
+          setTimeLeft(0);
         }
 
         // Find the opponent's state (the player that isn't us)
         const isPlayer1 = game.player1?.odid === playerId;
         const opponent = isPlayer1 ? game.player2 : game.player1;
+
+        // Resuming a game: bring back the words we'd already scored
+        if (!wordsRestoredRef.current) {
+          wordsRestoredRef.current = true;
+          const me = isPlayer1 ? game.player1 : game.player2;
+          if (me?.wordsFound?.length) {
+            setSubmittedWords(me.wordsFound.map((word) => ({ word, score: calculateScore(word) })));
+            setTotalScore(me.score);
+          }
+        }
         if (opponent) {
           setOpponentState(opponent);
         }
@@ -183,20 +211,27 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
   }, [isMultiplayer, gameRoomId, playerId]);
 
   // --------------------------------------------------------
-  // TIMER - Count down every second (synchronized for multiplayer)
+  // PRESENCE - Heartbeat so the server knows we're still here
   // --------------------------------------------------------
 
-  const GAME_DURATION = 60; // seconds
+  useEffect(() => {
+    if (!isMultiplayer || !gameRoomId || !playerId || !isGameActive) return;
+
+    return multiplayerService.trackPresence(gameRoomId, playerId, setIsConnected);
+  }, [isMultiplayer, gameRoomId, playerId, isGameActive]);
+
+  // --------------------------------------------------------
+  // TIMER - Count down every second (synchronized for multiplayer)
+  // --------------------------------------------------------
 
   useEffect(() => {
     if (!isGameActive) return;
 
     // Set up a timer that ticks every second
     const timer = setInterval(() => {
-      if (isMultiplayer && gameStartTimeRef.current) {
-        // Multiplayer: Calculate time based on server start time for sync
-        const elapsed = Math.floor((Date.now() - gameStartTimeRef.current) / 1000);
-        const remaining = Math.max(0, GAME_DURATION - elapsed);
+      if (isMultiplayer && gameEndsAtRef.current) {
+        // Multiplayer: Count down to the server's deadline for sync
+        const remaining = Math.max(0, Math.ceil((gameEndsAtRef.current - Date.now()) / 1000));
         setTimeLeft(remaining);
       } else {
         // Practice mode: Simple countdown
@@ -219,7 +254,7 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
     // Handle game end differently for multiplayer vs practice
     const handleGameEnd = async () => {
       if (isMultiplayer && gameRoomId) {
-        // End the game in Firebase and get final results
+        // Wait for the server to finish the game and pick the winner
         const finalGame = await multiplayerService.endGame(gameRoomId);
 
         // Clean up Firebase listener
@@ -229,8 +264,10 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
         }
 
         // Use Firebase data for authoritative scores
-        let finalOpponentScore = 0;
+        let finalOpponentScore = opponentState?.score || 0;
         let finalMyScore = totalScore;
+        let didWin = finalMyScore > finalOpponentScore;
+        let isTie = finalMyScore === finalOpponentScore;
 
         if (finalGame) {
           const isPlayer1 = finalGame.player1?.odid === playerId;
@@ -238,12 +275,15 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
           const oppState = isPlayer1 ? finalGame.player2 : finalGame.player1;
           finalMyScore = myState?.score || totalScore;
           finalOpponentScore = oppState?.score || 0;
+
+          // The server picked the winner (no winner means a tie)
+          didWin = finalGame.winner === playerId;
+          isTie = !finalGame.winner;
         }
 
-        const didWin = finalMyScore > finalOpponentScore;
-        const isTie = finalMyScore === finalOpponentScore;
-        // Prize is the opponent's bet (your profit from winning)
-        const prizeWon = didWin ? betAmount : 0;
+        // Prize is the whole pot, less the room's platform fee
+        const roomFeeBps = finalGame?.feeBps ?? feeBps;
+        const prizeWon = didWin ? getWinnerPrize(betAmount, roomFeeBps, betCurrency) : 0;
 
         // Navigate to results
         setTimeout(() => {
@@ -251,8 +291,12 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
             score: finalMyScore,
             words: submittedWords,
             betAmount,
+            betCurrency,
+            feeBps: roomFeeBps,
+            tierId,
             isPractice: false,
             playerId,
+            gameRoomId,
             opponentScore: finalOpponentScore,
             opponentName,
             didWin: isTie ? null : didWin,
@@ -273,7 +317,7 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
     };
 
     handleGameEnd();
-  }, [timeLeft, isGameActive, isMultiplayer, gameRoomId, playerId, totalScore, submittedWords, betAmount, opponentName, navigation]);
+  }, [timeLeft, isGameActive, isMultiplayer, gameRoomId, playerId, totalScore, submittedWords, betAmount, betCurrency, feeBps, tierId, opponentName, opponentState, navigation]);
 
   // --------------------------------------------------------
   // GAME ACTIONS
@@ -363,7 +407,7 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
       console.log('[TIMING] Submitting to server for validation');
 
       // Call server-side validation
-      const result = await multiplayerService.submitWord(gameRoomId, playerId, word);
+      const result = await multiplayerService.submitWord(gameRoomId, word);
       console.log('[TIMING] Server response:', Date.now() - t0, 'ms');
 
       if (!result.success) {
@@ -382,10 +426,10 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
     } else {
       // PRACTICE MODE: Client-side validation only
       const validStart = Date.now();
-      const isValid = isValidWord(word);
-      console.log('[TIMING] isValidWord took:', Date.now() - validStart, 'ms');
-      if (!isValid) {
-        setFeedback('Not a word');
+      const wordStatus = checkWord(word, PRACTICE_WORD_LIST);
+      console.log('[TIMING] checkWord took:', Date.now() - validStart, 'ms');
+      if (wordStatus !== 'valid') {
+        setFeedback(wordStatus === 'blocked' ? 'Not allowed' : 'Not a word');
         Vibration.vibrate(100);
         return;
       }
@@ -459,7 +503,9 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
       // Multiplayer: Warn about forfeiting wager
       Alert.alert(
         'Forfeit Match?',
-        `If you quit now, you will forfeit your ${betAmount} SOL wager and your opponent will win.`,
+        betAmount === 0
+          ? 'If you quit now, your opponent will win.'
+          : `If you quit now, you will forfeit your ${formatStake(betAmount, betCurrency)} wager and your opponent will win.`,
         [
           {
             text: 'Keep Playing',
@@ -472,7 +518,7 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
               // Call the forfeit function to update game state and trigger payout
               if (gameRoomId && playerId) {
                 try {
-                  await multiplayerService.forfeitGame(gameRoomId, playerId);
+                  await multiplayerService.forfeitGame(gameRoomId);
                   console.log('[Forfeit] Successfully forfeited game');
                 } catch (err) {
                   console.error('[Forfeit] Error:', err);
@@ -508,7 +554,7 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
         ]
       );
     }
-  }, [isMultiplayer, betAmount, navigation, gameRoomId, playerId]);
+  }, [isMultiplayer, betAmount, betCurrency, navigation, gameRoomId, playerId]);
 
   // --------------------------------------------------------
   // COMPUTED VALUES
@@ -517,6 +563,11 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
   // The current word as a string
   const currentWord = currentWordLetters.map((l) => l.letter).join('');
 
+  // Is the opponent gone? (Re-checked every second as the timer re-renders)
+  const isOpponentDisconnected =
+    isMultiplayer && isGameActive && !!opponentState &&
+    multiplayerService.isPlayerDisconnected(opponentState);
+
   // Format time as MM:SS
   const formattedTime = `${Math.floor(timeLeft / 60)}:${(timeLeft % 60)
     .toString()
@@ -563,6 +614,20 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
         )}
       </View>
 
+      {/* Connection banners (multiplayer only) */}
+      {isMultiplayer && isGameActive && !isConnected && (
+        <View style={styles.connectionBanner}>
+          <Text style={styles.connectionBannerText}>Connection lost, reconnecting…</Text>
+        </View>
+      )}
+      {isConnected && isOpponentDisconnected && opponentState && (
+        <View style={styles.connectionBanner}>
+          <Text style={styles.connectionBannerText}>
+            Opponent disconnected, reconnecting… ({multiplayerService.getForfeitCountdown(opponentState)}s)
+          </Text>
+        </View>
+      )}
+
       {/* Current word being formed */}
       <View style={styles.currentWordSection}>
         <View style={styles.currentWordContainer}>
@@ -645,6 +710,9 @@ export default function GameScreen({ navigation, route }: GameScreenProps) {
         <View style={styles.gameOverOverlay}>
           <Text style={styles.gameOverText}>Time's Up!</Text>
           <Text style={styles.finalScoreText}>Final Score: {totalScore}</Text>
+          {isMultiplayer && (
+            <Text style={styles.finalScoreText}>Waiting for final results...</Text>
+          )}
         </View>
       )}
     </SafeAreaView>
@@ -731,6 +799,21 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
   },
 
+  // Connection banners
+  connectionBanner: {
+    backgroundColor: '#78350f',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
+  connectionBannerText: {
+    color: '#fde68a',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
   // Current word section
   currentWordSection: {
     alignItems: 'center',
@@ -3,12 +3,13 @@
  *
  * This is the main menu of Word Duel. From here, players can:
  * - Connect their Solana wallet
- * - See their SOL balance
- * - Start finding a match (0.01 SOL per game)
+ * - See their SOL balance and skill rating
+ * - Pick a stake tier (free, or a SOL or USDC stake) and see who's waiting in each
+ * - Find a match, or challenge a friend to a private game, at that tier
  * - Practice solo
  */
 
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -18,12 +19,20 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useWallet } from '../hooks/useWallet';
+import {
+  multiplayerService,
+  formatStake,
+  PlayerRating,
+  QueueSizes,
+  StakeTier,
+  DEFAULT_PLAYER_RATING,
+} from '../services/multiplayer';
+import { formatFee, getWinnerPrize } from '../services/escrow';
+import { WORD_LISTS, getWordListId } from '../../shared/wordLists';
 
 // For navigation between screens
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-
-// Fixed bet amount - all games are 0.01 SOL
-const BET_AMOUNT = 0.01;
+import { useFocusEffect } from '@react-navigation/native';
 
 type HomeScreenProps = {
   navigation: NativeStackNavigationProp<any>;
@@ -35,6 +44,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     publicKey,
     isConnected,
     isConnecting,
+    isSignedIn,
     balance,
     connect,
     disconnect,
@@ -42,6 +52,116 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     error,
   } = useWallet();
 
+  // Stake tiers from the server, the one we've picked, and who's waiting in each
+  const [tiers, setTiers] = useState<StakeTier[]>([]);
+  const [selectedTierId, setSelectedTierId] = useState<string | null>(null);
+  const [queueSizes, setQueueSizes] = useState<QueueSizes>({});
+  const selectedTier = tiers.find((tier) => tier.id === selectedTierId) || null;
+
+  // Our skill rating (null until we've finished a game)
+  const [rating, setRating] = useState<PlayerRating | null>(null);
+
+  // --------------------------------------------------------
+  // STAKE TIERS - Load the tiers once, and watch the queues while signed in
+  // --------------------------------------------------------
+
+  useEffect(() => {
+    multiplayerService
+      .getStakeTiers()
+      .then((result) => {
+        setTiers(result);
+        // Start on the cheapest paid tier, like the old fixed stake
+        const initial = result.find((tier) => tier.betAmount > 0) || result[0];
+        setSelectedTierId((current) => current ?? initial?.id ?? null);
+      })
+      .catch((err) => console.error('[Home] Failed to load stake tiers:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!isSignedIn) {
+      setQueueSizes({});
+      return;
+    }
+    return multiplayerService.listenToQueueSizes(setQueueSizes);
+  }, [isSignedIn]);
+
+  // --------------------------------------------------------
+  // RATING - Refresh whenever we come back to this screen (e.g. after a game)
+  // --------------------------------------------------------
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!isSignedIn || !publicKey) {
+        setRating(null);
+        return;
+      }
+
+      let cancelled = false;
+      multiplayerService
+        .getRating(publicKey.toString())
+        .then((result) => {
+          if (!cancelled) setRating(result);
+        })
+        .catch((err) => console.error('[Home] Failed to load rating:', err));
+
+      return () => {
+        cancelled = true;
+      };
+    }, [isSignedIn, publicKey])
+  );
+
+  // --------------------------------------------------------
+  // RESUME - Get back into a live game after the app restarts
+  // --------------------------------------------------------
+
+  useEffect(() => {
+    if (!isSignedIn || !publicKey) return;
+
+    const playerId = publicKey.toString();
+    let cancelled = false;
+
+    multiplayerService
+      .findActiveGame(playerId)
+      .then((game) => {
+        if (cancelled || !game) return;
+
+        console.log(`[Home] Resuming ${game.status} game ${game.id}`);
+        const isPlayer1 = game.player1.odid === playerId;
+        const opponent = isPlayer1 ? game.player2 : game.player1;
+
+        if (game.status === 'playing' && game.letters) {
+          // Straight back into the game (the timer follows the server clock)
+          navigation.navigate('Game', {
+            betAmount: game.betAmount,
+            betCurrency: game.betCurrency,
+            feeBps: game.feeBps,
+            tierId: game.stakeTier,
+            isPractice: false,
+            isMultiplayer: true,
+            gameRoomId: game.id,
+            playerId,
+            letters: game.letters,
+            opponentName: opponent?.displayName || 'Opponent',
+          });
+        } else {
+          // Still waiting on deposits - pick up where matchmaking left off
+          navigation.navigate('Matchmaking', {
+            playerId,
+            tierId: game.stakeTier,
+            betAmount: game.betAmount,
+            betCurrency: game.betCurrency,
+            feeBps: game.feeBps,
+            resumeGameId: game.id,
+          });
+        }
+      })
+      .catch((err) => console.error('[Home] Failed to check for a live game:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn, publicKey, navigation]);
+
   // --------------------------------------------------------
   // HELPER FUNCTIONS
   // --------------------------------------------------------
@@ -54,10 +174,30 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
 
   // Handle the "Find Match" button press
   const handleFindMatch = () => {
-    // Navigate to matchmaking to find an opponent
+    if (!selectedTier) return;
+
+    // Navigate to matchmaking to find an opponent in the picked tier
     navigation.navigate('Matchmaking', {
       playerId: publicKey?.toString(), // Wallet address as player ID
-      betAmount: BET_AMOUNT,
+      tierId: selectedTier.id,
+      betAmount: selectedTier.betAmount,
+      betCurrency: selectedTier.betCurrency,
+      feeBps: selectedTier.feeBps,
+    });
+  };
+
+  // Handle the "Challenge a Friend" button press
+  const handleChallenge = () => {
+    if (!selectedTier) return;
+
+    // Matchmaking opens the private room and shows the invite
+    navigation.navigate('Matchmaking', {
+      playerId: publicKey?.toString(),
+      tierId: selectedTier.id,
+      betAmount: selectedTier.betAmount,
+      betCurrency: selectedTier.betCurrency,
+      feeBps: selectedTier.feeBps,
+      hostChallenge: true,
     });
   };
 
@@ -98,6 +238,13 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               </Text>
             </View>
 
+            {isSignedIn && (
+              <Text style={styles.ratingText}>
+                Rating {Math.round(rating?.rating ?? DEFAULT_PLAYER_RATING)}
+                {rating ? ` · ${rating.gamesPlayed} games` : ' · unrated'}
+              </Text>
+            )}
+
             {/* Refresh and Disconnect buttons */}
             <View style={styles.walletButtons}>
               <TouchableOpacity
@@ -140,11 +287,41 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         )}
       </View>
 
-      {/* Bet Info - only show when connected */}
+      {/* Stake Tiers - only show when connected */}
       {isConnected && (
         <View style={styles.betSection}>
-          <Text style={styles.betInfoText}>Entry Fee: {BET_AMOUNT} SOL per game</Text>
-          <Text style={styles.betInfoSubtext}>Winner takes all!</Text>
+          <View style={styles.stakeRow}>
+            {tiers.map((tier) => (
+              <TouchableOpacity
+                key={tier.id}
+                style={[styles.stakeChip, tier.id === selectedTierId && styles.stakeChipSelected]}
+                onPress={() => setSelectedTierId(tier.id)}
+              >
+                <Text style={styles.stakeChipText}>{tier.label}</Text>
+                <Text style={styles.stakeChipSubtext}>
+                  {queueSizes[tier.id] || 0} waiting
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {selectedTier && (
+            <>
+              <Text style={styles.betInfoText}>
+                {selectedTier.betAmount === 0
+                  ? 'Free game'
+                  : `Entry Fee: ${formatStake(selectedTier.betAmount, selectedTier.betCurrency)} per game`}
+              </Text>
+              <Text style={styles.betInfoSubtext}>
+                {selectedTier.betAmount === 0
+                  ? 'Play for your rating'
+                  : `Winner gets ${getWinnerPrize(selectedTier.betAmount, selectedTier.feeBps, selectedTier.betCurrency)} ${selectedTier.betCurrency}` +
+                    ` (${formatFee(selectedTier.feeBps)} platform fee)`}
+              </Text>
+              <Text style={styles.betInfoSubtext}>
+                {WORD_LISTS[getWordListId(selectedTier.wordList)].label}
+              </Text>
+            </>
+          )}
         </View>
       )}
 
@@ -155,14 +332,30 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
           style={[
             styles.actionButton,
             styles.primaryButton,
-            !isConnected && styles.disabledButton,
+            (!isConnected || !selectedTier) && styles.disabledButton,
           ]}
           onPress={handleFindMatch}
-          disabled={!isConnected}
+          disabled={!isConnected || !selectedTier}
         >
           <Text style={styles.actionButtonText}>Find Match</Text>
           <Text style={styles.actionButtonSubtext}>
-            {BET_AMOUNT} SOL entry
+            {selectedTier ? `${formatStake(selectedTier.betAmount, selectedTier.betCurrency)} entry` : 'Loading stakes...'}
+          </Text>
+        </TouchableOpacity>
+
+        {/* Challenge Button - private room with an invite link */}
+        <TouchableOpacity
+          style={[
+            styles.actionButton,
+            styles.challengeButton,
+            (!isConnected || !selectedTier) && styles.disabledButton,
+          ]}
+          onPress={handleChallenge}
+          disabled={!isConnected || !selectedTier}
+        >
+          <Text style={styles.actionButtonText}>Challenge a Friend</Text>
+          <Text style={styles.actionButtonSubtext}>
+            {selectedTier?.betAmount ? `${formatStake(selectedTier.betAmount, selectedTier.betCurrency)} each, ` : ''}invite by link
           </Text>
         </TouchableOpacity>
 
@@ -250,6 +443,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#22c55e', // Green for money
   },
+  ratingText: {
+    fontSize: 14,
+    color: '#fbbf24', // Gold
+    marginBottom: 16,
+  },
   walletButtons: {
     flexDirection: 'row',
     gap: 12,
@@ -333,6 +531,33 @@ const styles = StyleSheet.create({
   secondaryButton: {
     backgroundColor: '#374151', // Gray
   },
+  challengeButton: {
+    backgroundColor: '#7c3aed', // Purple
+  },
+  stakeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  stakeChip: {
+    backgroundColor: '#374151',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  stakeChipSelected: {
+    backgroundColor: '#7c3aed',
+  },
+  stakeChipText: {
+    color: '#ffffff',
+    fontSize: 14,
+  },
+  stakeChipSubtext: {
+    color: '#d1d5db',
+    fontSize: 11,
+  },
   disabledButton: {
     backgroundColor: '#1f2937', // Darker gray
     opacity: 0.6,
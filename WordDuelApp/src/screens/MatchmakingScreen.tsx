@@ -7,9 +7,21 @@
  * 3. Deposit funds to the REAL game room ID
  * 4. Wait for opponent's deposit
  * 5. Transition to the game
+ *
+ * When the app restarts mid-matchmaking, Home sends us back here with
+ * `resumeGameId`: we rejoin that room and recover our deposit instead of
+ * searching again.
+ *
+ * Private challenges skip the search:
+ * - `hostChallenge` opens a private room and shows its invite code / link
+ * - `inviteCode` (from a wordduel://challenge/CODE link) joins a friend's room
+ * Either way we go straight to the deposit.
+ *
+ * Free-tier games have nothing to deposit: once matched we just mark
+ * ourselves ready.
  */
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -17,6 +29,7 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   ScrollView,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -25,6 +38,10 @@ import { RouteProp } from '@react-navigation/native';
 // Import hooks
 import { useMultiplayer } from '../hooks/useMultiplayer';
 import { useEscrow, EscrowStatus } from '../hooks/useEscrow';
+import { useWallet } from '../hooks/useWallet';
+import { multiplayerService, formatStake } from '../services/multiplayer';
+import { formatFee, getWinnerPrize } from '../services/escrow';
+import { StakeCurrency } from '../../shared/environments';
 
 // Preload dictionary while waiting for match
 import { preloadDictionary } from '../utils/dictionary';
@@ -39,7 +56,23 @@ type MatchmakingScreenProps = {
 };
 
 // Overall matchmaking phase - NEW ORDER: search first, then deposit
-type MatchmakingPhase = 'searching' | 'matched' | 'depositing' | 'waiting_opponent' | 'starting';
+type MatchmakingPhase =
+  | 'resuming'
+  | 'hosting'
+  | 'joining'
+  | 'searching'
+  | 'matched'
+  | 'depositing'
+  | 'waiting_opponent'
+  | 'starting';
+
+// Pick the first phase from how we got here
+function getInitialPhase(params: any): MatchmakingPhase {
+  if (params?.resumeGameId) return 'resuming';
+  if (params?.hostChallenge) return 'hosting';
+  if (params?.inviteCode) return 'joining';
+  return 'searching';
+}
 
 // ============================================================
 // MAIN COMPONENT
@@ -51,13 +84,22 @@ export default function MatchmakingScreen({
 }: MatchmakingScreenProps) {
   // Get parameters passed from Home Screen
   const {
-    playerId,
+    tierId,
     betAmount = 0.01,
+    betCurrency = 'SOL',
+    feeBps: tierFeeBps = 0,
+    resumeGameId = null,
+    inviteCode = null,
   } = route.params || {};
 
+  // Invite links don't carry a player - use the connected wallet
+  const { publicKey, isSignedIn, isConnecting, connect } = useWallet();
+  const playerId: string | undefined = route.params?.playerId || publicKey?.toString();
+
   // Track the current phase of matchmaking
-  const [phase, setPhase] = useState<MatchmakingPhase>('searching');
+  const [phase, setPhase] = useState<MatchmakingPhase>(() => getInitialPhase(route.params));
   const [depositComplete, setDepositComplete] = useState(false);
+  const challengeRequestedRef = useRef(false);
 
   // Get escrow functions for depositing
   const {
@@ -65,6 +107,7 @@ export default function MatchmakingScreen({
     error: escrowError,
     statusMessage: escrowMessage,
     deposit,
+    resumeDeposit,
     cancelDeposit,
     reset: resetEscrow,
   } = useEscrow();
@@ -75,11 +118,29 @@ export default function MatchmakingScreen({
     gameRoom,
     opponent,
     error: matchError,
+    isHost,
     findMatch,
+    resumeGame,
+    createChallenge,
+    joinChallenge,
     cancelSearch,
     setReady,
   } = useMultiplayer();
 
+  // The room's stake is what the server checks deposits against
+  const wager: number = gameRoom?.betAmount ?? betAmount;
+  const currency: StakeCurrency = gameRoom?.betCurrency ?? betCurrency;
+  const isFreeGame = !!gameRoom && gameRoom.betAmount === 0;
+
+  // The fee is fixed when the room is created; until then, show the tier's
+  const feeBps: number = gameRoom?.feeBps ?? tierFeeBps;
+
+  // A private room stays open until the friend takes the second seat
+  const isAwaitingFriend = !!gameRoom?.inviteCode && !gameRoom.player2;
+
+  // Paid rooms take deposits once the server has opened their on-chain escrow
+  const isEscrowOpen = isFreeGame || !!gameRoom?.escrow?.address;
+
   // --------------------------------------------------------
   // PRELOAD DICTIONARY WHILE WAITING
   // --------------------------------------------------------
@@ -88,17 +149,86 @@ export default function MatchmakingScreen({
     preloadDictionary();
   }, []);
 
+  // --------------------------------------------------------
+  // RESUMING - Rejoin a room we were matched into before a restart
+  // --------------------------------------------------------
+
+  useEffect(() => {
+    if (resumeGameId && playerId) {
+      console.log(`[Matchmaking] Resuming game ${resumeGameId}`);
+      resumeGame(playerId, resumeGameId);
+    }
+  }, [resumeGameId, playerId, resumeGame]);
+
+  useEffect(() => {
+    if (phase !== 'resuming' || !gameRoom) return;
+
+    // Was our deposit already recorded, or sent but never verified?
+    const myDeposit = isHost ? gameRoom.escrow?.player1Deposit : gameRoom.escrow?.player2Deposit;
+    setPhase('depositing');
+
+    resumeDeposit(gameRoom.id, !!myDeposit).then((recovered) => {
+      if (recovered) {
+        setDepositComplete(true);
+        setPhase('waiting_opponent');
+        setReady();
+      } else {
+        // Nothing to recover - deposit as usual (or retry, if re-verifying failed)
+        setPhase('matched');
+      }
+    });
+  }, [phase, gameRoom, isHost, resumeDeposit, setReady]);
+
+  // --------------------------------------------------------
+  // CHALLENGES - Open a private room, or accept a friend's invite
+  // --------------------------------------------------------
+
+  useEffect(() => {
+    if (phase !== 'hosting' && phase !== 'joining') return;
+    if (!playerId || !isSignedIn || challengeRequestedRef.current) return;
+
+    challengeRequestedRef.current = true;
+    if (phase === 'hosting') {
+      console.log(`[Matchmaking] Opening a ${tierId} challenge...`);
+      createChallenge(playerId, tierId);
+    } else {
+      console.log(`[Matchmaking] Accepting challenge ${inviteCode}...`);
+      joinChallenge(playerId, inviteCode);
+    }
+  }, [phase, playerId, isSignedIn, tierId, inviteCode, createChallenge, joinChallenge]);
+
+  // Once both players are in the room and its escrow is open, deposit
+  useEffect(() => {
+    if ((phase === 'hosting' || phase === 'joining') && gameRoom?.player2 && isEscrowOpen) {
+      setPhase('matched');
+    }
+  }, [phase, gameRoom, isEscrowOpen]);
+
+  // Share the invite as a deep link
+  const handleShareInvite = async () => {
+    if (!gameRoom?.inviteCode) return;
+
+    const link = multiplayerService.getChallengeLink(gameRoom.inviteCode);
+    try {
+      await Share.share({
+        message: `I challenge you to a ${formatStake(wager, currency)} Word Duel! Code ${gameRoom.inviteCode}: ${link}`,
+      });
+    } catch (err) {
+      console.error('[Matchmaking] Failed to share invite:', err);
+    }
+  };
+
   // --------------------------------------------------------
   // PHASE 1: SEARCHING - Start searching immediately
   // --------------------------------------------------------
 
   useEffect(() => {
-    // Start searching when screen loads
-    if (phase === 'searching' && matchStatus === 'idle' && playerId) {
+    // Start searching when screen loads (but don't hammer the server after an error)
+    if (phase === 'searching' && matchStatus === 'idle' && playerId && !matchError) {
       console.log('[Matchmaking] Starting search...');
-      findMatch(playerId, betAmount);
+      findMatch(playerId, tierId);
     }
-  }, [phase, matchStatus, playerId, betAmount, findMatch]);
+  }, [phase, matchStatus, playerId, tierId, findMatch, matchError]);
 
   // --------------------------------------------------------
   // PHASE 2: MATCHED - When opponent found, prompt for deposit
@@ -114,12 +244,20 @@ export default function MatchmakingScreen({
 
   // Auto-start deposit when we have a real game room ID
   useEffect(() => {
-    if (phase === 'matched' && gameRoom?.id && !depositComplete && escrowStatus === 'idle') {
+    if (phase === 'matched' && isFreeGame && !depositComplete) {
+      // Free game - nothing to deposit, just tell the server we're ready
+      setDepositComplete(true);
+      setPhase('waiting_opponent');
+      setReady();
+      return;
+    }
+
+    if (phase === 'matched' && gameRoom?.id && isEscrowOpen && !depositComplete && escrowStatus === 'idle') {
       console.log(`[Matchmaking] Starting deposit for game ${gameRoom.id}`);
       setPhase('depositing');
       handleDeposit();
     }
-  }, [phase, gameRoom, depositComplete, escrowStatus]);
+  }, [phase, gameRoom, isFreeGame, isEscrowOpen, depositComplete, escrowStatus, setReady]);
 
   // --------------------------------------------------------
   // PHASE 3: DEPOSITING - Make the deposit to real game ID
@@ -131,8 +269,8 @@ export default function MatchmakingScreen({
       return;
     }
 
-    console.log(`[Matchmaking] Depositing ${betAmount} SOL to game ${gameRoom.id}`);
-    const success = await deposit(gameRoom.id, betAmount);
+    console.log(`[Matchmaking] Depositing ${wager} ${currency} to game ${gameRoom.id}`);
+    const success = await deposit(gameRoom.id, wager, currency);
 
     if (success) {
       setDepositComplete(true);
@@ -140,7 +278,7 @@ export default function MatchmakingScreen({
       // Signal we're ready (deposit complete)
       setReady();
     }
-  }, [playerId, gameRoom, betAmount, deposit, setReady]);
+  }, [playerId, gameRoom, wager, currency, deposit, setReady]);
 
   // Handle deposit completion
   useEffect(() => {
@@ -167,10 +305,13 @@ export default function MatchmakingScreen({
   // --------------------------------------------------------
 
   useEffect(() => {
-    // Navigate to game when it starts
-    if (matchStatus === 'playing' && gameRoom && phase === 'starting') {
+    // Navigate to game when it starts (letters are revealed by the server at start)
+    if (matchStatus === 'playing' && gameRoom?.letters && phase === 'starting') {
       navigation.replace('Game', {
-        betAmount,
+        betAmount: wager,
+        betCurrency: currency,
+        feeBps,
+        tierId: gameRoom.stakeTier,
         isPractice: false,
         isMultiplayer: true,
         gameRoomId: gameRoom.id,
@@ -179,7 +320,7 @@ export default function MatchmakingScreen({
         opponentName: opponent?.displayName || 'Opponent',
       });
     }
-  }, [matchStatus, gameRoom, phase, navigation, betAmount, playerId, opponent]);
+  }, [matchStatus, gameRoom, phase, navigation, wager, currency, feeBps, playerId, opponent]);
 
   // --------------------------------------------------------
   // HANDLERS
@@ -219,6 +360,16 @@ export default function MatchmakingScreen({
   // Get the main status message based on phase
   const getStatusMessage = (): string => {
     switch (phase) {
+      case 'resuming':
+        return 'Rejoining your match...';
+      case 'hosting':
+        return isAwaitingFriend
+          ? 'Waiting for your friend to join...'
+          : 'Opening your private room...';
+      case 'joining':
+        return isSignedIn
+          ? 'Joining your friend\'s challenge...'
+          : 'Connect your wallet to accept this challenge';
       case 'searching':
         return 'Searching for opponent...';
       case 'matched':
@@ -228,7 +379,11 @@ export default function MatchmakingScreen({
       case 'depositing':
         return escrowMessage || 'Processing deposit...';
       case 'waiting_opponent':
-        return 'Waiting for opponent\'s deposit...';
+        return isAwaitingFriend
+          ? 'Waiting for your friend to join...'
+          : isFreeGame
+          ? 'Waiting for opponent...'
+          : 'Waiting for opponent\'s deposit...';
       case 'starting':
         return 'Starting game...';
       default:
@@ -239,10 +394,15 @@ export default function MatchmakingScreen({
   // Check if we should show the spinner
   const showSpinner =
     phase === 'searching' ||
+    ((phase === 'hosting' || phase === 'joining') && isSignedIn && !matchError) ||
     (phase === 'depositing' && ['building_tx', 'awaiting_signature', 'sending', 'verifying'].includes(escrowStatus)) ||
     phase === 'waiting_opponent' ||
     phase === 'starting';
 
+  // Still looking for (or waiting on) the other player
+  const isFindingOpponent =
+    phase === 'searching' || phase === 'hosting' || phase === 'joining' || isAwaitingFriend;
+
   // Get current error message
   const errorMessage = escrowError || matchError;
 
@@ -264,6 +424,7 @@ export default function MatchmakingScreen({
         <Text style={styles.subtitle}>
           {phase === 'depositing' ? 'Secure your wager' :
            phase === 'searching' ? 'Finding opponent' :
+           phase === 'hosting' || isAwaitingFriend ? 'Challenge a friend' :
            phase === 'waiting_opponent' ? 'Almost ready' :
            'Get ready to play'}
         </Text>
@@ -273,9 +434,14 @@ export default function MatchmakingScreen({
       <View style={styles.betContainer}>
         <Text style={styles.betLabel}>Wager</Text>
         <Text style={styles.betAmount}>
-          {betAmount} SOL
+          {formatStake(wager, currency)}
+        </Text>
+        <Text style={styles.betNote}>
+          {wager === 0
+            ? 'Just for the rating'
+            : `Winner gets ${getWinnerPrize(wager, feeBps, currency)} ${currency}` +
+              (feeBps > 0 ? ` after a ${formatFee(feeBps)} fee` : '')}
         </Text>
-        <Text style={styles.betNote}>Winner takes all</Text>
       </View>
 
       {/* Progress Steps - Updated order */}
@@ -285,11 +451,11 @@ export default function MatchmakingScreen({
           <View
             style={[
               styles.stepDot,
-              phase !== 'searching' && styles.stepDotComplete,
-              phase === 'searching' && styles.stepDotActive,
+              !isFindingOpponent && styles.stepDotComplete,
+              isFindingOpponent && styles.stepDotActive,
             ]}
           >
-            {phase !== 'searching' && <Text style={styles.stepCheck}>✓</Text>}
+            {!isFindingOpponent && <Text style={styles.stepCheck}>✓</Text>}
           </View>
           <Text style={styles.stepLabel}>Match</Text>
         </View>
@@ -338,11 +504,42 @@ export default function MatchmakingScreen({
         {/* Status Message */}
         <Text style={styles.statusText}>{getStatusMessage()}</Text>
 
+        {/* Connect prompt (invite links can open the app before the wallet is connected) */}
+        {phase === 'joining' && !isSignedIn && (
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={connect}
+            disabled={isConnecting}
+          >
+            <Text style={styles.retryButtonText}>
+              {isConnecting ? 'Connecting...' : 'Connect Wallet'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Invite (private room, until the friend joins) */}
+        {isAwaitingFriend && (
+          <View style={styles.inviteInfo}>
+            <Text style={styles.opponentLabel}>Invite Code</Text>
+            <Text style={styles.inviteCode}>{gameRoom!.inviteCode}</Text>
+            <Text style={styles.inviteNote}>
+              Single use · expires in{' '}
+              {Math.max(0, Math.ceil(((gameRoom!.inviteExpiresAt || 0) - Date.now()) / 60000))} min
+            </Text>
+            <TouchableOpacity style={styles.retryButton} onPress={handleShareInvite}>
+              <Text style={styles.retryButtonText}>Share Invite Link</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Opponent Info (when matched) */}
         {opponent && phase !== 'searching' && (
           <View style={styles.opponentInfo}>
             <Text style={styles.opponentLabel}>Your Opponent</Text>
             <Text style={styles.opponentName}>{opponent.displayName}</Text>
+            {opponent.rating !== undefined && (
+              <Text style={styles.opponentRating}>Rating {opponent.rating}</Text>
+            )}
           </View>
         )}
 
@@ -381,6 +578,7 @@ export default function MatchmakingScreen({
         <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
           <Text style={styles.cancelButtonText}>
             {phase === 'searching' ? 'Cancel Search' :
+             isAwaitingFriend ? 'Cancel Challenge' :
              phase === 'depositing' ? 'Cancel' :
              'Leave Match'}
           </Text>
@@ -523,12 +721,37 @@ const styles = StyleSheet.create({
     color: '#9ca3af',
     marginBottom: 4,
   },
+  inviteInfo: {
+    marginTop: 20,
+    alignItems: 'center',
+    backgroundColor: '#374151',
+    padding: 16,
+    borderRadius: 12,
+  },
+  inviteCode: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#22d3ee',
+    fontFamily: 'monospace',
+    letterSpacing: 6,
+  },
+  inviteNote: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+    marginBottom: 12,
+  },
   opponentName: {
     fontSize: 20,
     fontWeight: 'bold',
     color: '#22d3ee',
     fontFamily: 'monospace',
   },
+  opponentRating: {
+    fontSize: 14,
+    color: '#fbbf24',
+    marginTop: 4,
+  },
   errorContainer: {
     alignItems: 'center',
     marginTop: 16,
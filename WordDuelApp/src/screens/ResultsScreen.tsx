@@ -5,10 +5,13 @@
  * - Final score
  * - All words found
  * - Win/loss status (in multiplayer)
- * - Prize money earned (when betting is enabled)
+ * - Prize money earned (when betting is enabled), net of the platform fee
+ * - What you missed (in multiplayer): the best words nobody found, your
+ *   share of the board's maximum score, and which words each player found
+ * - A rematch offer (in multiplayer): same opponent, same stake, fresh board
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -19,6 +22,11 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
+import { multiplayerService, RematchOffer, formatStake } from '../services/multiplayer';
+import { formatAmount, formatFee } from '../services/escrow';
+import { findPossibleWords, preloadDictionary } from '../utils/dictionary';
+import { BoardAnalysis, analyzeBoard } from '../utils/boardAnalysis';
+import { SolvedWord } from '../../shared/wordSolver';
 
 // ============================================================
 // TYPES
@@ -34,6 +42,10 @@ interface SubmittedWord {
   score: number;
 }
 
+// How a list of words reads in the analysis ("STAR +5 · RAT +3")
+const formatWordList = (list: SolvedWord[]): string =>
+  list.map(({ word, score }) => `${word} +${score}`).join(' · ');
+
 // ============================================================
 // MAIN COMPONENT
 // ============================================================
@@ -44,8 +56,12 @@ export default function ResultsScreen({ navigation, route }: ResultsScreenProps)
     score = 0,
     words = [],
     betAmount = 0,
+    betCurrency = 'SOL',
+    feeBps = 0,
+    tierId = null,
     isPractice = true,
     playerId = null,
+    gameRoomId = null,
     // Multiplayer results
     opponentScore = null,
     opponentName = 'Opponent',
@@ -53,6 +69,135 @@ export default function ResultsScreen({ navigation, route }: ResultsScreenProps)
     prizeWon = null,
   } = route.params || {};
 
+  // Rematch offer after this game (from either player), and a clock for its countdown
+  const [rematchOffer, setRematchOffer] = useState<RematchOffer | null>(null);
+  const [rematchError, setRematchError] = useState<string | null>(null);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // What the board had to offer (multiplayer only - practice boards change as you play)
+  const [analysis, setAnalysis] = useState<BoardAnalysis | null>(null);
+
+  const isMyOffer = rematchOffer?.fromId === playerId;
+  const secondsLeft = rematchOffer
+    ? Math.max(0, Math.ceil((rematchOffer.expiresAt - now) / 1000))
+    : 0;
+  const isOfferOpen = rematchOffer?.status === 'pending' && secondsLeft > 0;
+
+  // --------------------------------------------------------
+  // BOARD ANALYSIS
+  // --------------------------------------------------------
+
+  // Solve the finished board and compare it with both players' words
+  useEffect(() => {
+    if (isPractice || !gameRoomId) return;
+    let cancelled = false;
+
+    const analyze = async () => {
+      const game = await multiplayerService.getGame(gameRoomId);
+      if (!game?.letters) return;
+
+      await preloadDictionary();
+      const solution = findPossibleWords(game.letters, game.wordList);
+      if (cancelled) return;
+
+      // The server recorded the board's maximum when the game ended, so the percentage matches it
+      if (typeof game.maxScore === 'number') {
+        solution.maxScore = game.maxScore;
+      }
+
+      const isPlayer1 = game.player1.odid === playerId;
+      const me = isPlayer1 ? game.player1 : game.player2;
+      const them = isPlayer1 ? game.player2 : game.player1;
+
+      setAnalysis(
+        analyzeBoard(solution, me?.score || 0, me?.wordsFound || [], them?.wordsFound || [])
+      );
+    };
+
+    analyze().catch((err) => console.error('[Results] Failed to analyze the board:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isPractice, gameRoomId, playerId]);
+
+  // --------------------------------------------------------
+  // REMATCH
+  // --------------------------------------------------------
+
+  // Watch for an offer from either side
+  useEffect(() => {
+    if (isPractice || !gameRoomId) return;
+    return multiplayerService.listenForRematch(gameRoomId, setRematchOffer);
+  }, [isPractice, gameRoomId]);
+
+  // Tick the countdown while the offer is open
+  useEffect(() => {
+    if (rematchOffer?.status !== 'pending') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [rematchOffer?.status]);
+
+  // Once accepted, both players head to the new room's deposit
+  useEffect(() => {
+    if (rematchOffer?.status === 'accepted' && rematchOffer.gameId) {
+      navigation.replace('Matchmaking', {
+        playerId,
+        tierId: rematchOffer.stakeTier,
+        betAmount: rematchOffer.betAmount,
+        betCurrency: rematchOffer.betCurrency,
+        resumeGameId: rematchOffer.gameId,
+      });
+    }
+  }, [rematchOffer, navigation, playerId]);
+
+  const handleOfferRematch = async () => {
+    if (!gameRoomId) return;
+    setRematchError(null);
+    try {
+      await multiplayerService.offerRematch(gameRoomId);
+    } catch (err: any) {
+      setRematchError(err.message);
+    }
+  };
+
+  const handleAnswerRematch = async (accept: boolean) => {
+    if (!gameRoomId) return;
+    setRematchError(null);
+    setIsAnswering(true);
+    try {
+      await multiplayerService.respondToRematch(gameRoomId, accept);
+    } catch (err: any) {
+      setRematchError(err.message);
+    } finally {
+      setIsAnswering(false);
+    }
+  };
+
+  // Don't leave an offer hanging when we walk away from it
+  const withdrawOpenOffer = () => {
+    if (gameRoomId && isOfferOpen && isMyOffer) {
+      multiplayerService.withdrawRematch(gameRoomId).catch((err) => {
+        console.log('[Results] Failed to withdraw rematch:', err.message);
+      });
+    }
+  };
+
+  // Describe an offer that's no longer open
+  const getClosedOfferMessage = (): string => {
+    switch (rematchOffer?.status) {
+      case 'accepted':
+        return rematchOffer.error || 'Rematch accepted! Setting up...';
+      case 'declined':
+        return isMyOffer ? `${opponentName} declined the rematch` : 'Rematch declined';
+      case 'withdrawn':
+        return isMyOffer ? 'Rematch offer withdrawn' : `${opponentName} withdrew the rematch`;
+      default:
+        return 'Rematch offer expired';
+    }
+  };
+
   // Sort words by score (highest first)
   const sortedWords = [...(words as SubmittedWord[])].sort(
     (a, b) => b.score - a.score
@@ -73,6 +218,8 @@ export default function ResultsScreen({ navigation, route }: ResultsScreenProps)
 
   // Handle play again button
   const handlePlayAgain = () => {
+    withdrawOpenOffer();
+
     if (isPractice) {
       // Practice mode - go directly to game
       navigation.replace('Game', {
@@ -83,13 +230,17 @@ export default function ResultsScreen({ navigation, route }: ResultsScreenProps)
       // Multiplayer mode - go to matchmaking to find new opponent
       navigation.replace('Matchmaking', {
         playerId,
+        tierId,
         betAmount,
+        betCurrency,
+        feeBps,
       });
     }
   };
 
   // Handle return to home
   const handleGoHome = () => {
+    withdrawOpenOffer();
     navigation.navigate('Home');
   };
 
@@ -146,7 +297,10 @@ export default function ResultsScreen({ navigation, route }: ResultsScreenProps)
         {prizeWon !== null && prizeWon > 0 && (
           <View style={styles.prizeContainer}>
             <Text style={styles.prizeLabel}>You won</Text>
-            <Text style={styles.prizeAmount}>+{prizeWon.toFixed(4)} SOL</Text>
+            <Text style={styles.prizeAmount}>+{formatAmount(prizeWon, betCurrency)}</Text>
+            {feeBps > 0 && (
+              <Text style={styles.prizeNote}>After a {formatFee(feeBps)} platform fee</Text>
+            )}
           </View>
         )}
       </View>
@@ -190,6 +344,83 @@ export default function ResultsScreen({ navigation, route }: ResultsScreenProps)
         )}
       </View>
 
+      {/* What you missed (multiplayer only) */}
+      {analysis && (
+        <View style={styles.analysisSection}>
+          <Text style={styles.wordsSectionTitle}>What You Missed</Text>
+          <Text style={styles.analysisSummary}>
+            You scored {analysis.scorePercent}% of the {analysis.maxScore} points on this board
+          </Text>
+          {analysis.missedWords.length > 0 && (
+            <Text style={styles.analysisLine}>
+              <Text style={styles.analysisLabel}>Nobody found: </Text>
+              {formatWordList(analysis.missedWords)}
+            </Text>
+          )}
+          {analysis.opponentOnlyWords.length > 0 && (
+            <Text style={styles.analysisLine}>
+              <Text style={styles.analysisLabel}>Only {opponentName}: </Text>
+              {formatWordList(analysis.opponentOnlyWords)}
+            </Text>
+          )}
+          {analysis.sharedWords.length > 0 && (
+            <Text style={styles.analysisLine}>
+              <Text style={styles.analysisLabel}>You both found: </Text>
+              {formatWordList(analysis.sharedWords)}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {/* Rematch (multiplayer only) */}
+      {!isPractice && gameRoomId && (
+        <View style={styles.rematchSection}>
+          {!rematchOffer ? (
+            <TouchableOpacity
+              style={[styles.button, styles.rematchButton]}
+              onPress={handleOfferRematch}
+            >
+              <Text style={styles.buttonText}>Rematch · {formatStake(betAmount, betCurrency)}</Text>
+            </TouchableOpacity>
+          ) : isOfferOpen && isMyOffer ? (
+            <View style={styles.rematchRow}>
+              <Text style={styles.rematchText}>
+                Waiting for {opponentName}... {secondsLeft}s
+              </Text>
+              <TouchableOpacity onPress={withdrawOpenOffer}>
+                <Text style={styles.rematchLink}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          ) : isOfferOpen ? (
+            <View>
+              <Text style={styles.rematchText}>
+                {opponentName} wants a rematch ({formatStake(rematchOffer.betAmount, rematchOffer.betCurrency)})! {secondsLeft}s
+              </Text>
+              <View style={styles.actionButtons}>
+                <TouchableOpacity
+                  style={[styles.button, styles.playAgainButton]}
+                  onPress={() => handleAnswerRematch(true)}
+                  disabled={isAnswering}
+                >
+                  <Text style={styles.buttonText}>Accept</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.homeButton]}
+                  onPress={() => handleAnswerRematch(false)}
+                  disabled={isAnswering}
+                >
+                  <Text style={styles.buttonText}>Decline</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <Text style={styles.rematchText}>{getClosedOfferMessage()}</Text>
+          )}
+
+          {rematchError && <Text style={styles.rematchError}>{rematchError}</Text>}
+        </View>
+      )}
+
       {/* Action Buttons */}
       <View style={styles.actionButtons}>
         <TouchableOpacity
@@ -301,6 +532,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fbbf24', // Gold color
   },
+  prizeNote: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 4,
+  },
 
   // Statistics
   statsSection: {
@@ -374,6 +610,58 @@ const styles = StyleSheet.create({
     marginTop: 20,
   },
 
+  // What you missed
+  analysisSection: {
+    backgroundColor: '#16213e',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  analysisSummary: {
+    fontSize: 14,
+    color: '#ffffff',
+    marginBottom: 8,
+  },
+  analysisLine: {
+    fontSize: 13,
+    color: '#22d3ee',
+    marginBottom: 6,
+  },
+  analysisLabel: {
+    color: '#9ca3af',
+    fontWeight: '600',
+  },
+
+  // Rematch
+  rematchSection: {
+    marginBottom: 12,
+  },
+  rematchButton: {
+    flex: 0,
+    backgroundColor: '#7c3aed',
+  },
+  rematchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rematchText: {
+    fontSize: 16,
+    color: '#ffffff',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  rematchLink: {
+    fontSize: 16,
+    color: '#ef4444',
+    marginBottom: 8,
+  },
+  rematchError: {
+    color: '#ef4444',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+
   // Action buttons
   actionButtons: {
     flexDirection: 'row',
@@ -1,24 +1,61 @@
 /**
  * Escrow Service
  *
- * Handles building SOL deposit transactions for the Word Duel escrow system.
+ * Handles building deposit transactions for the Word Duel escrow program.
+ * Each paid game has its own escrow account (a PDA of the program); the
+ * player deposits straight into it, and only the server's resolver can pay
+ * it out - or, once it times out, either player can refund it.
+ *
+ * SOL stakes go into the escrow account itself. USDC stakes go into its
+ * vault: the escrow's associated token account for the USDC mint, which the
+ * first depositor creates.
  *
  * The flow is:
  * 1. App builds a deposit transaction using this service
  * 2. User signs the transaction via their wallet
  * 3. Transaction is sent to Solana blockchain
  * 4. Firebase Function verifies the deposit on-chain
+ *
+ * Between steps 3 and 4 the deposit is saved on the device as "pending",
+ * so if the app is killed before verification finishes, the same
+ * transaction can be verified again on restart instead of paying twice.
  */
 
 import {
   Connection,
   PublicKey,
   Transaction,
+  TransactionInstruction,
   SystemProgram,
-  LAMPORTS_PER_SOL,
 } from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { Buffer } from 'buffer';
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { APP_ENV, getEscrowProgramId, getEscrowResolver } from '../config/environment';
+import { splitPot } from '../../shared/payouts';
+import {
+  StakeCurrency,
+  fromBaseUnits,
+  getCurrencyMint,
+  toBaseUnits,
+} from '../../shared/environments';
+import {
+  MEMO_PROGRAM_ID,
+  decodeGameEscrow,
+  encodeDeposit,
+  encodeRefundExpired,
+  formatDepositMemo,
+  getGameEscrowSeeds,
+} from '../../shared/escrowProgram';
 
-import { getEscrowWallet } from '../config/escrow';
+// Storage key for a deposit that was sent but not yet verified
+const PENDING_DEPOSIT_KEY = 'wordduel:pendingDeposit';
 
 // ============================================================
 // TYPES
@@ -26,19 +63,60 @@ import { getEscrowWallet } from '../config/escrow';
 
 export interface DepositParams {
   playerPublicKey: PublicKey;
-  amount: number; // Amount in SOL (e.g., 0.01)
-  currency: 'SOL';
+  amount: number;         // Stake in `currency` (e.g., 0.01 SOL or 5 USDC)
+  currency: StakeCurrency;
+  gameRoomId: string;     // Written into the deposit's memo, binding it to this room
+}
+
+// A deposit sent on-chain that the server hasn't verified yet
+export interface PendingDeposit {
   gameRoomId: string;
+  txSignature: string;
+  currency?: StakeCurrency; // Missing on deposits saved before USDC stakes (always SOL)
+  sentAt: number;
 }
 
 // ============================================================
 // DEPOSIT TRANSACTION BUILDER
 // ============================================================
 
+/**
+ * Get the address of a game's escrow account.
+ */
+export function getGameEscrowAddress(gameRoomId: string): PublicKey {
+  const seeds = getGameEscrowSeeds(getEscrowResolver().toBytes(), gameRoomId).map((seed) =>
+    Buffer.from(seed)
+  );
+  return PublicKey.findProgramAddressSync(seeds, getEscrowProgramId())[0];
+}
+
+/**
+ * Get the vault that holds a USDC game's stakes: the escrow's associated
+ * token account for the mint (the escrow is a PDA, so it's owned off the curve).
+ */
+export function getEscrowVaultAddress(escrowAddress: PublicKey, mint: PublicKey): PublicKey {
+  return getAssociatedTokenAddressSync(mint, escrowAddress, true);
+}
+
+/**
+ * Build the deposit transaction for a game's currency.
+ */
+export async function buildDepositTransaction(
+  connection: Connection,
+  params: DepositParams
+): Promise<Transaction> {
+  return params.currency === 'SOL'
+    ? buildSolDepositTransaction(connection, params)
+    : buildSplDepositTransaction(connection, params);
+}
+
 /**
  * Build a deposit transaction for SOL.
  *
- * This creates a simple transfer from the player's wallet to the escrow wallet.
+ * This calls the escrow program's Deposit instruction, which moves exactly
+ * the game's stake from the player's wallet into the game's escrow account,
+ * alongside a memo naming the game and the player (the server won't credit
+ * a deposit without it).
  *
  * @param connection - Solana RPC connection
  * @param params - Deposit parameters
@@ -48,21 +126,22 @@ export async function buildSolDepositTransaction(
   connection: Connection,
   params: DepositParams
 ): Promise<Transaction> {
-  const { playerPublicKey, amount } = params;
-  const escrowWallet = getEscrowWallet();
-
-  // Convert SOL to lamports (1 SOL = 1,000,000,000 lamports)
-  const lamports = Math.round(amount * LAMPORTS_PER_SOL);
+  const { playerPublicKey, amount, gameRoomId } = params;
+  const escrowAddress = getGameEscrowAddress(gameRoomId);
 
-  console.log(`[Escrow] Building SOL deposit: ${amount} SOL (${lamports} lamports)`);
+  console.log(`[Escrow] Building SOL deposit: ${amount} SOL (${toBaseUnits(amount, 'SOL')} lamports)`);
   console.log(`[Escrow] From: ${playerPublicKey.toString()}`);
-  console.log(`[Escrow] To: ${escrowWallet.toString()}`);
+  console.log(`[Escrow] To: ${escrowAddress.toString()}`);
 
-  // Create the transfer instruction
-  const transferInstruction = SystemProgram.transfer({
-    fromPubkey: playerPublicKey,
-    toPubkey: escrowWallet,
-    lamports,
+  // The program takes the stake it was opened with - no amount is passed
+  const depositInstruction = new TransactionInstruction({
+    programId: getEscrowProgramId(),
+    keys: [
+      { pubkey: playerPublicKey, isSigner: true, isWritable: true },
+      { pubkey: escrowAddress, isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from(encodeDeposit()),
   });
 
   // Get the latest blockhash (required for transaction validity)
@@ -70,7 +149,147 @@ export async function buildSolDepositTransaction(
 
   // Build the transaction
   const transaction = new Transaction();
-  transaction.add(transferInstruction);
+  transaction.add(depositInstruction, buildDepositMemo(playerPublicKey, gameRoomId));
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = playerPublicKey;
+
+  return transaction;
+}
+
+/**
+ * Build a deposit transaction for an SPL token stake (USDC).
+ *
+ * The escrow's vault is created first if this is the game's first deposit
+ * (the player pays its rent, which goes to the server when the game closes).
+ * The Deposit instruction then moves exactly the stake from the player's
+ * token account into the vault, checking the mint's decimals on the way.
+ *
+ * @param connection - Solana RPC connection
+ * @param params - Deposit parameters
+ * @returns Transaction ready to be signed
+ */
+export async function buildSplDepositTransaction(
+  connection: Connection,
+  params: DepositParams
+): Promise<Transaction> {
+  const { playerPublicKey, amount, currency, gameRoomId } = params;
+  const mintAddress = getCurrencyMint(APP_ENV, currency);
+  if (!mintAddress) {
+    throw new Error(`${currency} is not a token`);
+  }
+
+  const mint = new PublicKey(mintAddress);
+  const escrowAddress = getGameEscrowAddress(gameRoomId);
+  const vault = getEscrowVaultAddress(escrowAddress, mint);
+  const playerTokenAccount = getAssociatedTokenAddressSync(mint, playerPublicKey);
+
+  console.log(`[Escrow] Building ${currency} deposit: ${amount} ${currency} (${toBaseUnits(amount, currency)} units)`);
+  console.log(`[Escrow] From: ${playerTokenAccount.toString()}`);
+  console.log(`[Escrow] To: ${vault.toString()}`);
+
+  // A no-op if the other player already created the vault
+  const createVaultInstruction = createAssociatedTokenAccountIdempotentInstruction(
+    playerPublicKey,
+    vault,
+    escrowAddress,
+    mint
+  );
+
+  const depositInstruction = new TransactionInstruction({
+    programId: getEscrowProgramId(),
+    keys: [
+      { pubkey: playerPublicKey, isSigner: true, isWritable: true },
+      { pubkey: escrowAddress, isSigner: false, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: playerTokenAccount, isSigner: false, isWritable: true },
+      { pubkey: vault, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from(encodeDeposit()),
+  });
+
+  const { blockhash } = await connection.getLatestBlockhash();
+
+  const transaction = new Transaction();
+  transaction.add(
+    createVaultInstruction,
+    depositInstruction,
+    buildDepositMemo(playerPublicKey, gameRoomId)
+  );
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = playerPublicKey;
+
+  return transaction;
+}
+
+/**
+ * The memo naming the game and the player that every deposit carries.
+ * Signed by the player, so the memo can't be attached by anyone else.
+ */
+function buildDepositMemo(playerPublicKey: PublicKey, gameRoomId: string): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(MEMO_PROGRAM_ID),
+    keys: [{ pubkey: playerPublicKey, isSigner: true, isWritable: false }],
+    data: Buffer.from(formatDepositMemo(gameRoomId, playerPublicKey.toBase58()), 'utf8'),
+  });
+}
+
+/**
+ * Build a transaction that takes both deposits back out of a game's escrow
+ * after it has timed out, for when the server never paid the game out.
+ * For a token game, both players' token accounts are created first if needed.
+ *
+ * @returns Transaction ready to be signed, or null if the escrow is closed or hasn't timed out
+ */
+export async function buildTimeoutRefundTransaction(
+  connection: Connection,
+  playerPublicKey: PublicKey,
+  gameRoomId: string
+): Promise<Transaction | null> {
+  const escrowAddress = getGameEscrowAddress(gameRoomId);
+  const account = await connection.getAccountInfo(escrowAddress);
+  const escrow = account ? decodeGameEscrow(account.data) : null;
+
+  if (!escrow || Date.now() < escrow.timeoutAt * 1000) {
+    return null;
+  }
+
+  const players = [new PublicKey(escrow.player1), new PublicKey(escrow.player2)];
+  const keys = [
+    { pubkey: playerPublicKey, isSigner: true, isWritable: false },
+    { pubkey: escrowAddress, isSigner: false, isWritable: true },
+    ...players.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true })),
+    { pubkey: new PublicKey(escrow.resolver), isSigner: false, isWritable: true },
+  ];
+
+  const transaction = new Transaction();
+
+  if (escrow.mint) {
+    const mint = new PublicKey(escrow.mint);
+    const tokenAccounts = players.map((owner) => getAssociatedTokenAddressSync(mint, owner));
+
+    tokenAccounts.forEach((tokenAccount, index) =>
+      transaction.add(
+        createAssociatedTokenAccountIdempotentInstruction(playerPublicKey, tokenAccount, players[index], mint)
+      )
+    );
+    keys.push(
+      { pubkey: getEscrowVaultAddress(escrowAddress, mint), isSigner: false, isWritable: true },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      ...tokenAccounts.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true }))
+    );
+  }
+
+  transaction.add(
+    new TransactionInstruction({
+      programId: getEscrowProgramId(),
+      keys,
+      data: Buffer.from(encodeRefundExpired()),
+    })
+  );
+
+  const { blockhash } = await connection.getLatestBlockhash();
   transaction.recentBlockhash = blockhash;
   transaction.feePayer = playerPublicKey;
 
@@ -85,19 +304,68 @@ export async function buildSolDepositTransaction(
  * Convert SOL amount to lamports.
  */
 export function solToLamports(sol: number): number {
-  return Math.round(sol * LAMPORTS_PER_SOL);
+  return toBaseUnits(sol, 'SOL');
 }
 
 /**
  * Convert lamports to SOL.
  */
 export function lamportsToSol(lamports: number): number {
-  return lamports / LAMPORTS_PER_SOL;
+  return fromBaseUnits(lamports, 'SOL');
+}
+
+/**
+ * Format an amount for display (4 decimals for SOL, cents for USDC).
+ */
+export function formatAmount(amount: number, currency: StakeCurrency = 'SOL'): string {
+  return `${amount.toFixed(currency === 'SOL' ? 4 : 2)} ${currency}`;
+}
+
+/**
+ * What the winner is paid for a stake: both deposits, less the platform fee.
+ * Uses the same split as the server's payout (shared/payouts).
+ */
+export function getWinnerPrize(
+  betAmount: number,
+  feeBps: number = 0,
+  currency: StakeCurrency = 'SOL'
+): number {
+  const { payout } = splitPot(toBaseUnits(betAmount, currency) * 2, feeBps);
+  return fromBaseUnits(payout, currency);
+}
+
+/**
+ * Format a fee in basis points as a percentage (250 → "2.5%").
+ */
+export function formatFee(feeBps: number): string {
+  return `${feeBps / 100}%`;
+}
+
+// ============================================================
+// PENDING DEPOSITS
+// ============================================================
+
+/**
+ * Remember a sent deposit until the server has verified it.
+ */
+export async function savePendingDeposit(deposit: PendingDeposit): Promise<void> {
+  await AsyncStorage.setItem(PENDING_DEPOSIT_KEY, JSON.stringify(deposit));
+}
+
+/**
+ * Get the unverified deposit for a game, if the app was closed mid-deposit.
+ */
+export async function loadPendingDeposit(gameRoomId: string): Promise<PendingDeposit | null> {
+  const stored = await AsyncStorage.getItem(PENDING_DEPOSIT_KEY);
+  if (!stored) return null;
+
+  const deposit = JSON.parse(stored) as PendingDeposit;
+  return deposit.gameRoomId === gameRoomId ? deposit : null;
 }
 
 /**
- * Format a SOL amount for display.
+ * Forget the pending deposit (once verified, or once its game is gone).
  */
-export function formatAmount(amount: number): string {
-  return `${amount.toFixed(4)} SOL`;
+export async function clearPendingDeposit(): Promise<void> {
+  await AsyncStorage.removeItem(PENDING_DEPOSIT_KEY);
 }
@@ -2,7 +2,7 @@
  * Multiplayer Service
  *
  * Handles all multiplayer functionality using Firebase Realtime Database:
- * - Matchmaking (finding opponents)
+ * - Matchmaking (finding opponents, via Cloud Functions)
  * - Game state synchronization
  * - Real-time score updates
  * - Game lifecycle management
@@ -10,7 +10,10 @@
 
 import database from '@react-native-firebase/database';
 import functions from '@react-native-firebase/functions';
-import { generateLetterPoolFromSeed, generateGameSeed } from '../utils/gameLogic';
+import { generateLetterPoolFromSeed, hashSeed } from '../utils/gameLogic';
+import { DISCONNECT_GRACE_MS, HEARTBEAT_INTERVAL_MS } from '../../shared/gameRules';
+import { EnvironmentName, StakeCurrency } from '../../shared/environments';
+import { WordListId } from '../../shared/wordLists';
 
 // ============================================================
 // TYPES
@@ -20,60 +23,139 @@ import { generateLetterPoolFromSeed, generateGameSeed } from '../utils/gameLogic
 export interface PlayerState {
   odid: string;           // Wallet address (player identifier)
   displayName: string;    // Shortened wallet address or nickname
+  rating?: number;        // Rating when the room was created (set by the server)
   score: number;          // Current score
   wordsFound: string[];   // List of words found
   isReady: boolean;       // Has player loaded the game?
-  lastActivity: number;   // Timestamp of last action (for disconnect detection)
+  lastActivity: number;   // Heartbeat timestamp (for disconnect detection)
+  connected?: boolean;    // False while the player's connection is down
 }
 
 // Escrow deposit tracking
 export interface EscrowDeposit {
   txSignature: string;      // Solana transaction signature
-  amount: number;           // Amount in lamports
-  currency: 'SOL';          // Always SOL (USDC removed for simplicity)
+  amount: number;           // Amount in the currency's smallest unit (lamports, or USDC base units)
+  currency: StakeCurrency;
   confirmedAt: number;      // Timestamp when confirmed
 }
 
 // Escrow state for a game
 export interface EscrowState {
+  address?: string;         // The game's escrow account (set once both players are known)
+  timeoutAt?: number;       // After this, either player can refund the escrow on chain
   player1Deposit?: EscrowDeposit;
   player2Deposit?: EscrowDeposit;
   status: 'pending_deposits' | 'locked' | 'paid_out' | 'refunded';
-  payoutTx?: string;        // Payout transaction signature
+  payoutStatus?: 'queued' | 'sent' | 'confirmed' | 'failed'; // Progress of the payout/refund job
+  payoutTx?: string;        // Payout transaction signature (includes the fee transfer)
+  winnerPayout?: number;    // Net amount paid to the winner, in the currency's smallest unit
+  platformFee?: number;     // Fee sent to the treasury, in the same unit (refunds have none)
+  feeBps?: number;          // Fee rate the payout was charged at
   refundTx?: string;        // Refund transaction (for ties/cancellations)
-  payoutError?: string;     // Error message if payout failed
+  payoutError?: string;     // Why the last payout attempt failed (retried automatically)
 }
 
 // Game room structure in Firebase
 export interface GameRoom {
   id: string;
-  status: 'waiting' | 'ready' | 'playing' | 'finished' | 'cancelled';
+  status: 'waiting' | 'ready' | 'playing' | 'finished' | 'cancelled'; // Only the server changes this
   createdAt: number;
   startedAt?: number;
+  durationMs?: number;      // Length of play, set by the server
+  endsAt?: number;          // Server deadline for submissions (startedAt + durationMs)
   endedAt?: number;
-  seed: string;             // Shared seed for letter generation
-  letters: string[];        // The letter pool (generated from seed)
-  betAmount: number;        // Amount bet by each player (always 0.01)
-  betCurrency: 'SOL';       // Always SOL (USDC removed for simplicity)
+  maxScore?: number;        // Most points the board allowed (set by the server when the game ends)
+  seedHash: string;         // SHA-256 of the server-held seed (published before deposits)
+  seed?: string;            // Seed for letter generation (revealed when play starts)
+  letters?: string[];       // The letter pool (revealed with the seed)
+  seedRevealedAt?: number;  // When the seed was revealed
+  rulesVersion: number;     // Version of shared/gameRules the game was created under
+  environment?: EnvironmentName; // Profile of the server that created it (see shared/environments)
+  dictionaryVersion?: string; // Word list the server checks this game's words against
+  dictionaryHash?: string;  // SHA-256 of that compiled dictionary (see shared/dictionaryData)
+  wordList?: WordListId;    // Which words count, from the tier (the default list if missing)
+  stakeTier: string;        // ID of the stake tier the room was created for
+  betAmount: number;        // Amount bet by each player, from the tier (0 for free games)
+  betCurrency: StakeCurrency; // Currency of the stake, from the tier
+  feeBps?: number;          // Platform fee on the winner's payout, in basis points (fixed at creation)
   player1: PlayerState;
   player2?: PlayerState;
-  winner?: string;          // Player ID of winner
+  winner?: string;          // Player ID of winner (set by the server)
   forfeitedBy?: string;     // Player ID who forfeited (if any)
+  depositDeadline?: number; // Paid rooms are cancelled if not funded by then (set when the escrow opens)
+  cancelledBy?: string;     // Player ID who cancelled, or 'server'
+  cancelReason?: 'deposit_deadline' | 'dictionary_changed'; // Why the server cancelled the room
+  inviteCode?: string;      // Invite code, for private challenge rooms
+  inviteExpiresAt?: number; // When the invite code stops working
   escrow?: EscrowState;     // Escrow tracking (deposits and payouts)
 }
 
-// Matchmaking queue entry
+// Matchmaking queue entry (written by the server, keyed by wallet address)
 export interface QueueEntry {
   odid: string;
   displayName: string;
-  betAmount: number;
-  betCurrency: 'SOL';       // Always SOL
+  tierId: string;           // Each stake tier has its own queue
   joinedAt: number;
 }
 
+// A stake players can pick before searching (the list comes from the server)
+export interface StakeTier {
+  id: string;
+  label: string;
+  betAmount: number;        // Stake per player (0 for the free tier)
+  betCurrency: StakeCurrency; // Each currency has its own tiers (and queues)
+  feeBps: number;           // Platform fee on the winner's payout (100 bps = 1%)
+  wordList: WordListId;     // Which words count in this tier's games
+}
+
+// How many players are waiting in each tier's queue, keyed by tier ID
+export type QueueSizes = Record<string, number>;
+
+// A private room we just opened
+export interface Challenge {
+  gameId: string;
+  code: string;
+  expiresAt: number;
+}
+
+// A wallet's Glicko-2 rating (written by the server after each game)
+export interface PlayerRating {
+  rating: number;           // Skill estimate, 1500 to start
+  rd: number;               // Rating deviation - how unsure the rating still is
+  volatility: number;
+  gamesPlayed: number;
+}
+
+// Rating shown for a wallet that hasn't finished a game yet
+export const DEFAULT_PLAYER_RATING = 1500;
+
+// A rematch offered after a game (written by the server, keyed by that game's ID)
+export interface RematchOffer {
+  fromId: string;           // Player who offered
+  toId: string;             // Player who's asked
+  stakeTier: string;        // Same tier as the game before
+  betAmount: number;        // Same stake as the game before
+  betCurrency: StakeCurrency; // Currency of that stake
+  expiresAt: number;        // The offer lapses after this
+  status: 'pending' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+  gameId?: string;          // The new room, once accepted
+  error?: string;           // Why an accepted rematch couldn't start
+}
+
+// Deep links to a challenge look like wordduel://challenge/ABC234
+export const CHALLENGE_LINK_PREFIX = 'wordduel://challenge/';
+
+// How a stake reads on screen ("0.05 SOL", "5 USDC", or "Free" for the free tier)
+export function formatStake(betAmount: number, currency: StakeCurrency = 'SOL'): string {
+  return betAmount === 0 ? 'Free' : `${betAmount} ${currency}`;
+}
+
 // Callback types
 export type GameUpdateCallback = (game: GameRoom) => void;
 export type MatchFoundCallback = (gameId: string) => void;
+export type ConnectionChangeCallback = (connected: boolean) => void;
+export type RematchOfferCallback = (offer: RematchOffer | null) => void;
+export type QueueSizesCallback = (sizes: QueueSizes) => void;
 
 // ============================================================
 // MULTIPLAYER SERVICE CLASS
@@ -91,188 +173,242 @@ class MultiplayerService {
 
   /**
    * Join the matchmaking queue to find an opponent.
-   * If another player is waiting with the same bet amount and currency, creates a game.
-   * Otherwise, waits in the queue until an opponent joins.
+   * Matchmaking runs server-side: the joinMatchmaking function pairs us with a
+   * waiting player in the same stake tier, or queues us until one joins.
+   * Either way, the match arrives through `activeGames/{playerId}`.
    *
    * @param playerId - The player's wallet address
-   * @param betAmount - The amount to bet
-   * @param betCurrency - The currency to use (SOL or USDC)
+   * @param tierId - The stake tier to queue in
    * @param onMatchFound - Callback when a match is found
-   * @returns Cleanup function to leave the queue
+   * @returns Cleanup function that stops listening for a match
    */
   async joinQueue(
     playerId: string,
-    betAmount: number = 0.01,
+    tierId: string,
     onMatchFound: MatchFoundCallback
   ): Promise<() => void> {
-    const displayName = this.shortenAddress(playerId);
-    const queueRef = database().ref('matchmaking/queue');
-
-    console.log('[Matchmaking] Player joining queue:', playerId, 'bet:', betAmount, 'SOL');
+    console.log('[Matchmaking] Player joining queue:', playerId, 'tier:', tierId);
 
-    // Check if there's a player waiting with the same bet amount
-    const snapshot = await queueRef
-      .orderByChild('betAmount')
-      .equalTo(betAmount)
-      .once('value');
+    const joinMatchmakingFn = functions().httpsCallable('joinMatchmaking');
+    const result = await joinMatchmakingFn({ tierId });
+    const data = result.data as { success: boolean; gameId?: string | null; error?: string };
 
-    console.log('[Matchmaking] Queue check - exists:', snapshot.exists());
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to join matchmaking');
+    }
 
-    if (snapshot.exists()) {
-      const entries = snapshot.val();
-      console.log('[Matchmaking] Found entries in queue:', JSON.stringify(entries));
+    // Matched immediately with a waiting player
+    if (data.gameId) {
+      console.log('[Matchmaking] MATCH FOUND! Game:', data.gameId);
+      onMatchFound(data.gameId);
+      return () => {}; // Nothing to clean up - we're already in a game
+    }
 
-      // Find an opponent (not ourselves)
-      for (const [opponentKey, entry] of Object.entries(entries)) {
-        const opponent = entry as QueueEntry;
+    // Queued - wait for the server to pair us with the next player
+    console.log('[Matchmaking] Added to queue, waiting for opponent...');
+    const activeGameRef = database().ref(`activeGames/${playerId}`);
+    let matched = false;
+
+    const listener = activeGameRef.on('value', (snapshot) => {
+      const gameId = snapshot.val() as string | null;
+      if (gameId && !matched) {
+        matched = true;
+        console.log('[Matchmaking] Match found via listener! Game:', gameId);
+        onMatchFound(gameId);
+      }
+    });
 
-        // Skip if it's ourselves
-        if (opponent.odid === playerId) {
-          console.log('[Matchmaking] Found self in queue, skipping');
-          continue;
-        }
+    // Store cleanup function
+    this.queueListener = () => activeGameRef.off('value', listener);
 
-        // Found a valid match!
-        console.log('[Matchmaking] MATCH FOUND! Creating game...');
+    // Return cleanup function
+    return () => {
+      if (this.queueListener) {
+        this.queueListener();
+        this.queueListener = null;
+      }
+    };
+  }
 
-        // Remove opponent from queue
-        await queueRef.child(opponentKey).remove();
+  /**
+   * Leave matchmaking.
+   * Goes through the same cancelMatchmaking function as deposit refunds:
+   * removes our queue entry and cancels (and refunds) any room we were
+   * matched into that hasn't started yet.
+   */
+  async leaveQueue(): Promise<void> {
+    const cancelMatchmakingFn = functions().httpsCallable('cancelMatchmaking');
+    const result = await cancelMatchmakingFn({});
+    const data = result.data as { success: boolean; error?: string };
 
-        // Create a new game room
-        const gameId = await this.createGameRoom(opponent, {
-          odid: playerId,
-          displayName,
-          betAmount,
-          betCurrency: 'SOL',
-          joinedAt: Date.now(),
-        });
+    if (!data.success) {
+      console.error('[Matchmaking] Failed to leave matchmaking:', data.error);
+    }
+  }
 
-        console.log('[Matchmaking] Game created:', gameId);
-        onMatchFound(gameId);
-        return () => {}; // No cleanup needed - game already created
-      }
+  /**
+   * Get the stake tiers players can choose from.
+   */
+  async getStakeTiers(): Promise<StakeTier[]> {
+    const getStakeTiersFn = functions().httpsCallable('getStakeTiers');
+    const result = await getStakeTiersFn({});
+    const data = result.data as { success: boolean; tiers?: StakeTier[]; error?: string };
 
-      console.log('[Matchmaking] No matching opponent found');
+    if (!data.success || !data.tiers) {
+      throw new Error(data.error || 'Failed to load stake tiers');
     }
+    return data.tiers;
+  }
 
-    // No opponent found - add to queue and wait
-    console.log('[Matchmaking] No opponent found, adding to queue...');
-    const myQueueRef = queueRef.push();
-    const queueEntry: QueueEntry = {
-      odid: playerId,
-      displayName,
-      betAmount,
-      betCurrency: 'SOL',
-      joinedAt: Date.now(),
-    };
+  /**
+   * Listen to how many players are waiting in each tier's queue.
+   * The server keeps these counts up to date as players come and go.
+   *
+   * @returns Cleanup function
+   */
+  listenToQueueSizes(onSizes: QueueSizesCallback): () => void {
+    const sizesRef = database().ref('matchmaking/queueSizes');
 
-    await myQueueRef.set(queueEntry);
-    console.log('[Matchmaking] Added to queue, waiting for opponent...');
+    const listener = sizesRef.on(
+      'value',
+      (snapshot) => onSizes((snapshot.val() as QueueSizes | null) || {}),
+      (err) => console.log('[Matchmaking] Queue size listener error:', err.message)
+    );
 
-    // Listen for someone to create a game with us
-    // When we're waiting in queue, we become player1 when matched
-    const gamesRef = database().ref('games');
-    const queryRef = gamesRef
-      .orderByChild('player1/odid')
-      .equalTo(playerId)
-      .limitToLast(1);
+    return () => sizesRef.off('value', listener);
+  }
 
-    console.log('[Matchmaking] Setting up listener for games where player1 =', playerId);
+  // --------------------------------------------------------
+  // RATINGS
+  // --------------------------------------------------------
 
-    const listener = (snapshot: any) => {
-      console.log('[Matchmaking] Game listener triggered!');
-      const game = snapshot.val() as GameRoom;
-      console.log('[Matchmaking] Game data:', JSON.stringify(game));
-      if (game && game.status === 'waiting') {
-        // We were added to a game as player1!
-        console.log('[Matchmaking] Match found via listener! Game:', snapshot.key);
-        myQueueRef.remove(); // Leave the queue
-        onMatchFound(snapshot.key!);
-      }
-    };
+  /**
+   * Get our own rating, or null if we haven't finished a game yet.
+   * Ratings are updated by the server whenever a game finishes.
+   */
+  async getRating(playerId: string): Promise<PlayerRating | null> {
+    const snapshot = await database().ref(`ratings/${playerId}`).once('value');
+    return snapshot.val() as PlayerRating | null;
+  }
 
-    queryRef.on('child_added', listener);
+  // --------------------------------------------------------
+  // PRIVATE CHALLENGES
+  // --------------------------------------------------------
 
-    // Store cleanup function
-    this.queueListener = () => queryRef.off('child_added', listener);
+  /**
+   * Open a private room and get an invite code for it.
+   * We're bound to the room straight away, like a match from the queue.
+   *
+   * @param tierId - The stake tier both players will play for
+   */
+  async createChallenge(tierId: string): Promise<Challenge> {
+    const createChallengeFn = functions().httpsCallable('createChallenge');
+    const result = await createChallengeFn({ tierId });
+    const data = result.data as { success: boolean; error?: string } & Partial<Challenge>;
 
-    // Return cleanup function
-    return () => {
-      myQueueRef.remove();
-      if (this.queueListener) {
-        this.queueListener();
-        this.queueListener = null;
-      }
-    };
+    if (!data.success || !data.gameId || !data.code || !data.expiresAt) {
+      throw new Error(data.error || 'Failed to create challenge');
+    }
+
+    console.log('[Challenge] Opened game', data.gameId, 'with code', data.code);
+    return { gameId: data.gameId, code: data.code, expiresAt: data.expiresAt };
   }
 
   /**
-   * Leave the matchmaking queue without finding a match.
+   * Accept a friend's challenge. Invite codes are single-use.
+   *
+   * @returns The ID of the room we joined
    */
-  async leaveQueue(playerId: string): Promise<void> {
-    const queueRef = database().ref('matchmaking/queue');
-    const snapshot = await queueRef
-      .orderByChild('odid')
-      .equalTo(playerId)
-      .once('value');
-
-    if (snapshot.exists()) {
-      const entries = snapshot.val();
-      for (const key of Object.keys(entries)) {
-        await queueRef.child(key).remove();
-      }
+  async joinChallenge(code: string): Promise<string> {
+    const joinChallengeFn = functions().httpsCallable('joinChallenge');
+    const result = await joinChallengeFn({ code });
+    const data = result.data as { success: boolean; gameId?: string; error?: string };
+
+    if (!data.success || !data.gameId) {
+      throw new Error(data.error || 'Failed to join challenge');
     }
+
+    console.log('[Challenge] Joined game', data.gameId);
+    return data.gameId;
+  }
+
+  /**
+   * Build the link a friend opens to accept a challenge.
+   */
+  getChallengeLink(code: string): string {
+    return `${CHALLENGE_LINK_PREFIX}${code}`;
   }
 
   // --------------------------------------------------------
-  // GAME ROOM MANAGEMENT
+  // REMATCHES
   // --------------------------------------------------------
 
   /**
-   * Create a new game room with two players.
+   * Offer our last opponent a rematch at the same stake.
+   * The server only creates the new room once they accept.
+   *
+   * @param previousGameId - The game that just finished
    */
-  private async createGameRoom(
-    player1Entry: QueueEntry,
-    player2Entry: QueueEntry
-  ): Promise<string> {
-    const gameRef = database().ref('games').push();
-    const gameId = gameRef.key!;
-    const seed = generateGameSeed();
-    const letters = generateLetterPoolFromSeed(seed, 16);
-
-    const gameRoom: GameRoom = {
-      id: gameId,
-      status: 'waiting',
-      createdAt: Date.now(),
-      seed,
-      letters,
-      betAmount: player1Entry.betAmount,
-      betCurrency: player1Entry.betCurrency || 'SOL',
-      player1: {
-        odid: player1Entry.odid,
-        displayName: player1Entry.displayName,
-        score: 0,
-        wordsFound: [],
-        isReady: false,
-        lastActivity: Date.now(),
-      },
-      player2: {
-        odid: player2Entry.odid,
-        displayName: player2Entry.displayName,
-        score: 0,
-        wordsFound: [],
-        isReady: false,
-        lastActivity: Date.now(),
-      },
-      escrow: {
-        status: 'pending_deposits',
-      },
-    };
+  async offerRematch(previousGameId: string): Promise<void> {
+    const offerRematchFn = functions().httpsCallable('offerRematch');
+    const result = await offerRematchFn({ gameId: previousGameId });
+    const data = result.data as { success: boolean; error?: string };
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to offer rematch');
+    }
+  }
 
-    await gameRef.set(gameRoom);
-    return gameId;
+  /**
+   * Accept or decline a rematch our opponent offered.
+   *
+   * @returns The new room's ID when accepted
+   */
+  async respondToRematch(previousGameId: string, accept: boolean): Promise<string | null> {
+    const respondToRematchFn = functions().httpsCallable('respondToRematch');
+    const result = await respondToRematchFn({ gameId: previousGameId, accept });
+    const data = result.data as { success: boolean; gameId?: string; error?: string };
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to answer rematch');
+    }
+    return data.gameId || null;
   }
 
+  /**
+   * Withdraw our rematch offer before it's answered.
+   */
+  async withdrawRematch(previousGameId: string): Promise<void> {
+    const withdrawRematchFn = functions().httpsCallable('withdrawRematch');
+    const result = await withdrawRematchFn({ gameId: previousGameId });
+    const data = result.data as { success: boolean; error?: string };
+
+    if (!data.success) {
+      console.log('[Rematch] Nothing to withdraw:', data.error);
+    }
+  }
+
+  /**
+   * Listen for a rematch offer after a game (from either player).
+   *
+   * @returns Cleanup function
+   */
+  listenForRematch(previousGameId: string, onOffer: RematchOfferCallback): () => void {
+    const offerRef = database().ref(`rematchOffers/${previousGameId}`);
+
+    const listener = offerRef.on(
+      'value',
+      (snapshot) => onOffer(snapshot.val() as RematchOffer | null),
+      (err) => console.log('[Rematch] Listener error:', err.message)
+    );
+
+    return () => offerRef.off('value', listener);
+  }
+
+  // --------------------------------------------------------
+  // GAME ROOM MANAGEMENT
+  // --------------------------------------------------------
+
   /**
    * Join an existing game room and start listening for updates.
    *
@@ -313,37 +449,109 @@ class MultiplayerService {
   }
 
   /**
-   * Signal that the player is ready to start.
-   * Game only starts when both players are ready AND both deposits are locked.
+   * Keep our presence fresh for the duration of a game.
+   * Marks us connected (and disconnected if the socket drops, via onDisconnect)
+   * and sends a heartbeat, so the server can forfeit us if we never come back.
+   *
+   * @param onConnectionChange - Called when our own connection drops or returns
+   * @returns Cleanup function
    */
-  async setPlayerReady(gameId: string, playerId: string): Promise<void> {
+  trackPresence(
+    gameId: string,
+    playerId: string,
+    onConnectionChange: ConnectionChangeCallback
+  ): () => void {
     const gameRef = database().ref(`games/${gameId}`);
-    const snapshot = await gameRef.once('value');
+    const connectedRef = database().ref('.info/connected');
+    let playerRef: ReturnType<typeof gameRef.child> | null = null;
+    let stopped = false;
 
-    if (!snapshot.exists()) return;
+    const heartbeat = () => {
+      playerRef?.child('lastActivity').set(database.ServerValue.TIMESTAMP).catch((err) => {
+        console.log('[Presence] Heartbeat failed:', err.message);
+      });
+    };
 
-    const game = snapshot.val() as GameRoom;
-    const playerKey = game.player1.odid === playerId ? 'player1' : 'player2';
+    const onConnectedChange = async (snapshot: any) => {
+      const connected = snapshot.val() === true;
+      onConnectionChange(connected);
+      if (!connected || !playerRef) return;
 
-    await gameRef.child(`${playerKey}/isReady`).set(true);
-    await gameRef.child(`${playerKey}/lastActivity`).set(Date.now());
+      // (Re)arm the disconnect handler first, then announce we're here
+      await playerRef.child('connected').onDisconnect().set(false);
+      await playerRef.child('connected').set(true);
+      heartbeat();
+    };
 
-    // Check if both players are ready
-    const updatedSnapshot = await gameRef.once('value');
-    const updatedGame = updatedSnapshot.val() as GameRoom;
+    // Find our player slot, then start listening for connection changes
+    gameRef.once('value').then((snapshot) => {
+      if (stopped || !snapshot.exists()) return;
+      const game = snapshot.val() as GameRoom;
+      const playerKey = game.player1.odid === playerId ? 'player1' : 'player2';
+      playerRef = gameRef.child(playerKey);
+      connectedRef.on('value', onConnectedChange);
+    });
 
-    if (updatedGame.player1.isReady && updatedGame.player2?.isReady) {
-      // SECURITY: Only start game if escrow is locked (both deposits confirmed)
-      if (updatedGame.escrow?.status !== 'locked') {
-        console.log('[setPlayerReady] Both ready but escrow not locked, waiting for deposits');
-        return;
-      }
+    const heartbeatTimer = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
 
-      // Both ready AND both deposited - start the game!
-      await gameRef.update({
-        status: 'playing',
-        startedAt: Date.now(),
-      });
+    return () => {
+      stopped = true;
+      clearInterval(heartbeatTimer);
+      connectedRef.off('value', onConnectedChange);
+      playerRef?.child('connected').onDisconnect().cancel();
+    };
+  }
+
+  /**
+   * Whether a player looks disconnected right now (socket dropped, or no
+   * recent heartbeat). The server only forfeits them after DISCONNECT_GRACE_MS.
+   */
+  isPlayerDisconnected(player: PlayerState, now: number = Date.now()): boolean {
+    return player.connected === false || now - player.lastActivity > HEARTBEAT_INTERVAL_MS * 3;
+  }
+
+  /**
+   * Seconds left before a disconnected player is forfeited.
+   */
+  getForfeitCountdown(player: PlayerState, now: number = Date.now()): number {
+    return Math.max(0, Math.ceil((player.lastActivity + DISCONNECT_GRACE_MS - now) / 1000));
+  }
+
+  /**
+   * Find the player's live game (waiting for deposits, about to start or in
+   * play), e.g. after the app was closed mid-game.
+   *
+   * @returns The live game, or null if the player isn't in one
+   */
+  async findActiveGame(playerId: string): Promise<GameRoom | null> {
+    const pointer = await database().ref(`activeGames/${playerId}`).once('value');
+    const gameId = pointer.val() as string | null;
+    if (!gameId) return null;
+
+    const game = await this.getGame(gameId);
+    if (!game || !['waiting', 'ready', 'playing'].includes(game.status)) {
+      return null;
+    }
+    return game;
+  }
+
+  /**
+   * Signal that the player is ready to start.
+   * The server starts the game once both players are ready AND both deposits are locked.
+   */
+  async setPlayerReady(gameId: string): Promise<void> {
+    try {
+      const setPlayerReadyFn = functions().httpsCallable('setPlayerReady');
+      const result = await setPlayerReadyFn({ gameId });
+      const data = result.data as { success: boolean; started?: boolean; error?: string };
+
+      if (!data.success) {
+        console.log('[setPlayerReady] Server rejected:', data.error);
+      } else if (!data.started) {
+        console.log('[setPlayerReady] Ready, waiting for opponent and deposits');
+      }
+    } catch (error: any) {
+      console.error('[setPlayerReady] Failed:', error);
     }
   }
 
@@ -360,13 +568,11 @@ class MultiplayerService {
    * - Score calculated server-side (anti-cheat)
    *
    * @param gameId - The game room ID
-   * @param playerId - The player's wallet address
    * @param word - The word to submit
    * @returns Object with success status and score (if successful)
    */
   async submitWord(
     gameId: string,
-    playerId: string,
     word: string
   ): Promise<{ success: boolean; score?: number; error?: string }> {
     const t0 = Date.now();
@@ -377,7 +583,6 @@ class MultiplayerService {
       const submitWordFn = functions().httpsCallable('submitWord');
       const result = await submitWordFn({
         gameId,
-        playerId,
         word: word.toUpperCase(),
       });
 
@@ -398,72 +603,72 @@ class MultiplayerService {
 
   /**
    * Forfeit a game - the forfeiting player loses, opponent wins.
-   * This updates the game state and triggers the payout via Firebase function.
+   * The server finishes the game, which triggers the payout.
    */
-  async forfeitGame(gameId: string, forfeitingPlayerId: string): Promise<void> {
-    const gameRef = database().ref(`games/${gameId}`);
-    const snapshot = await gameRef.once('value');
+  async forfeitGame(gameId: string): Promise<void> {
+    console.log('[Forfeit] Forfeiting game', gameId);
 
-    if (!snapshot.exists()) {
-      console.log('[Forfeit] Game not found:', gameId);
-      return;
-    }
-
-    const game = snapshot.val() as GameRoom;
+    try {
+      const processForfeitFn = functions().httpsCallable('processForfeit');
+      const result = await processForfeitFn({ gameRoomId: gameId });
+      const data = result.data as { success: boolean; winner?: string; error?: string };
 
-    // Determine the winner (the player who didn't forfeit)
-    let winner: string;
-    if (game.player1.odid === forfeitingPlayerId) {
-      winner = game.player2?.odid || '';
-    } else {
-      winner = game.player1.odid;
+      if (data.success) {
+        console.log('[Forfeit] Game forfeited, winner:', data.winner);
+      } else {
+        console.log('[Forfeit] Server rejected:', data.error);
+      }
+    } catch (error: any) {
+      console.error('[Forfeit] Failed:', error);
     }
-
-    console.log('[Forfeit] Player', forfeitingPlayerId, 'forfeiting, winner:', winner);
-
-    // Update game status
-    await gameRef.update({
-      status: 'finished',
-      endedAt: Date.now(),
-      winner,
-      forfeitedBy: forfeitingPlayerId,
-    });
-
-    console.log('[Forfeit] Game updated, payout should be triggered automatically');
   }
 
   /**
-   * End the game and determine the winner.
+   * Wait for the server to finish the game and pick the winner.
+   * The server ends every game when its clock runs out, so clients never
+   * decide the result themselves.
+   *
+   * @param timeoutMs - How long to wait before giving up
+   * @returns The finished game, or null if it didn't finish in time
    */
-  async endGame(gameId: string): Promise<GameRoom | null> {
+  endGame(gameId: string, timeoutMs: number = 15000): Promise<GameRoom | null> {
     const gameRef = database().ref(`games/${gameId}`);
-    const snapshot = await gameRef.once('value');
 
-    if (!snapshot.exists()) return null;
+    return new Promise((resolve) => {
+      let settled = false;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
 
-    const game = snapshot.val() as GameRoom;
+      // The listener can fire synchronously from cache, so nothing here may
+      // rely on values assigned after gameRef.on()
+      const listener = (snapshot: any) => {
+        if (!snapshot.exists()) {
+          settle(null);
+          return;
+        }
 
-    // Determine winner
-    let winner: string | undefined;
-    if (game.player2) {
-      if (game.player1.score > game.player2.score) {
-        winner = game.player1.odid;
-      } else if (game.player2.score > game.player1.score) {
-        winner = game.player2.odid;
+        const game = snapshot.val() as GameRoom;
+        if (game.status === 'finished') {
+          settle({ ...game, id: gameId });
+        }
+      };
+
+      function settle(game: GameRoom | null) {
+        if (settled) return;
+        settled = true;
+        if (timeout) clearTimeout(timeout);
+        gameRef.off('value', listener);
+        resolve(game);
       }
-      // If scores are equal, winner is undefined (tie)
-    }
 
-    // Update game status
-    await gameRef.update({
-      status: 'finished',
-      endedAt: Date.now(),
-      winner,
-    });
+      gameRef.on('value', listener);
 
-    // Return final game state
-    const finalSnapshot = await gameRef.once('value');
-    return { ...finalSnapshot.val(), id: gameId } as GameRoom;
+      if (!settled) {
+        timeout = setTimeout(() => {
+          console.log('[endGame] Timed out waiting for the server to finish game', gameId);
+          settle(null);
+        }, timeoutMs);
+      }
+    });
   }
 
   /**
@@ -480,12 +685,20 @@ class MultiplayerService {
   // --------------------------------------------------------
 
   /**
-   * Shorten a wallet address for display.
-   * Example: "7xKXtg2C..." instead of full address
+   * Check that a revealed seed matches the hash published before deposits,
+   * and that the room's letters really come from that seed.
+   * Returns true if nothing has been revealed yet.
    */
-  private shortenAddress(address: string): string {
-    if (address.length <= 12) return address;
-    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+  verifySeedReveal(game: GameRoom): boolean {
+    if (!game.seed) return true;
+    if (hashSeed(game.seed) !== game.seedHash) return false;
+
+    const expected = generateLetterPoolFromSeed(game.seed);
+    return (
+      !!game.letters &&
+      game.letters.length === expected.length &&
+      game.letters.every((letter, i) => letter === expected[i])
+    );
   }
 
   /**
@@ -501,34 +714,6 @@ class MultiplayerService {
   getCurrentPlayerId(): string | null {
     return this.currentPlayerId;
   }
-
-  /**
-   * Clean up old/abandoned games (call periodically).
-   */
-  async cleanupOldGames(): Promise<void> {
-    const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    const gamesRef = database().ref('games');
-
-    const snapshot = await gamesRef
-      .orderByChild('createdAt')
-      .endAt(oneHourAgo)
-      .once('value');
-
-    if (snapshot.exists()) {
-      const updates: { [key: string]: null } = {};
-      snapshot.forEach((child) => {
-        const game = child.val() as GameRoom;
-        if (game.status !== 'finished') {
-          updates[child.key!] = null;
-        }
-        return undefined; // Continue iteration
-      });
-
-      if (Object.keys(updates).length > 0) {
-        await gamesRef.update(updates);
-      }
-    }
-  }
 }
 
 // Export a singleton instance
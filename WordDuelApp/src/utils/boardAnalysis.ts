@@ -0,0 +1,60 @@
+/**
+ * Board Analysis
+ *
+ * Compares what two players found on a board with everything the board had
+ * to offer (see findPossibleWords), for the "What you missed" section of the
+ * results screen.
+ */
+
+import { BoardSolution, SolvedWord } from '../../shared/wordSolver';
+
+// How many missed words the results screen lists
+export const TOP_MISSED_WORDS = 10;
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface BoardAnalysis {
+  maxScore: number;           // Most points the board allowed
+  scorePercent: number;       // The player's score as a share of maxScore (0-100)
+  missedWords: SolvedWord[];  // Best words neither player found (top TOP_MISSED_WORDS)
+  opponentOnlyWords: SolvedWord[]; // Found by the opponent but not the player
+  sharedWords: SolvedWord[];  // Found by both players
+}
+
+// ============================================================
+// ANALYSIS
+// ============================================================
+
+/**
+ * Analyze a finished board.
+ *
+ * @param solution - Every word on the board (from findPossibleWords)
+ * @param score - The player's final score
+ * @param myWords - Words the player found
+ * @param opponentWords - Words the opponent found (empty in practice)
+ */
+export function analyzeBoard(
+  solution: BoardSolution,
+  score: number,
+  myWords: string[],
+  opponentWords: string[] = []
+): BoardAnalysis {
+  const mine = new Set(myWords.map((word) => word.toUpperCase()));
+  const theirs = new Set(opponentWords.map((word) => word.toUpperCase()));
+
+  // Highest scoring first (the solver already lists longest first)
+  const byScore = [...solution.words].sort((a, b) => b.score - a.score);
+
+  return {
+    maxScore: solution.maxScore,
+    scorePercent:
+      solution.maxScore > 0 ? Math.min(100, Math.round((score / solution.maxScore) * 100)) : 0,
+    missedWords: byScore
+      .filter(({ word }) => !mine.has(word) && !theirs.has(word))
+      .slice(0, TOP_MISSED_WORDS),
+    opponentOnlyWords: byScore.filter(({ word }) => theirs.has(word) && !mine.has(word)),
+    sharedWords: byScore.filter(({ word }) => theirs.has(word) && mine.has(word)),
+  };
+}
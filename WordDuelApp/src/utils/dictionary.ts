@@ -4,108 +4,121 @@
  * Handles word validation - checking if a word is a real English word.
  * Uses a comprehensive dictionary of ~275,000 English words.
  *
- * The dictionary is loaded asynchronously to prevent UI freezes.
+ * The words ship precompiled into the shared word index format (see
+ * shared/dictionaryData and functions/src/build-dictionary.ts), which also
+ * finds every word on a board in a few milliseconds. Loading it is a single
+ * base64 decode, with no word list to parse or index on the device.
+ *
+ * Which words count depends on the word list (see shared/wordLists): practice
+ * uses PRACTICE_WORD_LIST, and multiplayer games use the list of their tier.
  */
 
-// Import the comprehensive English word list
-import words from 'an-array-of-english-words';
+import { Buffer } from 'buffer';
+
+import { MIN_WORD_LENGTH } from '../../shared/gameRules';
+import {
+  DICTIONARY_BLOCKED_WORDS,
+  DICTIONARY_DATA,
+  DICTIONARY_HASH,
+} from '../../shared/dictionaryData';
+import { BoardSolution, WordIndex, decodeWordIndex } from '../../shared/wordSolver';
+import {
+  PRACTICE_WORD_LIST,
+  WordList,
+  WordListId,
+  WordStatus,
+  createWordList,
+  getWordListId,
+  getWordStatus,
+  solveBoardWithList,
+} from '../../shared/wordLists';
 
 // ============================================================
-// WORD SET (Lazy loaded)
+// WORD INDEX (Lazy loaded)
 // ============================================================
 
 /**
- * A Set of valid English words for O(1) lookup time.
- * Loaded asynchronously to prevent UI freezes.
+ * The valid English words, as a DAWG.
+ * Decoded on first use (or ahead of time by preloadDictionary).
+ */
+let WORD_INDEX: WordIndex | null = null;
+
+/**
+ * Decode the compiled dictionary (once).
+ */
+function loadWordIndex(): WordIndex {
+  if (!WORD_INDEX) {
+    const startedAt = Date.now();
+    WORD_INDEX = decodeWordIndex(Buffer.from(DICTIONARY_DATA, 'base64'));
+    console.log(`[Dictionary] Loaded ${WORD_INDEX.wordCount} words in ${Date.now() - startedAt}ms`);
+  }
+  return WORD_INDEX;
+}
+
+// Word lists put together so far, keyed by ID (they share WORD_INDEX)
+const loadedWordLists: Partial<Record<WordListId, WordList>> = {};
+
+/**
+ * Get a word list, decoding the dictionary first if needed.
+ * Games that don't name a list use DEFAULT_WORD_LIST.
  */
-let VALID_WORDS: Set<string> | null = null;
-let isLoading = false;
-let loadPromise: Promise<void> | null = null;
+function loadWordList(wordList: unknown): WordList {
+  const id = getWordListId(wordList);
+  if (!loadedWordLists[id]) {
+    loadedWordLists[id] = createWordList(id, loadWordIndex(), DICTIONARY_BLOCKED_WORDS[id]);
+  }
+  return loadedWordLists[id]!;
+}
 
 // ============================================================
 // PUBLIC FUNCTIONS
 // ============================================================
 
 /**
- * Checks if a word is valid (exists in the dictionary).
+ * Checks a word against a word list.
  *
  * @param word - The word to check (case-insensitive)
- * @returns true if the word is valid, false otherwise
+ * @param wordList - The list to check against (practice uses PRACTICE_WORD_LIST)
+ * @returns 'valid', 'blocked' if it's a word the list leaves out (e.g. offensive),
+ *          or 'unknown' if it isn't a word at all
  *
  * Example:
- *   isValidWord('HELLO') // returns true
- *   isValidWord('PAIRED') // returns true
- *   isValidWord('xyz123') // returns false
+ *   checkWord('HELLO') // returns 'valid'
+ *   checkWord('xyz123') // returns 'unknown'
  */
-export function isValidWord(word: string): boolean {
-  // Convert to lowercase for comparison
-  const lowercaseWord = word.toLowerCase();
-
-  // Minimum 3 letters for game purposes
-  if (lowercaseWord.length < 3) {
-    return false;
-  }
-
-  // If dictionary isn't loaded yet, load it synchronously (fallback)
-  if (!VALID_WORDS) {
-    console.log('[Dictionary] Loading synchronously (not preloaded)');
-    VALID_WORDS = new Set(words);
+export function checkWord(word: string, wordList: unknown = PRACTICE_WORD_LIST): WordStatus {
+  // Minimum word length for game purposes
+  if (word.length < MIN_WORD_LENGTH) {
+    return 'unknown';
   }
 
-  // Check if it's in our dictionary
-  return VALID_WORDS.has(lowercaseWord);
+  // Check it against the list (loading it now is quick if it wasn't preloaded)
+  return getWordStatus(loadWordList(wordList), word);
 }
 
 /**
  * Gets all valid words that can be formed from a set of letters.
- * Useful for testing or showing possible words after a game.
+ * Useful for showing what a board had to offer after a game.
  *
  * @param letters - Available letters (can contain duplicates)
- * @returns Array of valid words that can be formed
+ * @param wordList - The list the game was played with (never includes its blocked words)
+ * @returns Each word with its score (longest first) and the board's
+ *          maximum possible score
  */
-export function findPossibleWords(letters: string[]): string[] {
-  if (!VALID_WORDS) {
-    console.log('[Dictionary] Not loaded yet for findPossibleWords');
-    return [];
-  }
-
-  const availableLetters = letters.map((l) => l.toLowerCase());
-  const possibleWords: string[] = [];
-
-  // Check each word in our dictionary
-  VALID_WORDS.forEach((word) => {
-    // Only check words that could fit (3+ letters, not longer than available)
-    if (word.length >= 3 && word.length <= availableLetters.length) {
-      if (canFormWord(word, [...availableLetters])) {
-        possibleWords.push(word);
-      }
-    }
-  });
-
-  // Sort by length (longest first) then alphabetically
-  return possibleWords.sort((a, b) => {
-    if (b.length !== a.length) return b.length - a.length;
-    return a.localeCompare(b);
-  });
+export function findPossibleWords(
+  letters: string[],
+  wordList: unknown = PRACTICE_WORD_LIST
+): BoardSolution {
+  return solveBoardWithList(loadWordList(wordList), letters);
 }
 
 /**
- * Helper: Checks if a word can be formed from available letters.
- *
- * @param word - The word to check
- * @param available - Available letters (will be modified)
- * @returns true if the word can be formed
+ * Whether a game was created with the same dictionary as this build, so
+ * checkWord agrees with the server on every word.
+ * Games created before dictionaries were versioned have no hash.
  */
-function canFormWord(word: string, available: string[]): boolean {
-  for (const char of word) {
-    const index = available.indexOf(char);
-    if (index === -1) {
-      return false;
-    }
-    // Remove the used letter
-    available.splice(index, 1);
-  }
-  return true;
+export function isLocalDictionary(dictionaryHash: string | undefined): boolean {
+  return !dictionaryHash || dictionaryHash === DICTIONARY_HASH;
 }
 
 /**
@@ -113,63 +126,22 @@ function canFormWord(word: string, available: string[]): boolean {
  * Useful for displaying stats.
  */
 export function getDictionarySize(): number {
-  return VALID_WORDS?.size || 0;
+  return WORD_INDEX?.wordCount || 0;
 }
 
 /**
- * Pre-loads the dictionary into memory using InteractionManager.
- * Call this early (e.g., when app starts or matchmaking screen loads)
- * to avoid a freeze on the first word validation.
- *
- * The dictionary is loaded in chunks to prevent UI blocking.
+ * Pre-loads the dictionary so the first word validation doesn't wait on it.
+ * Call this early (e.g., when app starts or matchmaking screen loads).
+ * The decode is deferred until after the next frame renders.
  *
  * @returns Promise that resolves when dictionary is ready
  */
 export function preloadDictionary(): Promise<number> {
-  // If already loaded, return immediately
-  if (VALID_WORDS) {
-    return Promise.resolve(VALID_WORDS.size);
+  if (WORD_INDEX) {
+    return Promise.resolve(WORD_INDEX.wordCount);
   }
 
-  // If already loading, return the existing promise
-  if (loadPromise) {
-    return loadPromise.then(() => VALID_WORDS?.size || 0);
-  }
-
-  // Start loading
-  isLoading = true;
-  console.log('[Dictionary] Starting async preload...');
-
-  loadPromise = new Promise((resolve) => {
-    // Use requestAnimationFrame to defer loading until after render
-    requestAnimationFrame(() => {
-      // Load in batches to keep UI responsive
-      const batchSize = 50000;
-      const tempSet = new Set<string>();
-      let index = 0;
-
-      const loadBatch = () => {
-        const end = Math.min(index + batchSize, words.length);
-        for (let i = index; i < end; i++) {
-          tempSet.add(words[i]);
-        }
-        index = end;
-
-        if (index < words.length) {
-          // More batches to load - schedule next batch
-          setTimeout(loadBatch, 0);
-        } else {
-          // Done loading
-          VALID_WORDS = tempSet;
-          isLoading = false;
-          console.log(`[Dictionary] Preloaded ${VALID_WORDS.size} words`);
-          resolve();
-        }
-      };
-
-      loadBatch();
-    });
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => resolve(loadWordIndex().wordCount));
   });
-
-  return loadPromise.then(() => VALID_WORDS?.size || 0);
 }